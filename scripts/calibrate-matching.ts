@@ -0,0 +1,281 @@
+/**
+ * Fit the match config on user corrections
+ *
+ * Every candidate a user picked in the preview is a positive example, every
+ * one they turned down a negative. This searches titleWeight, artistWeight and
+ * durationWeight (summing to 1, as the defaults do) and, for each combination,
+ * the thresholds that keep both automatic decisions at the target precision:
+ * `matched` (at or above highConfidenceThreshold) should be right, and
+ * `not_found` (below lowConfidenceThreshold) should really be wrong. The
+ * combination that decides the most candidates without asking the user wins.
+ *
+ * Usage:
+ *   npm run match:calibrate -- [--input corrections.json] [--platform spotify]
+ *     [--precision 0.95] [--min-samples 50] [--dry-run]
+ *
+ * Reads the MatchCorrection table (DATABASE_URL, as the app does) unless
+ * --input points at a JSON array of correction records. Unless --dry-run is
+ * passed, writes the result to src/lib/matching/match-config.json with the
+ * next version number; review and commit it like any other change.
+ * Candidates are scored with scoreFeatures itself, so the fit always uses the
+ * app's formula.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { MatchFeatures, scoreFeatures } from '../src/lib/matching/scoring';
+import type { MatchConfig } from '../src/lib/matching/types';
+import type { MatchCorrectionRecord } from '../src/lib/storage/types';
+
+const CONFIG_PATH = path.join(__dirname, '..', 'src', 'lib', 'matching', 'match-config.json');
+
+interface Sample {
+  correctionId: string;
+  label: boolean; // Picked by the user
+  features: MatchFeatures;
+}
+
+interface StatusMetrics {
+  count: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+type Metrics = Record<'matched' | 'low_confidence' | 'not_found', StatusMetrics> & { ranking: number | null };
+
+const args = process.argv.slice(2);
+
+function option(name: string, fallback?: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+}
+
+const inputPath = option('input');
+const platform = option('platform');
+const targetPrecision = Number(option('precision', '0.95'));
+const minSamples = Number(option('min-samples', '50'));
+const dryRun = args.includes('--dry-run');
+
+async function loadCorrections(): Promise<MatchCorrectionRecord[]> {
+  if (inputPath) {
+    return JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  }
+
+  const db = new PrismaClient({ datasourceUrl: process.env.DATABASE_URL || 'file:./spotifyt.db' });
+
+  try {
+    const rows = await db.matchCorrection.findMany({ orderBy: { createdAt: 'asc' } });
+    return rows.map((row: { source: string; chosen: string | null; rejected: string }) => ({
+      ...row,
+      source: JSON.parse(row.source),
+      chosen: row.chosen ? JSON.parse(row.chosen) : null,
+      rejected: JSON.parse(row.rejected),
+    }));
+  } finally {
+    await db.$disconnect();
+  }
+}
+
+const score = (features: MatchFeatures, config: MatchConfig) => scoreFeatures(features, config).total;
+
+// Scores binned by hundredths, so thresholds (also in hundredths) can be
+// tried from cumulative counts
+function histogram(samples: Sample[], config: MatchConfig) {
+  const positives = new Array(100).fill(0);
+  const negatives = new Array(100).fill(0);
+
+  for (const sample of samples) {
+    const bin = Math.min(99, Math.floor(score(sample.features, config) * 100 + 1e-9));
+    (sample.label ? positives : negatives)[bin]++;
+  }
+
+  return { positives, negatives };
+}
+
+const sum = (counts: number[], from: number, to: number) => counts.slice(from, to).reduce((a, b) => a + b, 0);
+const ratio = (a: number, b: number) => (b === 0 ? null : a / b);
+
+function evaluate(samples: Sample[], config: MatchConfig): Metrics {
+  const { positives, negatives } = histogram(samples, config);
+  const high = Math.round(config.highConfidenceThreshold * 100);
+  const low = Math.round(config.lowConfidenceThreshold * 100);
+
+  const totalPositives = sum(positives, 0, 100);
+  const totalNegatives = sum(negatives, 0, 100);
+  const matched = { positives: sum(positives, high, 100), negatives: sum(negatives, high, 100) };
+  const notFound = { positives: sum(positives, 0, low), negatives: sum(negatives, 0, low) };
+  const review = { positives: sum(positives, low, high), negatives: sum(negatives, low, high) };
+
+  return {
+    matched: {
+      count: matched.positives + matched.negatives,
+      precision: ratio(matched.positives, matched.positives + matched.negatives),
+      recall: ratio(matched.positives, totalPositives),
+    },
+    low_confidence: {
+      count: review.positives + review.negatives,
+      precision: ratio(review.positives, review.positives + review.negatives),
+      recall: ratio(review.positives, totalPositives),
+    },
+    not_found: {
+      count: notFound.positives + notFound.negatives,
+      precision: ratio(notFound.negatives, notFound.positives + notFound.negatives),
+      recall: ratio(notFound.negatives, totalNegatives),
+    },
+    ranking: rankingAccuracy(samples, config),
+  };
+}
+
+// Share of corrections where the user's pick outscores what they rejected
+function rankingAccuracy(samples: Sample[], config: MatchConfig): number | null {
+  let pairs = 0;
+  let correct = 0;
+
+  for (const group of groupByCorrection(samples)) {
+    const chosen = group.find((s) => s.label);
+    if (!chosen) continue;
+
+    const chosenScore = score(chosen.features, config);
+    for (const rejected of group.filter((s) => !s.label)) {
+      pairs++;
+      if (chosenScore > score(rejected.features, config)) correct++;
+    }
+  }
+
+  return ratio(correct, pairs);
+}
+
+function groupByCorrection(samples: Sample[]): Sample[][] {
+  const groups = new Map<string, Sample[]>();
+  for (const sample of samples) {
+    if (!groups.has(sample.correctionId)) groups.set(sample.correctionId, []);
+    groups.get(sample.correctionId)!.push(sample);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Widest thresholds that keep `matched` and `not_found` at the target
+ * precision, or null if no high threshold reaches it
+ */
+function fitThresholds(samples: Sample[], config: MatchConfig) {
+  const { positives, negatives } = histogram(samples, config);
+
+  let high: number | null = null;
+  for (let t = 99; t >= 1; t--) {
+    const precision = ratio(sum(positives, t, 100), sum(positives, t, 100) + sum(negatives, t, 100));
+    if (precision !== null && precision < targetPrecision) break;
+    if (precision !== null) high = t;
+  }
+  if (high === null) return null;
+
+  let low = 0;
+  for (let t = 1; t <= high; t++) {
+    const precision = ratio(sum(negatives, 0, t), sum(positives, 0, t) + sum(negatives, 0, t));
+    if (precision !== null && precision < targetPrecision) break;
+    if (precision !== null) low = t;
+  }
+
+  const decided = sum(positives, high, 100) + sum(negatives, high, 100) + sum(positives, 0, low) + sum(negatives, 0, low);
+  return { high, low, decided };
+}
+
+function fit(samples: Sample[], base: MatchConfig): MatchConfig | null {
+  let best: { config: MatchConfig; decided: number; ranking: number } | null = null;
+
+  for (let title = 30; title <= 80; title += 5) {
+    for (let artist = 10; artist <= 50; artist += 5) {
+      const duration = 100 - title - artist;
+      if (duration < 0 || duration > 30) continue;
+
+      const weights = { titleWeight: title / 100, artistWeight: artist / 100, durationWeight: duration / 100 };
+      const thresholds = fitThresholds(samples, { ...base, ...weights });
+      if (!thresholds) continue;
+
+      const config: MatchConfig = {
+        ...base,
+        ...weights,
+        highConfidenceThreshold: thresholds.high / 100,
+        lowConfidenceThreshold: thresholds.low / 100,
+      };
+      const ranking = rankingAccuracy(samples, config) ?? 0;
+
+      if (
+        !best ||
+        thresholds.decided > best.decided ||
+        (thresholds.decided === best.decided && ranking > best.ranking)
+      ) {
+        best = { config, decided: thresholds.decided, ranking };
+      }
+    }
+  }
+
+  return best?.config ?? null;
+}
+
+function formatMetrics(label: string, metrics: Metrics) {
+  const pct = (value: number | null) => (value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+  console.log(`\n${label}`);
+  console.log('  status           count  precision  recall');
+  for (const status of ['matched', 'low_confidence', 'not_found'] as const) {
+    const m = metrics[status];
+    console.log(`  ${status.padEnd(15)} ${String(m.count).padStart(6)}    ${pct(m.precision)}  ${pct(m.recall)}`);
+  }
+  console.log(`  pick outranks rejected: ${pct(metrics.ranking)}`);
+}
+
+async function main() {
+  const current = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
+  const corrections = (await loadCorrections()).filter((c) => !platform || c.targetPlatform === platform);
+
+  const samples: Sample[] = corrections.flatMap((correction) => [
+    ...(correction.chosen ? [{ correctionId: correction.id, label: true, features: correction.chosen.features }] : []),
+    ...correction.rejected.map((candidate) => ({ correctionId: correction.id, label: false, features: candidate.features })),
+  ]);
+
+  const positives = samples.filter((s) => s.label).length;
+  console.log(`📊 ${corrections.length} corrections, ${positives} picked and ${samples.length - positives} rejected candidates`);
+
+  if (samples.length < minSamples || positives === 0 || positives === samples.length) {
+    console.error(`❌ Need at least ${minSamples} labeled candidates, with both picks and rejections`);
+    process.exit(1);
+  }
+
+  const baseline = evaluate(samples, current.config);
+  formatMetrics(`Current config (version ${current.version})`, baseline);
+
+  const learned = fit(samples, current.config);
+  if (!learned) {
+    console.error(`❌ No weights reach ${targetPrecision * 100}% precision for matched tracks`);
+    process.exit(1);
+  }
+
+  const metrics = evaluate(samples, learned);
+  formatMetrics('Learned config', metrics);
+  console.log('\n', {
+    titleWeight: learned.titleWeight,
+    artistWeight: learned.artistWeight,
+    durationWeight: learned.durationWeight,
+    highConfidenceThreshold: learned.highConfidenceThreshold,
+    lowConfidenceThreshold: learned.lowConfidenceThreshold,
+  });
+
+  if (dryRun) return;
+
+  const next = {
+    version: current.version + 1,
+    trainedAt: new Date().toISOString(),
+    samples: samples.length,
+    config: learned,
+    metrics,
+  };
+  fs.writeFileSync(CONFIG_PATH, JSON.stringify(next, null, 2) + '\n');
+  console.log(`\n✅ Wrote version ${next.version} to ${path.relative(process.cwd(), CONFIG_PATH)}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
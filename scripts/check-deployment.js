@@ -92,8 +92,9 @@ try {
     fs.readFileSync(path.join(__dirname, '../package.json'), 'utf-8')
   );
   const hasGeminiDep = packageJson.dependencies && packageJson.dependencies['@google/generative-ai'];
-  if (!hasGeminiDep && !process.env.GEMINI_API_KEY) {
-    console.log('  ⚠️  No Gemini dependency and no API key (AI matching disabled)');
+  const hasLlmBackend = ['GEMINI_API_KEY', 'OPENAI_API_KEY', 'LOCAL_LLM_URL'].some((v) => process.env[v]);
+  if (!hasGeminiDep && !hasLlmBackend) {
+    console.log('  ⚠️  No LLM backend configured (AI matching and text import disabled)');
     warnings++;
   } else {
     console.log('  ✅ Dependencies look good');
@@ -0,0 +1,82 @@
+/**
+ * Replay a Stripe event fixture against the local webhook endpoint
+ *
+ * Signs the payload with STRIPE_WEBHOOK_SECRET, the same way Stripe does, so
+ * the webhook route accepts it without the Stripe CLI.
+ *
+ * Usage:
+ *   npm run stripe:event -- <fixture.json> [--user <userId>] [--customer <cus_...>]
+ *
+ * --user and --customer override metadata.userId and the customer ID in the
+ * fixture, so it can target a user in your local database. Each run gets a
+ * fresh event ID unless --keep-id is passed (useful to check idempotency).
+ */
+
+import fs from 'fs';
+import crypto from 'crypto';
+import Stripe from 'stripe';
+
+const args = process.argv.slice(2);
+const fixturePath = args.find((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  if (!fixturePath) {
+    console.error('Usage: npm run stripe:event -- <fixture.json> [--user <userId>] [--customer <cus_...>] [--keep-id]');
+    process.exit(1);
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const event = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as Stripe.Event;
+  // Fixtures hold all kinds of objects; only the fields below are touched
+  const object = event.data.object as {
+    customer?: string;
+    metadata?: Stripe.Metadata | null;
+    parent?: { subscription_details?: { metadata?: Stripe.Metadata | null } | null } | null;
+  };
+
+  if (!args.includes('--keep-id')) {
+    event.id = `evt_test_${crypto.randomBytes(12).toString('hex')}`;
+  }
+
+  const userId = option('user');
+  if (userId) {
+    object.metadata = { ...object.metadata, userId };
+    if (object.parent?.subscription_details) {
+      object.parent.subscription_details.metadata = { userId };
+    }
+  }
+
+  const customer = option('customer');
+  if (customer) {
+    object.customer = customer;
+  }
+
+  const payload = JSON.stringify(event);
+  const header = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+
+  const response = await fetch(`${appUrl}/api/stripe/webhook`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'stripe-signature': header },
+    body: payload,
+  });
+
+  console.log(`${response.ok ? '✅' : '❌'} ${event.type} (${event.id}) -> ${response.status}`);
+  console.log(await response.text());
+  process.exit(response.ok ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('❌ Request failed:', error.message);
+  process.exit(1);
+});
@@ -1,12 +1,18 @@
 import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
 import { getProvider } from '@/lib/providers';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
 import { randomBytes } from 'crypto';
 
 export async function GET() {
   try {
     const session = await getSession();
 
+    const denial = checkEntitlement(session, { feature: 'platform', platform: 'deezer' });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
     // Generate state for CSRF protection
     const state = randomBytes(16).toString('hex');
     session.deezerState = state;
@@ -0,0 +1,48 @@
+/**
+ * Library Restore Progress API
+ *
+ * POST restores the next batch of tracks of a restore started by
+ * /api/backup/restore and returns every playlist's progress. The client
+ * calls it until `done`; the finished restore is then deleted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { getRestoreResults, isRestorePlaylistDone, restoreNextBatch } from '@/lib/backup';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession();
+    const storage = getStorage();
+    const restore = await storage.getRestore(id);
+
+    if (!restore || restore.userId !== session.userId) {
+      return NextResponse.json({ error: 'Restore not found' }, { status: 404 });
+    }
+
+    if (!isPlatformConnected(session, restore.targetPlatform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[restore.targetPlatform]} not connected` }, { status: 401 });
+    }
+
+    const updated = await restoreNextBatch(session, restore);
+
+    // Persist usage and any refreshed tokens
+    await session.save();
+
+    const done = updated.playlists.every(isRestorePlaylistDone);
+    if (done) {
+      await storage.deleteRestore(updated.id);
+    }
+
+    return NextResponse.json({ done, results: getRestoreResults(updated) });
+  } catch (error: any) {
+    console.error('[Restore] Batch error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to restore backup' }, { status: 500 });
+  }
+}
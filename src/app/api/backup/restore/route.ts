@@ -0,0 +1,81 @@
+/**
+ * Library Restore API
+ *
+ * Takes a backup archive as multipart form data (`archive`). Without
+ * `playlists` only the manifest comes back, so the client can show the
+ * archive. With `playlists` (a JSON array of playlist files from the
+ * manifest) and `targetPlatform`, it starts a restore of those playlists;
+ * the client then runs it a batch at a time through /api/backup/restore/[id].
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { isPlatformSupported } from '@/lib/providers';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+import { BackupFormatError, getRestoreResults, readLibraryBackup, startRestore } from '@/lib/backup';
+
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const form = await request.formData();
+    const archive = form.get('archive');
+    const targetPlatform = form.get('targetPlatform');
+    const playlistsField = form.get('playlists');
+
+    if (!archive || typeof archive === 'string') {
+      return NextResponse.json({ error: 'Missing backup archive' }, { status: 400 });
+    }
+
+    if (archive.size > MAX_ARCHIVE_SIZE) {
+      return NextResponse.json({ error: 'Backup archive is too large' }, { status: 400 });
+    }
+
+    let files: string[] | undefined;
+    if (typeof playlistsField === 'string') {
+      try {
+        files = JSON.parse(playlistsField);
+      } catch {
+        files = undefined;
+      }
+      if (!Array.isArray(files) || !files.every((file) => typeof file === 'string')) {
+        return NextResponse.json({ error: 'Invalid playlists' }, { status: 400 });
+      }
+    }
+
+    const buffer = Buffer.from(await archive.arrayBuffer());
+
+    if (!files) {
+      const { manifest } = readLibraryBackup(buffer, []);
+      return NextResponse.json({ manifest, results: [] });
+    }
+
+    if (!isPlatform(targetPlatform) || !isPlatformSupported(targetPlatform)) {
+      return NextResponse.json({ error: `Invalid platform: ${targetPlatform}` }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[targetPlatform]} not connected` }, { status: 401 });
+    }
+
+    const denial = checkEntitlement(session, { feature: 'platform', platform: targetPlatform });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    const { manifest, playlists } = readLibraryBackup(buffer, files);
+    const restore = await startRestore(session.userId, manifest, playlists, targetPlatform);
+
+    return NextResponse.json({ manifest, restoreId: restore.id, results: getRestoreResults(restore) });
+  } catch (error: any) {
+    if (error instanceof BackupFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[Restore] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to restore backup' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Library Backup API
+ *
+ * Downloads a backup archive of everything on one connected platform: every
+ * playlist plus liked tracks, with a manifest (see lib/backup).
+ *
+ * Usage:
+ *   GET /api/backup?platform=spotify
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { isPlatformSupported } from '@/lib/providers';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+import { createLibraryBackup } from '@/lib/backup';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const platform = request.nextUrl.searchParams.get('platform');
+
+    if (!isPlatform(platform) || !isPlatformSupported(platform)) {
+      return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} not connected` }, { status: 401 });
+    }
+
+    const denial = checkEntitlement(session, { feature: 'platform', platform });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    const { manifest, archive } = await createLibraryBackup(session, platform);
+    await session.save(); // Keep a refreshed token
+
+    console.log(
+      `[Backup] ${PLATFORM_NAMES[platform]}: ${manifest.playlists.length} playlists, ${manifest.skipped.length} skipped`
+    );
+
+    const filename = `spotifyt-backup-${platform}-${manifest.createdAt.slice(0, 10)}.zip`;
+
+    return new Response(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Backup] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to create backup' }, { status: 500 });
+  }
+}
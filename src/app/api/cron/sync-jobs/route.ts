@@ -0,0 +1,37 @@
+/**
+ * Sync Job Scheduler
+ *
+ * Called by the platform cron (see vercel.json) to run due sync jobs and
+ * playlist mirrors.
+ * Requests must carry `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueSyncJobs } from '@/lib/sync/jobs';
+import { runDueMirrors } from '@/lib/sync/mirror';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('[Sync Jobs] No cron secret configured');
+    return NextResponse.json({ error: 'Cron secret not configured' }, { status: 500 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const runs = await runDueSyncJobs();
+    const mirrorRuns = await runDueMirrors();
+    console.log('[Sync Jobs] Ran', runs.length, 'due jobs and', mirrorRuns.length, 'mirrors');
+
+    return NextResponse.json({ ran: runs.length + mirrorRuns.length, runs, mirrorRuns });
+  } catch (error: any) {
+    console.error('[Sync Jobs] Scheduler error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to run sync jobs' }, { status: 500 });
+  }
+}
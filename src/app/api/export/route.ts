@@ -0,0 +1,111 @@
+/**
+ * Playlist Export API
+ *
+ * Streams a playlist, or liked tracks with `playlistId=liked`, from any
+ * connected platform as a CSV, JSON, M3U8 or XSPF download.
+ *
+ * Usage:
+ *   GET /api/export?platform=spotify&playlistId=<id>&format=csv
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { getPlatformAccessToken, isPlatformConnected } from '@/lib/sync/connections';
+import { LIBRARY_SCAN_LIMIT } from '@/lib/sync/dedup';
+import { isPlatform, LIKED_TRACKS_URLS, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+import { exportFilename, getExporter, isExportFormat, ExportPlaylist } from '@/lib/export';
+import type { Track } from '@/lib/providers/base';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const searchParams = request.nextUrl.searchParams;
+    const platform = searchParams.get('platform');
+    const playlistId = searchParams.get('playlistId');
+    const format = searchParams.get('format') || 'csv';
+
+    if (!isPlatform(platform) || !playlistId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: `Invalid format: ${format}` }, { status: 400 });
+    }
+
+    if (!isPlatformSupported(platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} is not available` }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} not connected` }, { status: 401 });
+    }
+
+    const denial = checkEntitlement(session, { feature: 'platform', platform });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    const provider = getProvider(platform);
+
+    if (playlistId === 'liked' && !provider.capabilities.likedTracks.read) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[platform]} doesn't allow listing liked songs` },
+        { status: 400 }
+      );
+    }
+
+    const accessToken = await getPlatformAccessToken(session, platform);
+    await session.save(); // Keep a refreshed token
+
+    let playlist: ExportPlaylist;
+    let tracks: Track[];
+
+    if (playlistId === 'liked') {
+      tracks = await provider.getLikedTracks(accessToken, LIBRARY_SCAN_LIMIT);
+      playlist = { id: 'liked', platform, name: 'Liked Songs', externalUrl: LIKED_TRACKS_URLS[platform] };
+    } else {
+      const { tracks: playlistTracks = [], ...details } = await provider.getPlaylist(accessToken, playlistId);
+      tracks = playlistTracks;
+      playlist = {
+        id: details.id,
+        platform,
+        name: details.name,
+        description: details.description,
+        externalUrl: details.externalUrl,
+      };
+    }
+
+    const exporter = getExporter(format);
+    const chunks = exporter.serialize(playlist, tracks)[Symbol.iterator]();
+    const encoder = new TextEncoder();
+
+    // Serialize one piece per pull so large libraries aren't built up as a
+    // single string
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const next = chunks.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      },
+    });
+
+    const filename = exportFilename(playlist, format);
+    console.log(`[Export] ${PLATFORM_NAMES[platform]} ${playlistId}: ${tracks.length} tracks as ${format}`);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': exporter.contentType,
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Export] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to export playlist' }, { status: 500 });
+  }
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
 import { addToLiked, addToPlaylist, createPlaylist } from '@/lib/spotify/client';
+import {
+  checkEntitlement,
+  entitlementErrorResponse,
+  recordTracksTransferred,
+} from '@/lib/entitlements';
 
 export async function POST(request: Request) {
   try {
@@ -21,6 +26,11 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'No valid track URIs' }, { status: 400 });
     }
 
+    const denial = checkEntitlement(session, { feature: 'tracks', count: trackUris.length });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
     let playlistUrl = '';
     let added = 0;
     let failed = 0;
@@ -49,6 +59,9 @@ export async function POST(request: Request) {
       failed = trackUris.length;
     }
 
+    recordTracksTransferred(session, added);
+    await session.save();
+
     return NextResponse.json({
       success: true,
       added,
@@ -1,62 +1,126 @@
+/**
+ * Text Import Parse API
+ *
+ * Turns an uploaded playlist file or pasted text into songs. Playlist files
+ * are read locally; free-form text is split into chunks for the LLM. The
+ * answer streams as NDJSON (see @/lib/import/parse-stream), one event per
+ * chunk, so the preview can show songs while the rest is parsed.
+ *
+ * Usage:
+ *   POST /api/import/parse { text, filename?, model?, chunks?: number[] }
+ *
+ * `chunks` re-parses only those chunk indexes of the same text, e.g. the
+ * ones that failed or were truncated in an earlier response.
+ */
+
 import { NextResponse } from 'next/server';
+import {
+  generateJson,
+  getLlmClient,
+  JsonSchema,
+  LlmClient,
+  LlmModelNotAllowedError,
+  LlmTruncatedError,
+  resolveModel,
+} from '@/lib/llm';
+import {
+  deduplicateSongs,
+  encodeParseEvent,
+  parsePlaylistFile,
+  ImportedSong,
+  ParseEvent,
+  PARSE_STREAM_CONTENT_TYPE,
+} from '@/lib/import';
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent';
 const MAX_CHUNK_SIZE = 8000; // Characters per chunk
-
-interface ParsedSong {
-  title: string;
-  artist: string;
-}
+const MAX_TEXT_LENGTH = 500000; // Free-form text goes through the LLM
+const MAX_FILE_LENGTH = 10000000; // Playlist files are parsed locally
+const MAX_OUTPUT_TOKENS = 8192; // Room for a full chunk of short lines
+
+type ParsedSong = ImportedSong;
+
+const SONGS_SCHEMA: JsonSchema = {
+  type: 'array',
+  // Entries missing a title or artist are dropped below rather than failing
+  // the whole chunk
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      artist: { type: 'string' },
+    },
+  },
+};
 
 export async function POST(request: Request) {
   try {
     console.log('[Parse API] Received request');
 
-    // Validate API key
-    if (!GEMINI_API_KEY) {
-      console.error('[Parse API] GEMINI_API_KEY not configured');
-      return NextResponse.json({ error: 'Server configuration error: Gemini API key not set' }, { status: 500 });
-    }
-
-    const { text } = await request.json();
+    const { text, filename, model: requestedModel, chunks: requestedChunks } = await request.json();
 
     if (!text || typeof text !== 'string') {
       console.log('[Parse API] Invalid text input');
       return NextResponse.json({ error: 'Invalid text input' }, { status: 400 });
     }
 
+    if (text.length > MAX_FILE_LENGTH) {
+      console.log('[Parse API] Text too long:', text.length);
+      return NextResponse.json({ error: 'File is too large. Maximum 10,000,000 characters.' }, { status: 400 });
+    }
+
+    // Playlist files (M3U, PLS, XSPF, CSV, iTunes XML) don't need the LLM
+    const playlist = parsePlaylistFile(text, typeof filename === 'string' ? filename : undefined);
+    if (playlist) {
+      const uniqueSongs = deduplicateSongs(playlist.songs);
+      console.log(`[Parse API] Read ${playlist.format} file:`, uniqueSongs.length, 'unique songs');
+
+      return streamEvents(
+        (function* (): Generator<ParseEvent> {
+          yield { type: 'start', chunks: 1, format: playlist.format };
+          yield { type: 'chunk', index: 0, status: 'ok', songs: uniqueSongs };
+          yield { type: 'done', failed: [], truncated: [] };
+        })()
+      );
+    }
+
+    const llm = getLlmClient();
+    if (!llm) {
+      console.error('[Parse API] No LLM backend configured');
+      return NextResponse.json({ error: 'Server configuration error: no LLM backend configured' }, { status: 500 });
+    }
+
+    const model = resolveModel(llm, requestedModel);
+
     // Limit input size to prevent abuse (500KB max)
-    if (text.length > 500000) {
+    if (text.length > MAX_TEXT_LENGTH) {
       console.log('[Parse API] Text too long:', text.length);
       return NextResponse.json({ error: 'Text is too long. Maximum 500,000 characters.' }, { status: 400 });
     }
 
     console.log('[Parse API] Text length:', text.length);
 
-    // Chunk text if too long
+    // Chunk text if too long. The same text always gives the same chunks,
+    // which is what lets a retry name them by index.
     const chunks = chunkText(text, MAX_CHUNK_SIZE);
     console.log('[Parse API] Split into', chunks.length, 'chunks');
 
-    const allSongs: ParsedSong[] = [];
-
-    for (let i = 0; i < chunks.length; i++) {
-      console.log(`[Parse API] Processing chunk ${i + 1}/${chunks.length}`);
-      const songs = await parseChunkWithGemini(chunks[i]);
-      console.log(`[Parse API] Chunk ${i + 1} found ${songs.length} songs`);
-      allSongs.push(...songs);
+    let indexes = chunks.map((_, i) => i);
+    if (requestedChunks !== undefined) {
+      if (
+        !Array.isArray(requestedChunks) ||
+        !requestedChunks.every((i) => Number.isInteger(i) && i >= 0 && i < chunks.length)
+      ) {
+        return NextResponse.json({ error: 'Invalid chunks' }, { status: 400 });
+      }
+      indexes = Array.from(new Set<number>(requestedChunks)).sort((a, b) => a - b);
     }
 
-    // Deduplicate songs
-    const uniqueSongs = deduplicateSongs(allSongs);
-    console.log('[Parse API] Total unique songs:', uniqueSongs.length);
-
-    return NextResponse.json({
-      songs: uniqueSongs,
-      totalFound: uniqueSongs.length,
-      chunksProcessed: chunks.length,
-    });
+    return streamEvents(parseChunks(llm, chunks, indexes, model));
   } catch (error: any) {
+    if (error instanceof LlmModelNotAllowedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('[Parse API] Error:', error);
     console.error('[Parse API] Stack:', error.stack);
     return NextResponse.json({
@@ -65,6 +129,101 @@ export async function POST(request: Request) {
   }
 }
 
+// One event per pull, so nothing is parsed ahead of a slow reader and a
+// closed connection stops the remaining chunks
+function streamEvents(events: Iterator<ParseEvent> | AsyncIterator<ParseEvent>): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const next = await events.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(encodeParseEvent(next.value)));
+      }
+    },
+    async cancel() {
+      await events.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': PARSE_STREAM_CONTENT_TYPE, 'Cache-Control': 'no-store' },
+  });
+}
+
+async function* parseChunks(
+  llm: LlmClient,
+  chunks: string[],
+  indexes: number[],
+  model?: string
+): AsyncGenerator<ParseEvent> {
+  const failed: number[] = [];
+  const truncated: number[] = [];
+
+  try {
+    yield { type: 'start', chunks: chunks.length };
+
+    for (const i of indexes) {
+      console.log(`[Parse API] Processing chunk ${i + 1}/${chunks.length}`);
+
+      try {
+        const result = await parseChunk(llm, chunks[i], model);
+        console.log(`[Parse API] Chunk ${i + 1} found ${result.songs.length} songs`);
+
+        if (result.truncated) {
+          truncated.push(i);
+          yield {
+            type: 'chunk',
+            index: i,
+            status: 'truncated',
+            songs: result.songs,
+            error: "Part of this chunk was cut off at the model's output limit",
+          };
+        } else {
+          yield { type: 'chunk', index: i, status: 'ok', songs: result.songs };
+        }
+      } catch (error: any) {
+        console.error(`[Parse API] Chunk ${i + 1} failed:`, error.message);
+        failed.push(i);
+        yield { type: 'chunk', index: i, status: 'failed', songs: [], error: error.message || 'Failed to parse chunk' };
+      }
+    }
+
+    yield { type: 'done', failed, truncated };
+  } catch (error: any) {
+    console.error('[Parse API] Stream error:', error);
+    yield { type: 'error', error: error.message || 'Failed to parse text' };
+  }
+}
+
+/**
+ * Parse one chunk. An answer cut off at the output limit is retried as two
+ * halves, down to single lines; `truncated` means some part still didn't fit.
+ */
+async function parseChunk(
+  llm: LlmClient,
+  text: string,
+  model?: string
+): Promise<{ songs: ParsedSong[]; truncated: boolean }> {
+  try {
+    return { songs: await parseChunkWithLlm(llm, text, model), truncated: false };
+  } catch (error) {
+    if (!(error instanceof LlmTruncatedError)) throw error;
+
+    const lines = text.split('\n').filter((line) => line.trim());
+    if (lines.length < 2) return { songs: [], truncated: true };
+
+    console.log('[Parse API] Answer cut off, splitting chunk of', lines.length, 'lines');
+    const half = Math.ceil(lines.length / 2);
+    const first = await parseChunk(llm, lines.slice(0, half).join('\n'), model);
+    const second = await parseChunk(llm, lines.slice(half).join('\n'), model);
+
+    return { songs: [...first.songs, ...second.songs], truncated: first.truncated || second.truncated };
+  }
+}
+
 function chunkText(text: string, maxSize: number): string[] {
   if (text.length <= maxSize) {
     return [text];
@@ -99,7 +258,7 @@ function chunkText(text: string, maxSize: number): string[] {
   return chunks;
 }
 
-async function parseChunkWithGemini(text: string): Promise<ParsedSong[]> {
+async function parseChunkWithLlm(llm: LlmClient, text: string, model?: string): Promise<ParsedSong[]> {
   const prompt = `You are a music playlist parser. Extract ALL song titles and artists from the following text.
 
 The text may contain:
@@ -126,60 +285,14 @@ Respond ONLY with valid JSON array:
 
 If no songs found, return: []`;
 
-  try {
-    console.log('[Parse Gemini] Calling API with text length:', text.length);
-    const response = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 2000,
-        }
-      })
-    });
-
-    console.log('[Parse Gemini] Response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[Parse Gemini] Error response:', errorText);
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const text_response = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-    console.log('[Parse Gemini] Response:', text_response.substring(0, 200));
-
-    // Extract JSON from response
-    const jsonMatch = text_response.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.warn('[Parse Gemini] No JSON found in response');
-      return [];
-    }
-
-    const songs: ParsedSong[] = JSON.parse(jsonMatch[0]);
-    console.log('[Parse Gemini] Parsed', songs.length, 'songs');
-    return songs.filter(s => s.title && s.artist);
-  } catch (error: any) {
-    console.error('[Parse Gemini] Error:', error.message);
-    console.error('[Parse Gemini] Stack:', error.stack);
-    return [];
-  }
-}
-
-function deduplicateSongs(songs: ParsedSong[]): ParsedSong[] {
-  const seen = new Set<string>();
-  const unique: ParsedSong[] = [];
-
-  for (const song of songs) {
-    const key = `${song.title.toLowerCase().trim()}::${song.artist.toLowerCase().trim()}`;
-    if (!seen.has(key)) {
-      seen.add(key);
-      unique.push(song);
-    }
-  }
+  // Errors reach the caller, which reports the chunk as failed
+  console.log(`[Parse LLM] Calling ${llm.backend} with text length:`, text.length);
+  const songs = await generateJson<ParsedSong[]>(
+    llm,
+    { prompt, model, temperature: 0.1, maxOutputTokens: MAX_OUTPUT_TOKENS },
+    SONGS_SCHEMA
+  );
 
-  return unique;
+  console.log('[Parse LLM] Parsed', songs.length, 'songs');
+  return songs.filter(s => s.title && s.artist);
 }
@@ -0,0 +1,87 @@
+/**
+ * Playlist URL Import API
+ *
+ * Resolves a public playlist link from any supported platform with the
+ * app's own credentials, so the source account doesn't need connecting.
+ * The tracks go on to the sync preview for matching like any other source,
+ * so the platform they're matched on must be connected, and both platforms
+ * and the monthly track limit are checked like a sync.
+ *
+ * Usage:
+ *   POST /api/import/url { url: "https://open.spotify.com/playlist/...", targetPlatform: "youtube" }
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { parsePlaylistUrl } from '@/lib/import';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    const { url, targetPlatform } = await request.json();
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json({ error: 'Missing playlist URL' }, { status: 400 });
+    }
+
+    if (!isPlatform(targetPlatform) || !isPlatformSupported(targetPlatform)) {
+      return NextResponse.json({ error: `Invalid platform: ${targetPlatform}` }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[targetPlatform]} not connected` }, { status: 401 });
+    }
+
+    const parsed = parsePlaylistUrl(url);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Not a Spotify, YouTube, Deezer, Tidal or Apple Music playlist link' },
+        { status: 400 }
+      );
+    }
+
+    const { platform, playlistId, region } = parsed;
+    if (!isPlatformSupported(platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} is not available` }, { status: 400 });
+    }
+
+    if (platform === targetPlatform) {
+      return NextResponse.json({ error: `That playlist is already on ${PLATFORM_NAMES[platform]}` }, { status: 400 });
+    }
+
+    // A user with no tracks left this month couldn't sync the result anyway
+    const denial =
+      checkEntitlement(session, { feature: 'platform', platform }) ||
+      checkEntitlement(session, { feature: 'platform', platform: targetPlatform }) ||
+      checkEntitlement(session, { feature: 'tracks', count: 1 });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    let playlist;
+    try {
+      playlist = await getProvider(platform).getPublicPlaylist(playlistId, region);
+    } catch (error: any) {
+      console.error(`[Import URL] Failed to load ${PLATFORM_NAMES[platform]} playlist ${playlistId}:`, error);
+      return NextResponse.json(
+        { error: `Couldn't load that ${PLATFORM_NAMES[platform]} playlist. Check that it's public.` },
+        { status: 404 }
+      );
+    }
+
+    const { tracks = [], ...details } = playlist;
+    console.log(`[Import URL] ${PLATFORM_NAMES[platform]} playlist ${playlistId}: ${tracks.length} tracks`);
+
+    return NextResponse.json({
+      playlist: { ...details, trackCount: tracks.length },
+      tracks,
+    });
+  } catch (error: any) {
+    console.error('[Import URL] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to import playlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Connected Platform Playlist Tracks API
+ *
+ * Every track of one playlist, or of the liked songs with
+ * `playlistId=liked`, on any connected platform.
+ *
+ * Usage:
+ *   GET /api/providers/playlist?platform=deezer&playlistId=<id>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { getPlaylistTracks } from '@/lib/sync/dedup';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const searchParams = request.nextUrl.searchParams;
+    const platform = searchParams.get('platform');
+    const playlistId = searchParams.get('playlistId');
+
+    if (!isPlatform(platform) || !isPlatformSupported(platform)) {
+      return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+    }
+
+    if (!playlistId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} not connected` }, { status: 401 });
+    }
+
+    if (playlistId === 'liked' && !getProvider(platform).capabilities.likedTracks.read) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[platform]} doesn't allow listing liked songs` },
+        { status: 400 }
+      );
+    }
+
+    const tracks = await getPlaylistTracks(session, platform, playlistId);
+    await session.save(); // Keep a refreshed token
+
+    return NextResponse.json({ tracks });
+  } catch (error: any) {
+    console.error('[Playlist Tracks] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to fetch playlist tracks' }, { status: 500 });
+  }
+}
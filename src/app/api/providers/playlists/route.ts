@@ -0,0 +1,46 @@
+/**
+ * Connected Platform Playlists API
+ *
+ * Lists the user's playlists on any connected platform, with "Liked Songs"
+ * first where the platform can list them.
+ *
+ * Usage:
+ *   GET /api/providers/playlists?platform=deezer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { getPlatformAccessToken, isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const platform = request.nextUrl.searchParams.get('platform');
+
+    if (!isPlatform(platform) || !isPlatformSupported(platform)) {
+      return NextResponse.json({ error: `Invalid platform: ${platform}` }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, platform)) {
+      return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} not connected` }, { status: 401 });
+    }
+
+    const provider = getProvider(platform);
+    const accessToken = await getPlatformAccessToken(session, platform);
+    await session.save();
+
+    const playlists = await provider.getUserPlaylists(accessToken);
+
+    return NextResponse.json({
+      playlists: [
+        ...(provider.capabilities.likedTracks.read ? [{ id: 'liked', name: 'Liked Songs', platform }] : []),
+        ...playlists.map(({ id, name, trackCount }) => ({ id, name, trackCount, platform })),
+      ],
+    });
+  } catch (error: any) {
+    console.error('[Playlists] Error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to fetch playlists' }, { status: 500 });
+  }
+}
@@ -100,10 +100,10 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * Get available platforms
+ * Get available platforms and what each one supports
  *
  * Usage:
- *   GET /api/providers/search?info=true
+ *   OPTIONS /api/providers/search
  */
 export async function OPTIONS() {
   const providers = getAllProviders();
@@ -113,6 +113,7 @@ export async function OPTIONS() {
       platform: p.platform,
       name: p.name,
       scopes: p.config.scopes,
+      capabilities: p.capabilities,
     })),
   });
 }
@@ -2,16 +2,23 @@ import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
 import { searchTrack as searchSpotify } from '@/lib/spotify/client';
 import { searchYTMusicSong as searchYouTube } from '@/lib/youtube/ytmusic-client';
-import { UnifiedTrack } from '@/lib/matching/types';
+import { UnifiedTrack, DEFAULT_MATCH_CONFIG } from '@/lib/matching/types';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { getPlatformAccessToken, isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
 
 export async function POST(request: Request) {
   try {
-    const { query, platform } = await request.json();
+    const { query, platform, limit: requestedLimit } = await request.json();
 
     if (!query || !platform) {
       return NextResponse.json({ error: 'Missing query or platform' }, { status: 400 });
     }
 
+    const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, 50)
+      : DEFAULT_MATCH_CONFIG.maxSearchResults;
+
     const session = await getSession();
 
     let results: UnifiedTrack[] = [];
@@ -20,10 +27,16 @@ export async function POST(request: Request) {
       if (!session.spotify) {
         return NextResponse.json({ error: 'Spotify not connected' }, { status: 401 });
       }
-      results = await searchSpotify(session, query);
+      results = await searchSpotify(session, query, limit);
     } else if (platform === 'youtube') {
       // YouTube search doesn't require auth (using ytmusic-api)
-      results = await searchYouTube(query);
+      results = await searchYouTube(query, limit);
+    } else if (isPlatform(platform) && isPlatformSupported(platform)) {
+      if (!isPlatformConnected(session, platform)) {
+        return NextResponse.json({ error: `${PLATFORM_NAMES[platform]} not connected` }, { status: 401 });
+      }
+      const accessToken = await getPlatformAccessToken(session, platform);
+      results = await getProvider(platform).searchTracks(query, { accessToken, limit });
     } else {
       return NextResponse.json({ error: 'Invalid platform' }, { status: 400 });
     }
@@ -30,8 +30,9 @@ export async function POST(request: NextRequest) {
       customerEmail: session.spotify.userId, // Use Spotify ID as email reference
       successUrl: `${appUrl}/billing?success=true`,
       cancelUrl: `${appUrl}/pricing?canceled=true`,
+      clientReferenceId: session.userId,
       metadata: {
-        userId: session.spotify.userId,
+        userId: session.userId,
       },
     });
 
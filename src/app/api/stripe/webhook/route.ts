@@ -1,12 +1,13 @@
 /**
  * Stripe Webhook Handler
  *
- * Handles subscription events from Stripe
+ * Verifies Stripe's signature and hands the event to processStripeEvent,
+ * which updates the stored subscription
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { stripe } from '@/lib/stripe/client';
 import Stripe from 'stripe';
+import { processStripeEvent } from '@/lib/stripe/webhooks';
 
 // This must be raw body for signature verification
 export const dynamic = 'force-dynamic';
@@ -29,7 +30,7 @@ export async function POST(request: NextRequest) {
   let event: Stripe.Event;
 
   try {
-    event = stripe.webhooks.constructEvent(body, signature, webhookSecret);
+    event = Stripe.webhooks.constructEvent(body, signature, webhookSecret);
   } catch (error: any) {
     console.error('[Stripe Webhook] Signature verification failed:', error.message);
     return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
@@ -38,42 +39,8 @@ export async function POST(request: NextRequest) {
   console.log('[Stripe Webhook] Received event:', event.type);
 
   try {
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object as Stripe.Checkout.Session;
-        await handleCheckoutCompleted(session);
-        break;
-      }
-
-      case 'customer.subscription.updated': {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionUpdated(subscription);
-        break;
-      }
-
-      case 'customer.subscription.deleted': {
-        const subscription = event.data.object as Stripe.Subscription;
-        await handleSubscriptionDeleted(subscription);
-        break;
-      }
-
-      case 'invoice.payment_succeeded': {
-        const invoice = event.data.object as Stripe.Invoice;
-        await handlePaymentSucceeded(invoice);
-        break;
-      }
-
-      case 'invoice.payment_failed': {
-        const invoice = event.data.object as Stripe.Invoice;
-        await handlePaymentFailed(invoice);
-        break;
-      }
-
-      default:
-        console.log('[Stripe Webhook] Unhandled event type:', event.type);
-    }
-
-    return NextResponse.json({ received: true });
+    const result = await processStripeEvent(event);
+    return NextResponse.json({ received: true, duplicate: result.duplicate });
   } catch (error: any) {
     console.error('[Stripe Webhook] Error processing event:', error);
     return NextResponse.json(
@@ -82,51 +49,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
-  console.log('[Stripe] Checkout completed:', {
-    customer: session.customer,
-    subscription: session.subscription,
-  });
-
-  // In a real app, you'd update your database here
-  // For now, we'll rely on session storage
-  // You could use Redis or a database to map stripeCustomerId -> userId
-}
-
-async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
-  console.log('[Stripe] Subscription updated:', {
-    id: subscription.id,
-    status: subscription.status,
-    customer: subscription.customer,
-  });
-
-  // Update subscription status in your database
-}
-
-async function handleSubscriptionDeleted(subscription: Stripe.Subscription) {
-  console.log('[Stripe] Subscription deleted:', {
-    id: subscription.id,
-    customer: subscription.customer,
-  });
-
-  // Downgrade user to free tier in your database
-}
-
-async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
-  console.log('[Stripe] Payment succeeded:', {
-    customer: invoice.customer,
-    amount: invoice.amount_paid,
-  });
-
-  // Optional: Send receipt email, update analytics, etc.
-}
-
-async function handlePaymentFailed(invoice: Stripe.Invoice) {
-  console.log('[Stripe] Payment failed:', {
-    customer: invoice.customer,
-    attempt: invoice.attempt_count,
-  });
-
-  // Optional: Send payment failure notification
-}
@@ -1,8 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
 import { MatchResult } from '@/lib/matching/types';
-import { addToLiked, addToPlaylist, createPlaylist as createSpotifyPlaylist } from '@/lib/spotify/client';
-import { addVideosToPlaylist, createPlaylist as createYouTubePlaylist } from '@/lib/youtube/client';
+import { applyChosenAlternative } from '@/lib/matching/matcher';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { getPlatformAccessToken, isPlatformConnected } from '@/lib/sync/connections';
+import {
+  checkEntitlement,
+  entitlementErrorResponse,
+  recordTracksTransferred,
+} from '@/lib/entitlements';
+import {
+  resolveSyncPlatforms,
+  toProviderTrackId,
+  PLATFORM_NAMES,
+  LIKED_TRACKS_URLS,
+} from '@/lib/sync/platforms';
+import {
+  isInsertMode,
+  mergeAtSourcePositions,
+  sortBySourcePosition,
+  InsertMode,
+} from '@/lib/sync/ordering';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,34 +29,54 @@ export async function POST(request: NextRequest) {
 
     const {
       matchResults,
-      direction,
       targetPlaylistId,
       targetPlaylistName,
       createNew,
       syncMode,
+      insertMode = 'append',
     }: {
       matchResults: MatchResult[];
-      direction: 'spotify_to_youtube' | 'youtube_to_spotify';
       targetPlaylistId?: string;
       targetPlaylistName?: string;
       createNew: boolean;
       syncMode?: 'playlist' | 'liked';
+      insertMode?: InsertMode; // Only used when adding to an existing playlist
     } = body;
 
-    if (!matchResults || !direction) {
+    const platforms = resolveSyncPlatforms(body);
+
+    if (!matchResults || !platforms) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
+    if (!isInsertMode(insertMode)) {
+      return NextResponse.json({ error: `Invalid insert mode: ${insertMode}` }, { status: 400 });
+    }
+
+    const { sourcePlatform, targetPlatform } = platforms;
+    const targetName = PLATFORM_NAMES[targetPlatform];
+
+    if (!isPlatformSupported(targetPlatform)) {
+      return NextResponse.json({ error: `${targetName} is not available` }, { status: 400 });
+    }
+
     // Validate authentication
-    if (direction === 'spotify_to_youtube' && !session.youtube) {
-      return NextResponse.json({ error: 'YouTube not connected' }, { status: 401 });
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json({ error: `${targetName} not connected` }, { status: 401 });
     }
-    if (direction === 'youtube_to_spotify' && !session.spotify) {
-      return NextResponse.json({ error: 'Spotify not connected' }, { status: 401 });
+
+    const provider = getProvider(targetPlatform);
+
+    if (syncMode === 'liked' && !provider.capabilities.likedTracks.write) {
+      return NextResponse.json(
+        { error: `${targetName} doesn't support adding to liked songs` },
+        { status: 400 }
+      );
     }
 
-    // Filter to confirmed tracks (matched or user-confirmed low confidence)
-    const confirmedMatches = matchResults.filter(
+    // Filter to confirmed tracks (matched, user-confirmed low confidence or an
+    // alternative the user swapped to), in source order
+    const confirmedMatches = sortBySourcePosition(matchResults.map(applyChosenAlternative)).filter(
       (r) => r.target && (r.status === 'matched' || r.status === 'low_confidence')
     );
 
@@ -46,76 +84,95 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No tracks to sync' }, { status: 400 });
     }
 
+    // Check plan limits before touching the target platform
+    const denial =
+      checkEntitlement(session, { feature: 'platform', platform: sourcePlatform }) ||
+      checkEntitlement(session, { feature: 'platform', platform: targetPlatform }) ||
+      checkEntitlement(session, { feature: 'tracks', count: confirmedMatches.length });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    const accessToken = await getPlatformAccessToken(session, targetPlatform);
+
     let playlistId = targetPlaylistId;
     let playlistUrl = '';
+    const existingPlaylist = syncMode !== 'liked' && !createNew;
 
     // Create new playlist if requested
-    if (createNew && targetPlaylistName) {
-      if (direction === 'youtube_to_spotify') {
-        const playlist = await createSpotifyPlaylist(
-          session,
-          targetPlaylistName,
-          `Synced from YouTube Music on ${new Date().toLocaleDateString()}`
-        );
-        playlistId = playlist.id;
-        playlistUrl = playlist.url;
-      } else {
-        const playlist = await createYouTubePlaylist(
-          session,
-          targetPlaylistName,
-          `Synced from Spotify on ${new Date().toLocaleDateString()}`
-        );
-        playlistId = playlist.id;
-        playlistUrl = playlist.url;
-      }
+    if (createNew && targetPlaylistName && syncMode !== 'liked') {
+      const playlist = await provider.createPlaylist(
+        accessToken,
+        targetPlaylistName,
+        `Synced from ${PLATFORM_NAMES[sourcePlatform]} on ${new Date().toLocaleDateString()}`
+      );
+      playlistId = playlist.id;
+      playlistUrl = playlist.externalUrl || '';
+    }
+
+    const trackIds = confirmedMatches.map((r) =>
+      toProviderTrackId(targetPlatform, r.target!.videoId || r.target!.id)
+    );
+
+    if (syncMode !== 'liked' && !playlistId) {
+      return NextResponse.json({ error: 'No playlist ID provided' }, { status: 400 });
     }
 
     let added = 0;
     let failed = 0;
+    let appliedInsertMode: InsertMode = 'append';
 
     // Execute sync
-    if (direction === 'youtube_to_spotify') {
-      const trackUris = confirmedMatches.map((r) => r.target!.id);
-
-      try {
-        if (syncMode === 'liked') {
-          // Add to Liked Songs
-          await addToLiked(session, trackUris);
-          playlistUrl = 'https://open.spotify.com/collection/tracks';
-        } else if (playlistId) {
-          // Add to specific playlist
-          await addToPlaylist(session, playlistId, trackUris);
-          playlistUrl = playlistUrl || `https://open.spotify.com/playlist/${playlistId}`;
-        } else {
-          throw new Error('No playlist ID provided');
-        }
-        added = trackUris.length;
-      } catch (error) {
-        console.error('Failed to add to Spotify:', error);
-        failed = trackUris.length;
-      }
-    } else {
-      // Spotify to YouTube (always requires a playlist)
-      const videoIds = confirmedMatches.map((r) => r.target!.videoId || r.target!.id);
+    try {
+      if (syncMode === 'liked') {
+        await provider.addToLikedTracks(accessToken, trackIds);
+        added = trackIds.length;
+        playlistUrl = LIKED_TRACKS_URLS[targetPlatform];
+      } else {
+        // Read the target first so the new tracks can be placed among its
+        // existing ones afterwards, unavailable items included
+        const existingIds =
+          existingPlaylist && insertMode === 'match_positions' && provider.supportsOperation('reorder')
+            ? await provider.getPlaylistOrder(accessToken, playlistId!)
+            : null;
 
-      if (!playlistId) {
-        return NextResponse.json({ error: 'Target playlist required for YouTube sync' }, { status: 400 });
-      }
+        await provider.addTracksToPlaylist(accessToken, playlistId!, trackIds);
+        added = trackIds.length;
 
-      try {
-        await addVideosToPlaylist(session, playlistId, videoIds);
-        added = videoIds.length;
-      } catch (error) {
-        console.error('Failed to add to YouTube:', error);
-        failed = videoIds.length;
+        // The tracks are in either way; a failed reorder leaves them appended
+        if (existingIds) {
+          const order = mergeAtSourcePositions(
+            existingIds,
+            trackIds.map((id, i) => ({
+              id,
+              position: confirmedMatches[i].sourcePosition ?? Infinity,
+            }))
+          );
+
+          try {
+            await provider.reorderPlaylist(accessToken, playlistId!, order);
+            appliedInsertMode = 'match_positions';
+          } catch (error) {
+            console.error(`Failed to reorder ${targetName} playlist:`, error);
+          }
+        }
       }
+    } catch (error) {
+      console.error(`Failed to add to ${targetName}:`, error);
+      failed = trackIds.length - added;
     }
 
+    // Persist usage and any refreshed tokens
+    recordTracksTransferred(session, added);
+    await session.save();
+
     return NextResponse.json({
       success: true,
       added,
       failed,
+      playlistId,
       playlistUrl,
+      insertMode: appliedInsertMode,
       totalTracks: confirmedMatches.length,
     });
   } catch (error: any) {
@@ -0,0 +1,52 @@
+/**
+ * Sync Job Review API
+ *
+ * Resolves tracks a job couldn't add on its own. `add` adds the
+ * low-confidence candidate to the target; `skip` stops retrying the track.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import { addPendingTrack, skipPendingTrack } from '@/lib/sync/jobs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession();
+    const storage = getStorage();
+    const job = await storage.getSyncJob(id);
+
+    if (!job || job.userId !== session.userId) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    const { sourceId, action } = await request.json();
+    const item = job.pendingTracks.find((p) => p.sourceId === sourceId);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Pending track not found' }, { status: 404 });
+    }
+
+    if (action === 'add') {
+      if (!item.candidateId) {
+        return NextResponse.json({ error: 'No candidate to add for this track' }, { status: 400 });
+      }
+      await storage.updateSyncJob(job.id, await addPendingTrack(job, item));
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'skip') {
+      return NextResponse.json({ error: `Unsupported action: ${action}` }, { status: 400 });
+    }
+
+    await storage.updateSyncJob(job.id, skipPendingTrack(job, item));
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Sync Jobs] Review error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to resolve pending track' }, { status: 500 });
+  }
+}
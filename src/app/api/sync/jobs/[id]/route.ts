@@ -0,0 +1,82 @@
+/**
+ * Scheduled Sync Job API
+ *
+ * PATCH pauses/resumes a job or changes its schedule; DELETE removes it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import type { NewSyncJob } from '@/lib/storage';
+import { getNextRunAt, isSyncJobSchedule, parseMatchConfig } from '@/lib/sync/jobs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function findOwnJob(id: string) {
+  const session = await getSession();
+  const job = await getStorage().getSyncJob(id);
+  return job && job.userId === session.userId ? job : null;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await findOwnJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    const { status, schedule, matchConfig } = await request.json();
+    const changes: Partial<NewSyncJob> = {};
+
+    if (schedule !== undefined) {
+      if (!isSyncJobSchedule(schedule)) {
+        return NextResponse.json({ error: `Invalid schedule: ${schedule}` }, { status: 400 });
+      }
+      changes.schedule = schedule;
+      changes.nextRunAt = getNextRunAt(schedule, job.lastRunAt ?? Date.now());
+    }
+
+    if (status !== undefined) {
+      if (status !== 'active' && status !== 'paused') {
+        return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+      }
+      changes.status = status;
+
+      // A resumed job that missed runs while paused catches up on the next tick
+      if (status === 'active' && job.status === 'paused') {
+        changes.nextRunAt = Math.min(changes.nextRunAt ?? job.nextRunAt, Date.now());
+      }
+    }
+
+    if (matchConfig !== undefined) {
+      changes.matchConfig = parseMatchConfig(matchConfig);
+    }
+
+    await getStorage().updateSyncJob(job.id, changes);
+
+    return NextResponse.json({ job: { ...job, ...changes } });
+  } catch (error: any) {
+    console.error('[Sync Jobs] Update error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to update sync job' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const job = await findOwnJob(id);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Sync job not found' }, { status: 404 });
+    }
+
+    await getStorage().deleteSyncJob(job.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Sync Jobs] Delete error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to delete sync job' }, { status: 500 });
+  }
+}
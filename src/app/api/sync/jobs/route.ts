@@ -0,0 +1,104 @@
+/**
+ * Scheduled Sync Jobs API
+ *
+ * GET lists the user's jobs; POST creates a job that keeps a target playlist
+ * topped up with new tracks from a source playlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { resolveSyncPlatforms, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { isSyncJobSchedule, parseMatchConfig } from '@/lib/sync/jobs';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    const jobs = await getStorage().listSyncJobs(session.userId);
+
+    return NextResponse.json({ jobs });
+  } catch (error: any) {
+    console.error('[Sync Jobs] List error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to list sync jobs' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const body = await request.json();
+
+    const {
+      sourcePlaylistId,
+      sourcePlaylistName,
+      targetPlaylistId,
+      targetPlaylistName,
+      schedule = 'daily',
+    } = body;
+
+    const platforms = resolveSyncPlatforms(body);
+
+    if (!platforms || !sourcePlaylistId || !targetPlaylistId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!isSyncJobSchedule(schedule)) {
+      return NextResponse.json({ error: `Invalid schedule: ${schedule}` }, { status: 400 });
+    }
+
+    for (const platform of [platforms.sourcePlatform, platforms.targetPlatform]) {
+      if (!isPlatformSupported(platform)) {
+        return NextResponse.json(
+          { error: `${PLATFORM_NAMES[platform]} is not available` },
+          { status: 400 }
+        );
+      }
+
+      if (!isPlatformConnected(session, platform)) {
+        return NextResponse.json(
+          { error: `${PLATFORM_NAMES[platform]} not connected` },
+          { status: 401 }
+        );
+      }
+
+      const denial = checkEntitlement(session, { feature: 'platform', platform });
+      if (denial) {
+        return entitlementErrorResponse(denial);
+      }
+    }
+
+    if (
+      targetPlaylistId === 'liked' &&
+      !getProvider(platforms.targetPlatform).capabilities.likedTracks.write
+    ) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[platforms.targetPlatform]} doesn't support adding to liked songs` },
+        { status: 400 }
+      );
+    }
+
+    // First run happens on the next scheduler tick
+    const job = await getStorage().createSyncJob({
+      userId: session.userId,
+      ...platforms,
+      sourcePlaylistId: String(sourcePlaylistId),
+      sourcePlaylistName,
+      targetPlaylistId: String(targetPlaylistId),
+      targetPlaylistName,
+      schedule,
+      matchConfig: parseMatchConfig(body.matchConfig),
+      status: 'active',
+      processedSourceIds: [],
+      pendingTracks: [],
+      nextRunAt: Date.now(),
+    });
+
+    return NextResponse.json({ job }, { status: 201 });
+  } catch (error: any) {
+    console.error('[Sync Jobs] Create error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to create sync job' }, { status: 500 });
+  }
+}
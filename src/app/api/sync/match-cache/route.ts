@@ -0,0 +1,111 @@
+/**
+ * Match Cache API
+ *
+ * POST looks up a known match for a source track; PUT records the target a
+ * user picked or confirmed in the preview; DELETE records that they rejected
+ * it. All take `{ sourceTrack, targetPlatform }` plus the target. PUT and
+ * DELETE only change the caller's own entries, and also store the correction
+ * for calibrating the match config.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getProvider } from '@/lib/providers';
+import { getPlatformAccessToken, isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { findCachedMatch, forgetMatch, recordMatch } from '@/lib/sync/match-cache';
+import { recordCorrection } from '@/lib/sync/corrections';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const { sourceTrack, targetPlatform } = await request.json();
+
+    if (!sourceTrack || !isPlatform(targetPlatform)) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const match = await findCachedMatch(sourceTrack, targetPlatform, session.userId);
+
+    return NextResponse.json({ match });
+  } catch (error: any) {
+    console.error('[Match Cache] Lookup error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to look up match' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const { sourceTrack, targetPlatform, target, confidence, rejected } = await request.json();
+
+    if (
+      !sourceTrack ||
+      typeof target?.id !== 'string' ||
+      !isPlatform(targetPlatform) ||
+      target.platform !== targetPlatform
+    ) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    // Only users syncing to the platform can vouch for its tracks
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[targetPlatform]} not connected` },
+        { status: 401 }
+      );
+    }
+
+    // Store the platform's own copy of the track, not what the client sent
+    const accessToken = await getPlatformAccessToken(session, targetPlatform);
+    const track = await getProvider(targetPlatform).getTrack(accessToken, target.id);
+    await session.save(); // Keep a refreshed token
+
+    if (!track) {
+      return NextResponse.json(
+        { error: `Track not found on ${PLATFORM_NAMES[targetPlatform]}` },
+        { status: 404 }
+      );
+    }
+
+    await recordMatch(sourceTrack, track, typeof confidence === 'number' ? confidence : 0.99, session.userId);
+    // `rejected` lists the candidates the user passed over, if any
+    await recordCorrection(
+      sourceTrack,
+      targetPlatform,
+      track,
+      Array.isArray(rejected) ? rejected.filter((track) => track?.platform === targetPlatform) : []
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Match Cache] Confirm error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to save match' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const { sourceTrack, targetPlatform, target } = await request.json();
+
+    if (!sourceTrack || !target?.id || !isPlatform(targetPlatform) || target.platform !== targetPlatform) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[targetPlatform]} not connected` },
+        { status: 401 }
+      );
+    }
+
+    await forgetMatch(sourceTrack, target, session.userId);
+    await recordCorrection(sourceTrack, targetPlatform, null, [target]);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Match Cache] Reject error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to forget match' }, { status: 500 });
+  }
+}
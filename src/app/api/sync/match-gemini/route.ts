@@ -1,55 +1,82 @@
 import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
-import { searchTrack as searchSpotify } from '@/lib/spotify/client';
-import { searchYTMusicSong as searchYouTube } from '@/lib/youtube/ytmusic-client';
+import { getExistingTrackIds } from '@/lib/sync/dedup';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { getPlatformSearch } from '@/lib/sync/search';
+import { resolveSyncPlatforms, PLATFORM_NAMES } from '@/lib/sync/platforms';
 import { batchMatchWithGemini, matchWithGemini } from '@/lib/gemini/client';
-import { UnifiedTrack } from '@/lib/matching/types';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+import { getLlmClient, LlmModelNotAllowedError, resolveModel } from '@/lib/llm';
 
 export async function POST(request: Request) {
   try {
+    const session = await getSession();
     const body = await request.json();
 
+    const denial = checkEntitlement(session, { feature: 'aiMatching' });
+    if (denial) {
+      return entitlementErrorResponse(denial);
+    }
+
+    const llm = getLlmClient();
+    if (!llm) {
+      return NextResponse.json({ error: 'AI matching is not configured' }, { status: 503 });
+    }
+
+    // Optional per-request model, limited to LLM_ALLOWED_MODELS
+    const model = resolveModel(llm, body.model);
+
     // Handle single track matching (for client-side hook)
     if (body.sourceTrack && body.candidates) {
       const { sourceTrack, candidates } = body;
-      const result = await matchWithGemini(sourceTrack, candidates);
+      const result = await matchWithGemini(sourceTrack, candidates, undefined, model);
       return NextResponse.json({
         match: result.match,
         confidence: result.confidence,
+        breakdown: result.breakdown,
+        alternatives: result.alternatives,
       });
     }
 
     // Handle batch matching (existing functionality)
-    const { sourceTracks, direction, targetPlaylistId } = body;
+    const { sourceTracks, targetPlaylistId } = body;
+    const platforms = resolveSyncPlatforms(body);
 
-    if (!sourceTracks || !direction) {
+    if (!sourceTracks || !platforms) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    const session = await getSession();
-    const targetPlatform = direction === 'spotify_to_youtube' ? 'youtube' : 'spotify';
+    const { targetPlatform } = platforms;
+
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[targetPlatform]} not connected` },
+        { status: 401 }
+      );
+    }
 
     // Create search function for target platform
-    const searchFn = async (query: string): Promise<UnifiedTrack[]> => {
-      if (targetPlatform === 'spotify') {
-        if (!session.spotify) {
-          throw new Error('Spotify not connected');
-        }
-        return await searchSpotify(session, query);
-      } else {
-        return await searchYouTube(query);
-      }
-    };
+    const search = await getPlatformSearch(session, targetPlatform, { userId: session.userId });
 
     // Get existing tracks if syncing to existing playlist
-    const existingIds = new Set<string>();
-    // TODO: Implement fetching existing playlist tracks if targetPlaylistId is provided
+    const existingIds = targetPlaylistId
+      ? await getExistingTrackIds(session, targetPlatform, targetPlaylistId)
+      : new Set<string>();
+    await session.save();
 
-    // Use Gemini AI for matching
-    console.log('[Match API] Starting Gemini AI matching for', sourceTracks.length, 'tracks');
-    const results = await batchMatchWithGemini(sourceTracks, searchFn, existingIds);
+    // Use the LLM for matching
+    console.log(`[Match API] Starting AI matching (${llm.backend}) for`, sourceTracks.length, 'tracks');
+    const results = await batchMatchWithGemini(
+      sourceTracks,
+      search.searchFn,
+      existingIds,
+      undefined,
+      undefined,
+      search,
+      model
+    );
 
-    console.log('[Match API] Gemini matching complete:', {
+    console.log('[Match API] AI matching complete:', {
       matched: results.filter(r => r.status === 'matched').length,
       lowConfidence: results.filter(r => r.status === 'low_confidence').length,
       notFound: results.filter(r => r.status === 'not_found').length,
@@ -57,6 +84,10 @@ export async function POST(request: Request) {
 
     return NextResponse.json({ results });
   } catch (error: any) {
+    if (error instanceof LlmModelNotAllowedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('[Match API] Error:', error);
     return NextResponse.json({
       error: error.message || 'Matching failed',
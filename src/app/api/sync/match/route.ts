@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/session';
 import { matchTracks, deduplicateResults } from '@/lib/matching/matcher';
-import { UnifiedTrack } from '@/lib/matching/types';
-import { searchTrack } from '@/lib/spotify/client';
-import { searchYouTube } from '@/lib/youtube/client';
+import { UnifiedTrack, DEFAULT_MATCH_CONFIG } from '@/lib/matching/types';
+import { isPlatformSupported } from '@/lib/providers';
 import { getExistingTrackIds } from '@/lib/sync/dedup';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { getPlatformSearch } from '@/lib/sync/search';
+import { resolveSyncPlatforms, PLATFORM_NAMES } from '@/lib/sync/platforms';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,41 +15,53 @@ export async function POST(request: NextRequest) {
 
     const {
       sourceTracks,
-      direction,
       targetPlaylistId,
     }: {
       sourceTracks: UnifiedTrack[];
-      direction: 'spotify_to_youtube' | 'youtube_to_spotify';
       targetPlaylistId?: string;
     } = body;
 
-    if (!sourceTracks || !direction) {
+    const platforms = resolveSyncPlatforms(body);
+
+    if (!sourceTracks || !platforms) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    // Validate authentication
-    if (direction === 'spotify_to_youtube' && !session.youtube) {
-      return NextResponse.json({ error: 'YouTube not connected' }, { status: 401 });
+    const { targetPlatform } = platforms;
+
+    if (!isPlatformSupported(targetPlatform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[targetPlatform]} is not available` },
+        { status: 400 }
+      );
     }
-    if (direction === 'youtube_to_spotify' && !session.spotify) {
-      return NextResponse.json({ error: 'Spotify not connected' }, { status: 401 });
+
+    // Validate authentication
+    if (!isPlatformConnected(session, targetPlatform)) {
+      return NextResponse.json(
+        { error: `${PLATFORM_NAMES[targetPlatform]} not connected` },
+        { status: 401 }
+      );
     }
 
-    // Determine search function based on direction
-    const searchFn = async (query: string) => {
-      if (direction === 'spotify_to_youtube') {
-        return searchYouTube(session, query);
-      } else {
-        return searchTrack(session, query);
-      }
-    };
+    // Search the target platform through its provider
+    const search = await getPlatformSearch(session, targetPlatform, { userId: session.userId });
 
     // Get existing tracks in target playlist for dedup
-    const targetPlatform = direction === 'spotify_to_youtube' ? 'youtube' : 'spotify';
     const existingIds = await getExistingTrackIds(session, targetPlatform, targetPlaylistId || null);
 
+    // Persist any tokens refreshed while looking up existing tracks
+    await session.save();
+
     // Match tracks
-    const results = await matchTracks(sourceTracks, searchFn, existingIds);
+    const results = await matchTracks(
+      sourceTracks,
+      search.searchFn,
+      existingIds,
+      DEFAULT_MATCH_CONFIG,
+      undefined,
+      search
+    );
 
     // Deduplicate within batch
     const dedupedResults = deduplicateResults(results);
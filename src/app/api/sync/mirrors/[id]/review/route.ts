@@ -0,0 +1,58 @@
+/**
+ * Mirror Review API
+ *
+ * Resolves removals a mirror queued for manual review. `apply` removes the
+ * track from the other side too; `keep` dismisses the removal and leaves it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import { UnsupportedOperationError } from '@/lib/providers';
+import { applyMirrorRemoval } from '@/lib/sync/mirror';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const session = await getSession();
+    const storage = getStorage();
+    const mirror = await storage.getMirror(id);
+
+    if (!mirror || mirror.userId !== session.userId) {
+      return NextResponse.json({ error: 'Mirror not found' }, { status: 404 });
+    }
+
+    const { itemId, action } = await request.json();
+    const item = mirror.pendingReview.find((i) => i.id === itemId);
+
+    if (!item) {
+      return NextResponse.json({ error: 'Review item not found' }, { status: 404 });
+    }
+
+    if (action === 'apply') {
+      await storage.updateMirror(mirror.id, await applyMirrorRemoval(mirror, item));
+      return NextResponse.json({ success: true });
+    }
+
+    if (action !== 'keep') {
+      return NextResponse.json({ error: `Unsupported action: ${action}` }, { status: 400 });
+    }
+
+    // The track stays on the other side; forget the pair so it isn't revisited
+    await storage.updateMirror(mirror.id, {
+      pendingReview: mirror.pendingReview.filter((i) => i.id !== item.id),
+      pairs: mirror.pairs.filter((pair) => pair[item.removedFrom] !== item.trackId),
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    if (error instanceof UnsupportedOperationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('[Mirrors] Review error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to resolve review item' }, { status: 500 });
+  }
+}
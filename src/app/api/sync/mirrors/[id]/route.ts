@@ -0,0 +1,90 @@
+/**
+ * Playlist Mirror API
+ *
+ * PATCH changes a mirror's status, schedule or conflict rules; DELETE unlinks
+ * the playlists (their tracks are left as they are)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import type { NewMirror } from '@/lib/storage';
+import { getNextRunAt, isSyncJobSchedule } from '@/lib/sync/jobs';
+import { isMirrorConflictPolicy } from '@/lib/sync/mirror';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function findOwnMirror(id: string) {
+  const session = await getSession();
+  const mirror = await getStorage().getMirror(id);
+  return mirror && mirror.userId === session.userId ? mirror : null;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const mirror = await findOwnMirror(id);
+
+    if (!mirror) {
+      return NextResponse.json({ error: 'Mirror not found' }, { status: 404 });
+    }
+
+    const { status, schedule, conflictPolicy, propagateRemovals } = await request.json();
+    const changes: Partial<NewMirror> = {};
+
+    if (schedule !== undefined) {
+      if (!isSyncJobSchedule(schedule)) {
+        return NextResponse.json({ error: `Invalid schedule: ${schedule}` }, { status: 400 });
+      }
+      changes.schedule = schedule;
+      changes.nextRunAt = getNextRunAt(schedule, mirror.lastRunAt ?? Date.now());
+    }
+
+    if (status !== undefined) {
+      if (status !== 'active' && status !== 'paused') {
+        return NextResponse.json({ error: `Invalid status: ${status}` }, { status: 400 });
+      }
+      changes.status = status;
+
+      if (status === 'active' && mirror.status === 'paused') {
+        changes.nextRunAt = Math.min(changes.nextRunAt ?? mirror.nextRunAt, Date.now());
+      }
+    }
+
+    if (conflictPolicy !== undefined) {
+      if (!isMirrorConflictPolicy(conflictPolicy)) {
+        return NextResponse.json({ error: `Invalid conflict policy: ${conflictPolicy}` }, { status: 400 });
+      }
+      changes.conflictPolicy = conflictPolicy;
+    }
+
+    if (propagateRemovals !== undefined) {
+      changes.propagateRemovals = Boolean(propagateRemovals);
+    }
+
+    await getStorage().updateMirror(mirror.id, changes);
+
+    return NextResponse.json({ mirror: { ...mirror, ...changes } });
+  } catch (error: any) {
+    console.error('[Mirrors] Update error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to update mirror' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const mirror = await findOwnMirror(id);
+
+    if (!mirror) {
+      return NextResponse.json({ error: 'Mirror not found' }, { status: 404 });
+    }
+
+    await getStorage().deleteMirror(mirror.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[Mirrors] Delete error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to delete mirror' }, { status: 500 });
+  }
+}
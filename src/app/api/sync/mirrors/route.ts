@@ -0,0 +1,125 @@
+/**
+ * Playlist Mirrors API
+ *
+ * GET lists the user's mirrors; POST links two playlists so changes on either
+ * side are mirrored to the other
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/session';
+import { getStorage } from '@/lib/storage';
+import type { MirrorSide } from '@/lib/storage';
+import { getProvider, isPlatformSupported } from '@/lib/providers';
+import { isPlatformConnected } from '@/lib/sync/connections';
+import { isPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
+import { isSyncJobSchedule } from '@/lib/sync/jobs';
+import { isMirrorConflictPolicy } from '@/lib/sync/mirror';
+import { checkEntitlement, entitlementErrorResponse } from '@/lib/entitlements';
+
+function parseSide(value: unknown): MirrorSide | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { platform, playlistId, playlistName } = value as Record<string, unknown>;
+  if (!isPlatform(platform) || !playlistId) return null;
+
+  return {
+    platform,
+    playlistId: String(playlistId),
+    playlistName: typeof playlistName === 'string' ? playlistName : undefined,
+  };
+}
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    const mirrors = await getStorage().listMirrors(session.userId);
+
+    return NextResponse.json({ mirrors });
+  } catch (error: any) {
+    console.error('[Mirrors] List error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to list mirrors' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    const body = await request.json();
+
+    const sideA = parseSide(body.sideA);
+    const sideB = parseSide(body.sideB);
+    const {
+      conflictPolicy = 'union',
+      propagateRemovals = false,
+      schedule = 'daily',
+    } = body;
+
+    if (!sideA || !sideB) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    if (sideA.platform === sideB.platform && sideA.playlistId === sideB.playlistId) {
+      return NextResponse.json({ error: 'A playlist cannot mirror itself' }, { status: 400 });
+    }
+
+    if (!isMirrorConflictPolicy(conflictPolicy)) {
+      return NextResponse.json({ error: `Invalid conflict policy: ${conflictPolicy}` }, { status: 400 });
+    }
+
+    if (!isSyncJobSchedule(schedule)) {
+      return NextResponse.json({ error: `Invalid schedule: ${schedule}` }, { status: 400 });
+    }
+
+    for (const { platform, playlistId } of [sideA, sideB]) {
+      if (!isPlatformSupported(platform)) {
+        return NextResponse.json(
+          { error: `${PLATFORM_NAMES[platform]} is not available` },
+          { status: 400 }
+        );
+      }
+
+      // Mirroring liked songs means both listing and adding to them
+      const { likedTracks } = getProvider(platform).capabilities;
+      if (playlistId === 'liked' && !(likedTracks.read && likedTracks.write)) {
+        return NextResponse.json(
+          { error: `${PLATFORM_NAMES[platform]} liked songs can't be mirrored` },
+          { status: 400 }
+        );
+      }
+
+      if (!isPlatformConnected(session, platform)) {
+        return NextResponse.json(
+          { error: `${PLATFORM_NAMES[platform]} not connected` },
+          { status: 401 }
+        );
+      }
+
+      const denial = checkEntitlement(session, { feature: 'platform', platform });
+      if (denial) {
+        return entitlementErrorResponse(denial);
+      }
+    }
+
+    // The first run (on the next scheduler tick) treats both sides as new and
+    // pairs up tracks they already share
+    const mirror = await getStorage().createMirror({
+      userId: session.userId,
+      sideA,
+      sideB,
+      conflictPolicy,
+      propagateRemovals: Boolean(propagateRemovals),
+      schedule,
+      status: 'active',
+      snapshotA: [],
+      snapshotB: [],
+      pairs: [],
+      pendingReview: [],
+      nextRunAt: Date.now(),
+    });
+
+    return NextResponse.json({ mirror }, { status: 201 });
+  } catch (error: any) {
+    console.error('[Mirrors] Create error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to create mirror' }, { status: 500 });
+  }
+}
@@ -0,0 +1,297 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+type BackupPlatform = 'spotify' | 'youtube' | 'tidal' | 'deezer';
+
+const PLATFORMS: { platform: BackupPlatform; name: string }[] = [
+  { platform: 'spotify', name: 'Spotify' },
+  { platform: 'youtube', name: 'YouTube Music' },
+  { platform: 'tidal', name: 'Tidal' },
+  { platform: 'deezer', name: 'Deezer' },
+];
+
+interface BackupManifest {
+  version: number;
+  createdAt: string;
+  platform: string;
+  account: { id: string; displayName: string };
+  playlists: { file: string; id: string; name: string; trackCount: number }[];
+  skipped: { id: string; name: string; error: string }[];
+}
+
+interface RestoreResult {
+  file: string;
+  name: string;
+  playlistId?: string;
+  playlistUrl?: string;
+  restored: number;
+  trackCount: number;
+  added: number;
+  lowConfidence: number;
+  notFound: number;
+  error?: string;
+}
+
+export default function BackupPage() {
+  const [connected, setConnected] = useState<BackupPlatform[]>([]);
+  const [backupPlatform, setBackupPlatform] = useState<BackupPlatform | ''>('');
+  const [archive, setArchive] = useState<File | null>(null);
+  const [manifest, setManifest] = useState<BackupManifest | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [targetPlatform, setTargetPlatform] = useState<BackupPlatform | ''>('');
+  const [restoring, setRestoring] = useState(false);
+  const [results, setResults] = useState<RestoreResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => res.json())
+      .then((session) => {
+        const platforms = PLATFORMS.map((p) => p.platform).filter((p) => session[p]?.connected);
+        setConnected(platforms);
+        setBackupPlatform(platforms[0] ?? '');
+        setTargetPlatform(platforms[0] ?? '');
+      })
+      .catch((err) => console.error('Failed to fetch session:', err));
+  }, []);
+
+  function restoreRequest(file: File, playlists?: string[]): Promise<Response> {
+    const form = new FormData();
+    form.append('archive', file);
+    if (targetPlatform) form.append('targetPlatform', targetPlatform);
+    if (playlists) form.append('playlists', JSON.stringify(playlists));
+    return fetch('/api/backup/restore', { method: 'POST', body: form });
+  }
+
+  async function openArchive(file: File) {
+    setArchive(file);
+    setManifest(null);
+    setResults([]);
+    setError(null);
+
+    try {
+      const res = await restoreRequest(file);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to read backup');
+        return;
+      }
+      setManifest(data.manifest);
+      setSelected(new Set(data.manifest.playlists.map((p: { file: string }) => p.file)));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read backup');
+    }
+  }
+
+  // The archive goes up once; the restore then runs one batch of tracks per
+  // request, so progress shows and a large playlist can't time out
+  async function handleRestore() {
+    if (!archive || !manifest || !targetPlatform) return;
+
+    setRestoring(true);
+    setResults([]);
+    setError(null);
+
+    try {
+      const files = manifest.playlists.filter((p) => selected.has(p.file)).map((p) => p.file);
+      const res = await restoreRequest(archive, files);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to restore backup');
+        return;
+      }
+      setResults(data.results);
+
+      for (let done = false; !done; ) {
+        const batchRes = await fetch(`/api/backup/restore/${data.restoreId}`, { method: 'POST' });
+        const batch = await batchRes.json();
+
+        if (!batchRes.ok) {
+          setError(batch.error || 'Failed to restore backup');
+          break;
+        }
+        setResults(batch.results);
+        done = batch.done;
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to restore backup');
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  function toggle(file: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(file)) {
+        next.delete(file);
+      } else {
+        next.add(file);
+      }
+      return next;
+    });
+  }
+
+  const selectClass =
+    'px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 py-12 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <Link
+            href="/dashboard"
+            className="inline-flex items-center gap-2 text-purple-200 hover:text-white transition-colors mb-4"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-white mb-3">Backup &amp; Restore</h1>
+          <p className="text-purple-200 text-lg">
+            Save your whole library as one archive, and restore it onto any connected platform
+          </p>
+        </div>
+
+        {/* Backup */}
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl mb-6">
+          <h3 className="text-xl font-semibold text-white mb-2">💾 Back up everything</h3>
+          <p className="text-purple-200/80 text-sm mb-4">
+            Every playlist and your liked songs, as a ZIP with a manifest and one JSON file per playlist.
+          </p>
+          <div className="flex gap-3">
+            <select
+              value={backupPlatform}
+              onChange={(e) => setBackupPlatform(e.target.value as BackupPlatform)}
+              className={selectClass}
+            >
+              {connected.length === 0 && <option value="">No platform connected</option>}
+              {PLATFORMS.filter(({ platform }) => connected.includes(platform)).map(({ platform, name }) => (
+                <option key={platform} value={platform} className="text-black">{name}</option>
+              ))}
+            </select>
+            {backupPlatform ? (
+              <a
+                href={`/api/backup?platform=${backupPlatform}`}
+                className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold"
+              >
+                Download backup
+              </a>
+            ) : null}
+          </div>
+        </div>
+
+        {/* Restore */}
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl mb-6">
+          <h3 className="text-xl font-semibold text-white mb-2">♻️ Restore</h3>
+          <p className="text-purple-200/80 text-sm mb-4">
+            Restoring to the same platform re-adds the exact tracks; any other platform matches them first and only adds
+            confident matches.
+          </p>
+          <div className="flex flex-wrap gap-3 items-center">
+            <label className="px-4 py-2 border border-white/20 text-white rounded-lg hover:bg-white/10 transition-all duration-200 cursor-pointer">
+              {archive ? `📦 ${archive.name}` : 'Choose backup file'}
+              <input
+                type="file"
+                accept=".zip"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) openArchive(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <select
+              value={targetPlatform}
+              onChange={(e) => setTargetPlatform(e.target.value as BackupPlatform)}
+              className={selectClass}
+            >
+              {PLATFORMS.filter(({ platform }) => connected.includes(platform)).map(({ platform, name }) => (
+                <option key={platform} value={platform} className="text-black">Restore to {name}</option>
+              ))}
+            </select>
+          </div>
+
+          {manifest && (
+            <div className="mt-4">
+              <p className="text-purple-200 text-sm mb-2">
+                {manifest.account.displayName} on {manifest.platform}, backed up{' '}
+                {new Date(manifest.createdAt).toLocaleString()}
+                {manifest.skipped.length > 0 && ` (${manifest.skipped.length} playlists couldn't be backed up)`}
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+                {manifest.playlists.map((playlist) => (
+                  <label key={playlist.file} className="flex items-center gap-3 text-white text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(playlist.file)}
+                      onChange={() => toggle(playlist.file)}
+                      disabled={restoring}
+                    />
+                    <span className="flex-1">{playlist.name}</span>
+                    <span className="text-purple-300/70">{playlist.trackCount} tracks</span>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={handleRestore}
+                disabled={restoring || selected.size === 0 || !targetPlatform}
+                className="w-full px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold disabled:from-gray-700 disabled:to-gray-800 disabled:cursor-not-allowed"
+              >
+                {restoring
+                  ? `Restoring ${results.reduce((sum, r) => sum + r.restored, 0)} of ${results.reduce((sum, r) => sum + r.trackCount, 0)} tracks...`
+                  : `Restore ${selected.size} playlists`}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-500/10 backdrop-blur-lg border border-red-500/30 rounded-xl p-4 mb-6">
+            <p className="text-red-300">{error}</p>
+          </div>
+        )}
+
+        {/* Results */}
+        {results.length > 0 && (
+          <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl space-y-2">
+            {results.map((result) => (
+              <div key={result.file} className="flex items-center justify-between text-sm">
+                <span className="text-white">
+                  {result.playlistUrl ? (
+                    <a href={result.playlistUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                      {result.name}
+                    </a>
+                  ) : (
+                    result.name
+                  )}
+                </span>
+                {result.error ? (
+                  <span className="text-red-300">{result.error}</span>
+                ) : result.playlistId && result.restored < result.trackCount ? (
+                  <span className="text-purple-200">
+                    {result.restored} of {result.trackCount} tracks...
+                  </span>
+                ) : !result.playlistId ? (
+                  <span className="text-purple-300/70">Waiting</span>
+                ) : (
+                  <span className="text-purple-200">
+                    {result.added} added
+                    {result.lowConfidence > 0 && `, ${result.lowConfidence} uncertain`}
+                    {result.notFound > 0 && `, ${result.notFound} not found`}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -109,7 +109,7 @@ export default function BillingPage() {
           {/* Usage Stats */}
           <div className="bg-white/10 backdrop-blur-sm rounded-2xl p-6 mb-6">
             <div className="flex items-center justify-between mb-3">
-              <span className="text-white font-medium">Monthly Syncs</span>
+              <span className="text-white font-medium">Tracks Synced This Month</span>
               <span className="text-white font-bold">
                 {syncsUsed} / {syncsLimit === Infinity ? '∞' : syncsLimit}
               </span>
@@ -124,7 +124,7 @@ export default function BillingPage() {
             )}
             {syncsLimit !== Infinity && syncsRemaining <= 10 && syncsRemaining > 0 && (
               <p className="text-yellow-200 text-sm mt-2">
-                ⚠️ Only {syncsRemaining} syncs remaining this month
+                ⚠️ Only {syncsRemaining} tracks remaining this month
               </p>
             )}
             {syncsLimit !== Infinity && syncsRemaining <= 0 && (
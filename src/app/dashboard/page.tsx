@@ -10,9 +10,36 @@ interface SessionStatus {
   deezer: { connected: boolean; displayName?: string };
 }
 
+type ExportPlatform = keyof SessionStatus;
+
+interface ExportPlaylistOption {
+  id: string;
+  name: string;
+  trackCount?: number;
+}
+
+const EXPORT_PLATFORMS: { platform: ExportPlatform; name: string }[] = [
+  { platform: 'spotify', name: 'Spotify' },
+  { platform: 'youtube', name: 'YouTube Music' },
+  { platform: 'tidal', name: 'Tidal' },
+  { platform: 'deezer', name: 'Deezer' },
+];
+
+const EXPORT_FORMATS = [
+  { format: 'csv', label: 'CSV (spreadsheets)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'm3u8', label: 'M3U8' },
+  { format: 'xspf', label: 'XSPF' },
+];
+
 export default function Dashboard() {
   const [session, setSession] = useState<SessionStatus | null>(null);
   const [loading, setLoading] = useState(true);
+  const [exportPlatform, setExportPlatform] = useState<ExportPlatform | null>(null);
+  const [exportPlaylists, setExportPlaylists] = useState<ExportPlaylistOption[]>([]);
+  const [exportPlaylistId, setExportPlaylistId] = useState('');
+  const [exportFormat, setExportFormat] = useState('csv');
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchSession();
@@ -40,6 +67,27 @@ export default function Dashboard() {
     }
   }
 
+  async function selectExportPlatform(platform: ExportPlatform) {
+    setExportPlatform(platform);
+    setExportPlaylists([]);
+    setExportPlaylistId('');
+    setExportError(null);
+
+    try {
+      const res = await fetch(`/api/providers/playlists?platform=${platform}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setExportError(data.error || 'Failed to load playlists');
+        return;
+      }
+      setExportPlaylists(data.playlists);
+      setExportPlaylistId(data.playlists[0]?.id ?? '');
+    } catch (error) {
+      console.error('Failed to load playlists:', error);
+      setExportError('Failed to load playlists');
+    }
+  }
+
   function openOAuthPopup(url: string, title: string) {
     const width = 600;
     const height = 700;
@@ -112,6 +160,10 @@ export default function Dashboard() {
     session?.deezer.connected,
   ].filter(Boolean).length;
 
+  const exportUrl = exportPlatform && exportPlaylistId
+    ? `/api/export?${new URLSearchParams({ platform: exportPlatform, playlistId: exportPlaylistId, format: exportFormat })}`
+    : null;
+
   const bothConnected = session?.spotify.connected && session?.youtube.connected;
 
   if (loading) {
@@ -360,6 +412,66 @@ export default function Dashboard() {
             </div>
           </div>
         )}
+
+        {/* Export - any connected platform */}
+        {connectedCount > 0 && (
+          <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-8 shadow-2xl mt-8">
+            <h3 className="text-2xl font-bold text-white mb-2">📥 Export</h3>
+            <p className="text-purple-200 mb-4">
+              Download a playlist or your liked songs as a file, with platform IDs, ISRC, album, duration and links.
+            </p>
+            <div className="grid gap-3 md:grid-cols-4">
+              <select
+                value={exportPlatform ?? ''}
+                onChange={(e) => selectExportPlatform(e.target.value as ExportPlatform)}
+                className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="" disabled>Platform</option>
+                {EXPORT_PLATFORMS.filter(({ platform }) => session?.[platform].connected).map(({ platform, name }) => (
+                  <option key={platform} value={platform} className="text-black">{name}</option>
+                ))}
+              </select>
+              <select
+                value={exportPlaylistId}
+                onChange={(e) => setExportPlaylistId(e.target.value)}
+                disabled={exportPlaylists.length === 0}
+                className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+              >
+                {exportPlaylists.length === 0 && <option value="">Playlist</option>}
+                {exportPlaylists.map((playlist) => (
+                  <option key={playlist.id} value={playlist.id} className="text-black">
+                    {playlist.name}{playlist.trackCount !== undefined ? ` (${playlist.trackCount})` : ''}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value)}
+                className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <option key={format} value={format} className="text-black">{label}</option>
+                ))}
+              </select>
+              {exportUrl ? (
+                <a
+                  href={exportUrl}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold text-center"
+                >
+                  Download
+                </a>
+              ) : (
+                <span className="px-4 py-2 bg-white/10 text-white/50 rounded-lg font-bold text-center cursor-not-allowed">
+                  Download
+                </span>
+              )}
+            </div>
+            {exportError && <p className="text-red-300 text-sm mt-3">{exportError}</p>}
+            <Link href="/backup" className="inline-block text-sm text-purple-300 hover:text-purple-200 transition-colors mt-4">
+              Back up or restore your whole library →
+            </Link>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,68 +1,124 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { startImportParse } from '@/lib/import/handoff';
+
+type TargetPlatform = 'spotify' | 'youtube' | 'tidal' | 'deezer';
+
+const TARGET_PLATFORMS: { platform: TargetPlatform; name: string }[] = [
+  { platform: 'spotify', name: 'Spotify' },
+  { platform: 'youtube', name: 'YouTube Music' },
+  { platform: 'tidal', name: 'Tidal' },
+  { platform: 'deezer', name: 'Deezer' },
+];
+
+interface UrlImport {
+  playlist: { name: string; platform: string; trackCount: number };
+  tracks: unknown[];
+}
 
 export default function ImportPage() {
   const router = useRouter();
   const [textInput, setTextInput] = useState('');
+  const [filename, setFilename] = useState<string | null>(null);
   const [parsing, setParsing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [playlistUrl, setPlaylistUrl] = useState('');
+  const [urlImport, setUrlImport] = useState<UrlImport | null>(null);
+  const [loadingUrl, setLoadingUrl] = useState(false);
+  const [connected, setConnected] = useState<TargetPlatform[]>([]);
+  const [targetPlatform, setTargetPlatform] = useState<TargetPlatform | ''>('');
 
-  const exampleText = `1. Billie Eilish - bad guy
-2. The Weeknd - Blinding Lights
-3. Dua Lipa - Levitating
-4. Olivia Rodrigo - drivers license
-5. Ed Sheeran - Shape of You`;
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => res.json())
+      .then((session) => {
+        const platforms = TARGET_PLATFORMS.map((p) => p.platform).filter((p) => session[p]?.connected);
+        setConnected(platforms);
+        setTargetPlatform(platforms[0] ?? '');
+      })
+      .catch((err) => console.error('[Import] Failed to fetch session:', err));
+  }, []);
 
-  async function handleParse() {
-    if (!textInput.trim()) {
-      setError('Please paste some text');
-      return;
-    }
+  // Public playlists are read with the app's credentials, so only the target
+  // needs to be connected; it's chosen first because the server checks it
+  async function handleLoadUrl() {
+    if (!targetPlatform) return;
 
     try {
-      setParsing(true);
+      setLoadingUrl(true);
       setError(null);
+      setUrlImport(null);
 
-      console.log('[Import] Starting parse with text length:', textInput.length);
-
-      const response = await fetch('/api/import/parse', {
+      const response = await fetch('/api/import/url', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: textInput }),
+        body: JSON.stringify({ url: playlistUrl, targetPlatform }),
       });
-
-      console.log('[Import] Parse response status:', response.status);
+      const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        setError(data.error || 'Failed to load playlist');
+        return;
       }
 
-      const data = await response.json();
-      console.log('[Import] Parse result:', data);
+      setUrlImport(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load playlist');
+    } finally {
+      setLoadingUrl(false);
+    }
+  }
 
-      if (data.error) {
-        setError(data.error);
-        return;
-      }
+  function handleMatchUrl() {
+    if (!urlImport || !targetPlatform) return;
 
-      if (!data.songs || data.songs.length === 0) {
-        setError('No songs found in text. Try a different format or check the example.');
-        return;
-      }
+    sessionStorage.setItem('urlImport', JSON.stringify(urlImport));
+    router.push(`/sync/preview?direction=${urlImport.playlist.platform}_to_${targetPlatform}&source=url`);
+  }
+
+  const exampleText = `1. Billie Eilish - bad guy
+2. The Weeknd - Blinding Lights
+3. Dua Lipa - Levitating
+4. Olivia Rodrigo - drivers license
+5. Ed Sheeran - Shape of You`;
 
-      // Store parsed songs and navigate to preview
-      console.log('[Import] Storing', data.songs.length, 'songs in sessionStorage');
-      sessionStorage.setItem('importedSongs', JSON.stringify(data.songs));
+  // The file's contents go through the same parse request as pasted text;
+  // the server recognizes playlist formats and only falls back to AI for the rest
+  async function handleFile(file: File) {
+    try {
+      setError(null);
+      setTextInput(await file.text());
+      setFilename(file.name);
+    } catch (err: any) {
+      setError(err.message || 'Failed to read file');
+    }
+  }
+
+  function updateText(text: string) {
+    setTextInput(text);
+    setFilename(null);
+  }
 
-      console.log('[Import] Navigating to preview');
+  // Parsing streams into the preview page, which shows songs as each chunk
+  // comes back and can retry the chunks that failed
+  async function handleParse() {
+    if (!textInput.trim()) {
+      setError('Please paste some text');
+      return;
+    }
+
+    setParsing(true);
+    setError(null);
+
+    try {
+      console.log('[Import] Starting parse with text length:', textInput.length);
+      await startImportParse(textInput, filename ?? undefined);
       router.push('/import/preview');
     } catch (err: any) {
-      console.error('[Import] Parse error:', err);
-      setError(err.message || 'Failed to parse text');
-    } finally {
+      setError(err.message || 'Failed to start parsing');
       setParsing(false);
     }
   }
@@ -82,7 +138,7 @@ export default function ImportPage() {
           </Link>
           <h1 className="text-4xl font-bold text-white mb-3">Smart Import</h1>
           <p className="text-purple-200 text-lg">
-            Paste any song list and let AI parse it for you 🤖
+            Upload a playlist file or paste any song list and let AI parse it for you 🤖
           </p>
         </div>
 
@@ -90,27 +146,99 @@ export default function ImportPage() {
         <div className="bg-blue-500/10 backdrop-blur-lg border border-blue-500/30 rounded-2xl p-6 mb-6">
           <h3 className="text-lg font-semibold text-blue-300 mb-2">✨ How it works</h3>
           <ul className="text-blue-200/80 space-y-1 text-sm">
-            <li>• Paste any format: "Artist - Song", numbered lists, YouTube descriptions, etc.</li>
-            <li>• Gemini AI extracts song titles and artists</li>
+            <li>• Upload an M3U/M3U8, PLS, XSPF, CSV or iTunes Library XML file: read directly, no AI needed</li>
+            <li>• Or paste any format: "Artist - Song", numbered lists, YouTube descriptions, etc.</li>
+            <li>• AI extracts song titles and artists from free-form text</li>
             <li>• We search and match on Spotify</li>
             <li>• You choose where to add them (Liked Songs or Playlist)</li>
           </ul>
         </div>
 
-        {/* Text Input */}
+        {/* Playlist Link */}
         <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl mb-6">
           <label className="block text-white font-medium mb-3">
-            Paste your song list
+            Or paste a public playlist link
           </label>
+          <div className="flex gap-3">
+            <input
+              type="url"
+              value={playlistUrl}
+              onChange={(e) => setPlaylistUrl(e.target.value)}
+              placeholder="https://open.spotify.com/playlist/..."
+              className="flex-1 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+            />
+            <select
+              value={targetPlatform}
+              onChange={(e) => {
+                setTargetPlatform(e.target.value as TargetPlatform);
+                setUrlImport(null);
+              }}
+              className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {connected.length === 0 && <option value="">Connect a platform first</option>}
+              {TARGET_PLATFORMS.filter(({ platform }) => connected.includes(platform)).map(({ platform, name }) => (
+                <option key={platform} value={platform} className="text-black">Match on {name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleLoadUrl}
+              disabled={!playlistUrl.trim() || !targetPlatform || loadingUrl}
+              className="px-6 py-2 border border-white/20 text-white rounded-xl hover:bg-white/10 transition-all duration-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loadingUrl ? 'Loading...' : 'Load'}
+            </button>
+          </div>
+          <p className="text-sm text-purple-300/70 mt-2">
+            Spotify, YouTube, Deezer, Tidal and Apple Music. No need to connect the account it comes from, only the one
+            to match on.
+          </p>
+
+          {urlImport && (
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <div className="flex-1 text-white">
+                📋 {urlImport.playlist.name}{' '}
+                <span className="text-purple-300/70 text-sm">({urlImport.playlist.trackCount} tracks)</span>
+              </div>
+              <button
+                onClick={handleMatchUrl}
+                disabled={!targetPlatform}
+                className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold disabled:from-gray-700 disabled:to-gray-800 disabled:cursor-not-allowed"
+              >
+                Match tracks
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Text Input */}
+        <div className="bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-white font-medium">
+              Paste your song list
+            </label>
+            <label className="text-sm text-purple-300 hover:text-purple-200 transition-colors cursor-pointer">
+              {filename ? `📄 ${filename}` : 'Upload playlist file'}
+              <input
+                type="file"
+                accept=".m3u,.m3u8,.pls,.xspf,.csv,.tsv,.xml,.txt"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
           <textarea
             value={textInput}
-            onChange={(e) => setTextInput(e.target.value)}
+            onChange={(e) => updateText(e.target.value)}
             placeholder={`Example:\n${exampleText}`}
             className="w-full h-64 px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-purple-300/50 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent font-mono text-sm resize-none"
           />
           <div className="flex items-center justify-between mt-3">
             <button
-              onClick={() => setTextInput(exampleText)}
+              onClick={() => updateText(exampleText)}
               className="text-sm text-purple-300 hover:text-purple-200 transition-colors"
             >
               Use example
@@ -131,7 +259,7 @@ export default function ImportPage() {
         {/* Action Buttons */}
         <div className="flex gap-4">
           <button
-            onClick={() => setTextInput('')}
+            onClick={() => updateText('')}
             disabled={!textInput.trim() || parsing}
             className="px-6 py-3 border border-white/20 text-white rounded-xl hover:bg-white/10 transition-all duration-200 font-medium backdrop-blur-lg disabled:opacity-50 disabled:cursor-not-allowed"
           >
@@ -1,12 +1,42 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { DEFAULT_MATCH_CONFIG } from '@/lib/matching/types';
+import type { ImportedSong } from '@/lib/import';
+import { UNKNOWN_ARTIST } from '@/lib/import/helpers';
+import { deduplicateSongs, readParseEvents } from '@/lib/import/parse-stream';
+import {
+  loadImportedSongs,
+  loadImportParse,
+  saveImportedSongs,
+  saveParsedChunk,
+  saveParseTotal,
+  ImportParse,
+} from '@/lib/import/handoff';
+
+type ParsedSong = ImportedSong;
+
+function songsOf(parse: ImportParse): ParsedSong[] {
+  const indexes = Object.keys(parse.chunks).map(Number).sort((a, b) => a - b);
+  return deduplicateSongs(indexes.flatMap((i) => parse.chunks[i].songs));
+}
 
-interface ParsedSong {
-  title: string;
-  artist: string;
+// Chunks without a result yet; undefined when even the count isn't known
+function pendingChunks(parse: ImportParse): number[] | undefined {
+  if (parse.total === undefined) return undefined;
+  return Array.from({ length: parse.total }, (_, i) => i).filter((i) => !parse.chunks[i]);
+}
+
+function unsearched(songs: ParsedSong[]): MatchResult[] {
+  return songs.map((song) => ({
+    parsed: song,
+    match: null,
+    confidence: 0,
+    status: 'not_found' as const,
+    alternatives: [],
+  }));
 }
 
 interface SpotifyTrack {
@@ -22,6 +52,22 @@ interface MatchResult {
   match: SpotifyTrack | null;
   confidence: number;
   status: 'matched' | 'low_confidence' | 'not_found';
+  alternatives: SpotifyTrack[]; // Next search results, offered as "did you mean…"
+}
+
+// Simple confidence: check title and artist similarity
+function rateCandidate(song: ParsedSong, candidate: SpotifyTrack): Pick<MatchResult, 'confidence' | 'status'> {
+  const titleMatch = candidate.title.toLowerCase().includes(song.title.toLowerCase()) ||
+                   song.title.toLowerCase().includes(candidate.title.toLowerCase());
+  const artistMatch = candidate.artist.toLowerCase().includes(song.artist.toLowerCase()) ||
+                    song.artist.toLowerCase().includes(candidate.artist.toLowerCase());
+
+  if (titleMatch && artistMatch) {
+    return { confidence: 0.90, status: 'matched' };
+  } else if (titleMatch || artistMatch) {
+    return { confidence: 0.65, status: 'low_confidence' };
+  }
+  return { confidence: 0.40, status: 'low_confidence' };
 }
 
 export default function ImportPreview() {
@@ -33,34 +79,47 @@ export default function ImportPreview() {
   const [syncMode, setSyncMode] = useState<'playlist' | 'liked'>('playlist');
   const [playlistName, setPlaylistName] = useState('');
   const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [parse, setParse] = useState<ImportParse | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const parseAbort = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadParsedSongs();
+    return () => parseAbort.current?.abort();
   }, []);
 
   async function loadParsedSongs() {
     try {
       console.log('[Preview] Loading parsed songs');
+
+      // Text handed over by the import page, with every chunk parsed so far,
+      // so a reload picks up at the first unparsed chunk
+      const state = await loadImportParse();
+      if (state) {
+        setParse(state);
+        setResults(unsearched(songsOf(state)));
+        setLoading(false);
+
+        const pending = pendingChunks(state);
+        if (pending === undefined || pending.length > 0) {
+          await runParse(state, pending);
+        }
+        return;
+      }
+
       // Get parsed songs from sessionStorage
-      const stored = sessionStorage.getItem('importedSongs');
-      if (!stored) {
+      const parsedSongs = loadImportedSongs();
+      if (!parsedSongs) {
         console.log('[Preview] No songs in sessionStorage, redirecting');
         router.push('/import');
         return;
       }
 
-      const parsedSongs: ParsedSong[] = JSON.parse(stored);
       console.log('[Preview] Loaded', parsedSongs.length, 'parsed songs');
 
       // Show parsed songs immediately without searching
-      const initialResults: MatchResult[] = parsedSongs.map(song => ({
-        parsed: song,
-        match: null,
-        confidence: 0,
-        status: 'not_found' as const,
-      }));
-
-      setResults(initialResults);
+      setResults(unsearched(parsedSongs));
       setLoading(false);
       setProgress({ current: 0, total: parsedSongs.length });
     } catch (error) {
@@ -69,11 +128,79 @@ export default function ImportPreview() {
     }
   }
 
+  // Parse all chunks, or just `chunks`, showing songs as each one arrives
+  async function runParse(initial: ImportParse, chunks?: number[]) {
+    parseAbort.current?.abort();
+    const abort = new AbortController();
+    parseAbort.current = abort;
+
+    // Only the new chunk is stored; the songs are stored once at the end
+    let state = initial;
+    const update = (next: ImportParse) => {
+      state = next;
+      setParse(next);
+      setResults(unsearched(songsOf(next)));
+    };
+
+    try {
+      setParsing(true);
+      setParseError(null);
+      console.log('[Preview] Parsing', chunks ? `chunks ${chunks.join(', ')}` : 'all chunks');
+
+      const response = await fetch('/api/import/parse', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text: state.text, filename: state.filename, chunks }),
+        signal: abort.signal,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setParseError(data.error || `HTTP ${response.status}: ${response.statusText}`);
+        return;
+      }
+
+      for await (const event of readParseEvents(response)) {
+        if (event.type === 'start') {
+          saveParseTotal(state, event.chunks);
+          update({ ...state, total: event.chunks });
+        } else if (event.type === 'chunk') {
+          const chunk = { status: event.status, songs: event.songs, error: event.error };
+          saveParsedChunk(event.index, chunk);
+          update({ ...state, chunks: { ...state.chunks, [event.index]: chunk } });
+        } else if (event.type === 'error') {
+          setParseError(event.error);
+        }
+      }
+    } catch (err: any) {
+      if (abort.signal.aborted) return;
+      console.error('[Preview] Parse error:', err);
+      setParseError(err.message || 'Failed to parse text');
+    } finally {
+      saveImportedSongs(songsOf(state));
+      if (parseAbort.current === abort) {
+        parseAbort.current = null;
+        setParsing(false);
+      }
+    }
+  }
+
+  function retryChunks() {
+    if (!parse) return;
+
+    const retry = Object.keys(parse.chunks)
+      .map(Number)
+      .filter((i) => parse.chunks[i].status !== 'ok');
+    const pending = pendingChunks(parse);
+
+    runParse(parse, pending === undefined ? undefined : [...retry, ...pending]);
+  }
+
   async function searchSpotify() {
     try {
       console.log('[Preview] Starting Spotify search');
       setMatching(true);
-      const parsedSongs: ParsedSong[] = JSON.parse(sessionStorage.getItem('importedSongs') || '[]');
+      const parsedSongs = parse ? songsOf(parse) : (loadImportedSongs() ?? []);
       const matchResults: MatchResult[] = [];
 
       for (let i = 0; i < parsedSongs.length; i++) {
@@ -85,7 +212,8 @@ export default function ImportPreview() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            query: `${song.artist} ${song.title}`,
+            // Files without artist tags would otherwise search for "Unknown Artist"
+            query: song.artist === UNKNOWN_ARTIST ? song.title : `${song.artist} ${song.title}`,
             platform: 'spotify',
           }),
         });
@@ -93,34 +221,16 @@ export default function ImportPreview() {
         const searchData = await searchRes.json();
         const candidates = searchData.results || [];
 
-        // Simple matching: take first result with confidence based on similarity
-        let match: SpotifyTrack | null = null;
-        let confidence = 0;
-        let status: 'matched' | 'low_confidence' | 'not_found' = 'not_found';
-
-        if (candidates.length > 0) {
-          const candidate = candidates[0];
-          match = candidate;
-
-          // Simple confidence: check title and artist similarity
-          const titleMatch = candidate.title.toLowerCase().includes(song.title.toLowerCase()) ||
-                           song.title.toLowerCase().includes(candidate.title.toLowerCase());
-          const artistMatch = candidate.artist.toLowerCase().includes(song.artist.toLowerCase()) ||
-                            song.artist.toLowerCase().includes(candidate.artist.toLowerCase());
-
-          if (titleMatch && artistMatch) {
-            confidence = 0.90;
-            status = 'matched';
-          } else if (titleMatch || artistMatch) {
-            confidence = 0.65;
-            status = 'low_confidence';
-          } else {
-            confidence = 0.40;
-            status = 'low_confidence';
-          }
-        }
+        // Simple matching: take first result with confidence based on similarity,
+        // keeping the next few to swap to
+        const [match = null, ...rest] = candidates as SpotifyTrack[];
+        const alternatives = rest.slice(0, DEFAULT_MATCH_CONFIG.maxAlternatives);
 
-        matchResults.push({ parsed: song, match, confidence, status });
+        if (match) {
+          matchResults.push({ parsed: song, match, ...rateCandidate(song, match), alternatives });
+        } else {
+          matchResults.push({ parsed: song, match, confidence: 0, status: 'not_found', alternatives });
+        }
         setProgress({ current: i + 1, total: parsedSongs.length });
         setResults([...matchResults]); // Update UI in real-time
 
@@ -135,6 +245,26 @@ export default function ImportPreview() {
     }
   }
 
+  // The swapped-out match becomes an alternative, so the swap can be undone
+  function swapMatch(result: MatchResult, track: SpotifyTrack) {
+    setResults((prev) =>
+      prev.map((r) =>
+        r === result
+          ? {
+              ...r,
+              match: track,
+              confidence: rateCandidate(r.parsed, track).confidence,
+              status: 'matched',
+              alternatives: [
+                ...(r.match ? [r.match] : []),
+                ...r.alternatives.filter((alt) => alt.id !== track.id),
+              ],
+            }
+          : r
+      )
+    );
+  }
+
   function handleAdd() {
     const tracksToAdd = results.filter(r => r.match && (r.status === 'matched' || r.status === 'low_confidence'));
     sessionStorage.setItem('importResults', JSON.stringify({
@@ -154,6 +284,12 @@ export default function ImportPreview() {
 
   const hasSearched = results.some(r => r.match !== null);
 
+  const parsedChunkCount = parse ? Object.keys(parse.chunks).length : 0;
+  const failedChunks = parse ? Object.values(parse.chunks).filter((c) => c.status === 'failed').length : 0;
+  const truncatedChunks = parse ? Object.values(parse.chunks).filter((c) => c.status === 'truncated').length : 0;
+  const unparsedChunks = parse && !parsing ? (pendingChunks(parse)?.length ?? 1) : 0;
+  const retryableChunks = failedChunks + truncatedChunks + unparsedChunks;
+
   const stats = {
     matched: results.filter((r) => r.status === 'matched').length,
     lowConfidence: results.filter((r) => r.status === 'low_confidence').length,
@@ -206,13 +342,55 @@ export default function ImportPreview() {
           <p className="text-purple-200 text-lg">
             {hasSearched
               ? `Found ${stats.totalToAdd} songs on Spotify`
-              : `${stats.totalParsed} songs extracted from text`
+              : `${stats.totalParsed} songs extracted from text${parsing ? ' so far' : ''}`
             }
           </p>
         </div>
 
+        {/* Parse Progress */}
+        {parse && (parsing || parseError || retryableChunks > 0) && (
+          <div className="mb-6 bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl">
+            {parsing && (
+              <div className="mb-3">
+                <div className="text-purple-200 mb-2">
+                  {parse.total
+                    ? `Parsing with AI: ${parsedChunkCount} of ${parse.total} chunks done`
+                    : 'Parsing with AI...'}
+                </div>
+                <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-300"
+                    style={{ width: `${parse.total ? (parsedChunkCount / parse.total) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+            {(failedChunks > 0 || truncatedChunks > 0) && (
+              <p className="text-yellow-300 text-sm mb-2">
+                {failedChunks > 0 && `${failedChunks} of ${parse.total} chunks failed. `}
+                {truncatedChunks > 0 && `${truncatedChunks} chunks were cut off, so some songs may be missing.`}
+              </p>
+            )}
+            {parseError && <p className="text-red-300 text-sm mb-2">{parseError}</p>}
+            {!parsing && retryableChunks > 0 && (
+              <button
+                onClick={retryChunks}
+                className="px-5 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-all font-medium"
+              >
+                🔁 Retry {unparsedChunks > 0 && failedChunks + truncatedChunks === 0 ? 'parsing' : 'failed chunks'}
+              </button>
+            )}
+          </div>
+        )}
+
+        {!parsing && !parseError && parse?.total !== undefined && retryableChunks === 0 && results.length === 0 && (
+          <div className="mb-6 bg-red-500/10 backdrop-blur-lg border border-red-500/30 rounded-xl p-4">
+            <p className="text-red-300">No songs found in text. Try a different format or check the example.</p>
+          </div>
+        )}
+
         {/* Search Button (if not searched yet) */}
-        {!hasSearched && (
+        {!hasSearched && !parsing && results.length > 0 && (
           <div className="mb-6 bg-blue-500/10 backdrop-blur-lg border border-blue-500/30 rounded-2xl p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -370,6 +548,20 @@ export default function ImportPreview() {
                   ) : (
                     <div className="text-purple-400/50 italic">No match found</div>
                   )}
+                  {result.alternatives.length > 0 && (
+                    <div className="mt-3 space-y-1">
+                      <div className="text-xs text-purple-300/60">Did you mean…</div>
+                      {result.alternatives.map((alt) => (
+                        <button
+                          key={alt.id}
+                          onClick={() => swapMatch(result, alt)}
+                          className="block w-full text-left text-xs text-purple-200/80 hover:text-white transition-colors truncate"
+                        >
+                          {alt.title} – {alt.artist}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -3,12 +3,14 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { clearImportParse } from '@/lib/import/handoff';
 
 export default function ImportResult() {
   const router = useRouter();
   const [adding, setAdding] = useState(true);
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [upgradeUrl, setUpgradeUrl] = useState<string | null>(null);
 
   useEffect(() => {
     executeAdd();
@@ -39,12 +41,13 @@ export default function ImportResult() {
 
       if (data.error) {
         setError(data.error);
+        setUpgradeUrl(data.upgradeUrl || null);
       } else {
         setResult(data);
       }
 
       sessionStorage.removeItem('importResults');
-      sessionStorage.removeItem('importedSongs');
+      await clearImportParse();
     } catch (err: any) {
       setError(err.message || 'Failed to add tracks');
     } finally {
@@ -71,6 +74,14 @@ export default function ImportResult() {
             <div className="text-6xl mb-4">⚠️</div>
             <h1 className="text-3xl font-bold text-red-400 mb-4">Failed to Add</h1>
             <p className="text-red-200 mb-8 text-lg">{error}</p>
+            {upgradeUrl && (
+              <Link
+                href={upgradeUrl}
+                className="inline-block px-8 py-3 mr-3 bg-white/10 border border-white/20 text-white rounded-xl hover:bg-white/20 transition-all duration-200 font-bold"
+              >
+                Upgrade to Pro
+              </Link>
+            )}
             <Link
               href="/dashboard"
               className="inline-block px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold shadow-lg"
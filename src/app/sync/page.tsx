@@ -2,10 +2,22 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { PLATFORM_NAMES, PLATFORMS } from '@/lib/sync/platforms';
+import type { Platform } from '@/lib/providers/base';
 
 export default function SyncDirection() {
   const router = useRouter();
   const [selected, setSelected] = useState<string | null>(null);
+  const [source, setSource] = useState<Platform>('deezer');
+  const [target, setTarget] = useState<Platform>('tidal');
+
+  const otherDirection = source !== target ? `${source}_to_${target}` : null;
+
+  function chooseOther(nextSource: Platform, nextTarget: Platform) {
+    setSource(nextSource);
+    setTarget(nextTarget);
+    setSelected(nextSource !== nextTarget ? `${nextSource}_to_${nextTarget}` : null);
+  }
 
   function handleNext() {
     if (selected) {
@@ -59,6 +71,39 @@ export default function SyncDirection() {
               <div className="text-4xl text-white opacity-70">→</div>
             </div>
           </button>
+
+          <div
+            onClick={() => setSelected(otherDirection)}
+            className={`w-full p-8 rounded-2xl border text-left transition-all duration-300 cursor-pointer ${
+              selected && selected === otherDirection
+                ? 'border-purple-500/50 bg-gradient-to-r from-purple-500/20 to-pink-500/20 backdrop-blur-lg scale-105 shadow-2xl shadow-purple-500/20'
+                : 'border-white/10 bg-white/5 backdrop-blur-lg hover:bg-white/10 hover:scale-105 hover:border-purple-500/50'
+            }`}
+          >
+            <h2 className="text-2xl font-bold text-white mb-2">Other platforms</h2>
+            <p className="text-purple-200 mb-4">Transfer playlists between any two connected platforms</p>
+            <div className="flex items-center gap-3">
+              <select
+                value={source}
+                onChange={(e) => chooseOther(e.target.value as Platform, target)}
+                className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {PLATFORMS.map((platform) => (
+                  <option key={platform} value={platform} className="text-black">{PLATFORM_NAMES[platform]}</option>
+                ))}
+              </select>
+              <div className="text-2xl text-white opacity-70">→</div>
+              <select
+                value={target}
+                onChange={(e) => chooseOther(source, e.target.value as Platform)}
+                className="px-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {PLATFORMS.map((platform) => (
+                  <option key={platform} value={platform} className="text-black">{PLATFORM_NAMES[platform]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
         </div>
 
         <div className="flex justify-between">
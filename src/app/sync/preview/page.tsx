@@ -2,21 +2,20 @@
 
 import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { UnifiedTrack } from '@/lib/matching/types';
+import { UnifiedTrack, DEFAULT_MATCH_CONFIG, MatchCache, MatchResult } from '@/lib/matching/types';
+import { applyChosenAlternative } from '@/lib/matching/matcher';
 import { useGeminiMatching } from '@/hooks/use-gemini-matching';
-
-interface MatchResult {
-  source: UnifiedTrack;
-  target: UnifiedTrack | null;
-  confidence: number;
-  status: 'matched' | 'low_confidence' | 'not_found' | 'already_exists';
-}
+import { useProviderCapabilities } from '@/hooks/use-provider-capabilities';
+import { getSourcePlatform, getTargetPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
 
 function PreviewMatchesContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const direction = searchParams.get('direction');
   const playlistIds = searchParams.get('playlists')?.split(',') || [];
+  // A public playlist link resolved on the import page, instead of playlists
+  // from a connected account
+  const fromUrl = searchParams.get('source') === 'url';
 
   const [loading, setLoading] = useState(true);
   const [results, setResults] = useState<MatchResult[]>([]);
@@ -24,30 +23,38 @@ function PreviewMatchesContent() {
   const [playlistName, setPlaylistName] = useState('');
   const [syncMode, setSyncMode] = useState<'playlist' | 'liked'>('playlist');
   const { matchTracks, isMatching, progress, cancelMatching } = useGeminiMatching();
+  const capabilities = useProviderCapabilities();
+  // Assume liked songs work until the target's capabilities say otherwise
+  const canAddToLiked = capabilities[getTargetPlatform(direction)]?.likedTracks.write ?? true;
 
   useEffect(() => {
     fetchAndMatch();
     // Set default playlist name
-    const targetPlatform = direction === 'spotify_to_youtube' ? 'YouTube' : 'Spotify';
+    const targetPlatform = PLATFORM_NAMES[getTargetPlatform(direction)];
     const date = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-    setPlaylistName(`Synced to ${targetPlatform} - ${date}`);
+    const urlPlaylistName = fromUrl && JSON.parse(sessionStorage.getItem('urlImport') || '{}').playlist?.name;
+    setPlaylistName(urlPlaylistName || `Synced to ${targetPlatform} - ${date}`);
   }, []);
 
   async function fetchAndMatch() {
     try {
       setLoading(true);
-      const sourcePlatform = direction === 'spotify_to_youtube' ? 'spotify' : 'youtube';
-      const targetPlatform = direction === 'spotify_to_youtube' ? 'youtube' : 'spotify';
+      const sourcePlatform = getSourcePlatform(direction);
+      const targetPlatform = getTargetPlatform(direction);
 
       // Fetch tracks from selected playlists
       const allTracks: UnifiedTrack[] = [];
-      for (const playlistId of playlistIds) {
-        const endpoint = sourcePlatform === 'spotify'
-          ? `/api/spotify/playlist/${playlistId}`
-          : `/api/youtube/playlist/${playlistId}`;
-        const res = await fetch(endpoint);
-        const data = await res.json();
-        allTracks.push(...data.tracks);
+      if (fromUrl) {
+        allTracks.push(...(JSON.parse(sessionStorage.getItem('urlImport') || '{}').tracks || []));
+      } else {
+        for (const playlistId of playlistIds) {
+          const res = await fetch(
+            `/api/providers/playlist?platform=${sourcePlatform}&playlistId=${encodeURIComponent(playlistId)}`
+          );
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || 'Failed to fetch playlist tracks');
+          allTracks.push(...data.tracks);
+        }
       }
 
       setLoading(false);
@@ -57,28 +64,111 @@ function PreviewMatchesContent() {
         const res = await fetch('/api/search', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ query, platform: targetPlatform }),
+          body: JSON.stringify({
+            query,
+            platform: targetPlatform,
+            limit: DEFAULT_MATCH_CONFIG.maxSearchResults,
+          }),
         });
         const data = await res.json();
         return data.results || [];
       };
 
+      // Songs matched by earlier syncs skip the search
+      const cache: MatchCache = {
+        lookup: async (sourceTrack) => {
+          const res = await fetch('/api/sync/match-cache', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ sourceTrack, targetPlatform }),
+          });
+          if (!res.ok) return null;
+          const data = await res.json();
+          return data.match || null;
+        },
+      };
+
       const existingIds = new Set<string>();
-      const matchResults = await matchTracks(allTracks, searchFn, existingIds);
+      const matchResults = await matchTracks(allTracks, searchFn, existingIds, undefined, {
+        fieldedSearch: capabilities[targetPlatform]?.fieldedSearch,
+        cache,
+      });
       setResults(matchResults);
     } catch (error) {
       console.error('Failed to match tracks:', error);
     }
   }
 
+  function updateResult(result: MatchResult, changes: Partial<MatchResult>) {
+    setResults((prev) => prev.map((r) => (r === result ? { ...r, ...changes } : r)));
+  }
+
+  // Corrections go to the match cache so later syncs get them right
+  function saveMatch(result: MatchResult, target: UnifiedTrack, confidence: number, rejected: UnifiedTrack[]) {
+    fetch('/api/sync/match-cache', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sourceTrack: result.source,
+        targetPlatform: getTargetPlatform(direction),
+        target,
+        confidence,
+        rejected,
+      }),
+    }).catch((error) => console.error('Failed to save match:', error));
+  }
+
+  function confirmMatch(result: MatchResult) {
+    if (!result.target) return;
+
+    updateResult(result, { status: 'matched' });
+    saveMatch(result, result.target, result.confidence, []);
+  }
+
+  // Results keep the matcher's pick; a swap only records which alternative
+  // the user chose, which /api/sync/execute applies too
+  function chooseAlternative(result: MatchResult, track: UnifiedTrack, confidence: number) {
+    const shown = applyChosenAlternative(result);
+
+    updateResult(result, { chosenAlternativeId: track.id });
+    saveMatch(result, track, confidence, shown.target ? [shown.target] : []);
+  }
+
+  function rejectMatch(result: MatchResult) {
+    const shown = applyChosenAlternative(result);
+    if (!shown.target) return;
+
+    if (result.chosenAlternativeId) {
+      // Drop the rejected alternative and fall back to the matcher's pick
+      updateResult(result, {
+        chosenAlternativeId: undefined,
+        alternatives: result.alternatives?.filter((alt) => alt.track.id !== shown.target!.id),
+      });
+    } else {
+      updateResult(result, { target: null, confidence: 0, status: 'not_found', breakdown: undefined });
+    }
+
+    fetch('/api/sync/match-cache', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        sourceTrack: result.source,
+        targetPlatform: getTargetPlatform(direction),
+        target: shown.target,
+      }),
+    }).catch((error) => console.error('Failed to forget match:', error));
+  }
+
   function handleSync() {
     // Sync all tracks that have a match (excluding not_found and already_exists)
-    const tracksToSync = results.filter(r =>
-      r.target !== null && r.status !== 'already_exists'
-    );
+    const tracksToSync = results.filter((r) => {
+      const shown = applyChosenAlternative(r);
+      return shown.target !== null && shown.status !== 'already_exists';
+    });
     sessionStorage.setItem('syncResults', JSON.stringify({
       results: tracksToSync,
       direction,
+      sourcePlaylistIds: playlistIds,
       syncMode,
       playlistName: syncMode === 'playlist'
         ? (playlistName.trim() || `Synced Playlist - ${new Date().toLocaleDateString()}`)
@@ -87,17 +177,21 @@ function PreviewMatchesContent() {
     router.push(`/sync/result?direction=${direction}`);
   }
 
-  const filteredResults = results.filter((r) => {
+  // What each row shows: the matcher's pick, or the alternative swapped in
+  const rows = results.map((result) => ({ result, shown: applyChosenAlternative(result) }));
+  const shownResults = rows.map((row) => row.shown);
+
+  const filteredRows = rows.filter(({ shown }) => {
     if (filter === 'all') return true;
-    return r.status === filter;
+    return shown.status === filter;
   });
 
   const stats = {
-    matched: results.filter((r) => r.status === 'matched').length,
-    lowConfidence: results.filter((r) => r.status === 'low_confidence').length,
-    notFound: results.filter((r) => r.status === 'not_found').length,
-    alreadyExists: results.filter((r) => r.status === 'already_exists').length,
-    totalToSync: results.filter((r) => r.target !== null && r.status !== 'already_exists').length,
+    matched: shownResults.filter((r) => r.status === 'matched').length,
+    lowConfidence: shownResults.filter((r) => r.status === 'low_confidence').length,
+    notFound: shownResults.filter((r) => r.status === 'not_found').length,
+    alreadyExists: shownResults.filter((r) => r.status === 'already_exists').length,
+    totalToSync: shownResults.filter((r) => r.target !== null && r.status !== 'already_exists').length,
   };
 
   if (loading || isMatching) {
@@ -145,7 +239,7 @@ function PreviewMatchesContent() {
         {/* Sync Mode Selector */}
         <div className="mb-6 bg-white/5 backdrop-blur-lg rounded-2xl border border-white/10 p-6 shadow-2xl">
           <label className="block text-white font-medium mb-3">Where to add tracks?</label>
-          <div className="grid grid-cols-2 gap-4">
+          <div className={`grid ${canAddToLiked ? 'grid-cols-2' : 'grid-cols-1'} gap-4`}>
             <button
               onClick={() => setSyncMode('playlist')}
               className={`p-4 rounded-xl border-2 transition-all ${
@@ -157,17 +251,19 @@ function PreviewMatchesContent() {
               <div className="text-white font-semibold mb-1">New Playlist</div>
               <div className="text-purple-200/70 text-sm">Create a new playlist</div>
             </button>
-            <button
-              onClick={() => setSyncMode('liked')}
-              className={`p-4 rounded-xl border-2 transition-all ${
-                syncMode === 'liked'
-                  ? 'bg-gradient-to-r from-purple-500/20 to-pink-500/20 border-purple-500 shadow-lg'
-                  : 'bg-white/5 border-white/10 hover:border-white/30'
-              }`}
-            >
-              <div className="text-white font-semibold mb-1">Liked Songs</div>
-              <div className="text-purple-200/70 text-sm">Add to your liked songs</div>
-            </button>
+            {canAddToLiked && (
+              <button
+                onClick={() => setSyncMode('liked')}
+                className={`p-4 rounded-xl border-2 transition-all ${
+                  syncMode === 'liked'
+                    ? 'bg-gradient-to-r from-purple-500/20 to-pink-500/20 border-purple-500 shadow-lg'
+                    : 'bg-white/5 border-white/10 hover:border-white/30'
+                }`}
+              >
+                <div className="text-white font-semibold mb-1">Liked Songs</div>
+                <div className="text-purple-200/70 text-sm">Add to your liked songs</div>
+              </button>
+            )}
           </div>
         </div>
 
@@ -235,24 +331,57 @@ function PreviewMatchesContent() {
           </div>
 
           <div className="divide-y divide-white/10 max-h-96 overflow-y-auto">
-            {filteredResults.map((result, idx) => (
+            {filteredRows.map(({ result, shown }, idx) => (
               <div key={idx} className="p-5 grid grid-cols-2 gap-6 items-center hover:bg-white/5 transition-colors">
                 <div>
-                  <div className="font-semibold text-white">{result.source.title}</div>
-                  <div className="text-sm text-purple-200/70">{result.source.artist}</div>
+                  <div className="font-semibold text-white">{shown.source.title}</div>
+                  <div className="text-sm text-purple-200/70">{shown.source.artist}</div>
                 </div>
                 <div>
-                  {result.target ? (
+                  {shown.target ? (
                     <>
-                      <div className="font-semibold text-white">{result.target.title}</div>
-                      <div className="text-sm text-purple-200/70">{result.target.artist}</div>
+                      <div className="font-semibold text-white">{shown.target.title}</div>
+                      <div className="text-sm text-purple-200/70">{shown.target.artist}</div>
                       <div className="text-xs text-purple-300/60 mt-1 font-medium">
-                        {(result.confidence * 100).toFixed(0)}% match
+                        {(shown.confidence * 100).toFixed(0)}% match
                       </div>
+                      {shown.status !== 'already_exists' && (
+                        <div className="flex gap-3 mt-2 text-xs font-medium">
+                          {shown.status === 'low_confidence' && (
+                            <button
+                              onClick={() => confirmMatch(result)}
+                              className="text-green-300 hover:text-green-200 transition-colors"
+                            >
+                              Confirm
+                            </button>
+                          )}
+                          <button
+                            onClick={() => rejectMatch(result)}
+                            className="text-red-300 hover:text-red-200 transition-colors"
+                          >
+                            Not this song
+                          </button>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="text-purple-400/50 italic">No match found</div>
                   )}
+                  {shown.status !== 'already_exists' && (shown.alternatives?.length ?? 0) > 0 && (
+                    <div className="mt-3 space-y-1">
+                      <div className="text-xs text-purple-300/60">Did you mean…</div>
+                      {shown.alternatives!.map((alt) => (
+                        <button
+                          key={alt.track.id}
+                          onClick={() => chooseAlternative(result, alt.track, alt.confidence)}
+                          className="block w-full text-left text-xs text-purple-200/80 hover:text-white transition-colors truncate"
+                          title={`Title ${(alt.breakdown.title * 100).toFixed(0)}% · Artist ${(alt.breakdown.artist * 100).toFixed(0)}% · Duration ${(alt.breakdown.duration * 100).toFixed(0)}%`}
+                        >
+                          {alt.track.title} – {alt.track.artist} ({(alt.confidence * 100).toFixed(0)}%)
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -3,6 +3,7 @@
 import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import { getSourcePlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
 
 function SyncResultContent() {
   const router = useRouter();
@@ -12,6 +13,9 @@ function SyncResultContent() {
   const [syncing, setSyncing] = useState(true);
   const [result, setResult] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [upgradeUrl, setUpgradeUrl] = useState<string | null>(null);
+  const [syncJob, setSyncJob] = useState<{ sourcePlaylistId: string; targetPlaylistName?: string } | null>(null);
+  const [jobStatus, setJobStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
   useEffect(() => {
     executeSync();
@@ -27,7 +31,13 @@ function SyncResultContent() {
         return;
       }
 
-      const { results, direction: syncDirection, syncMode, playlistName } = JSON.parse(storedData);
+      const {
+        results,
+        direction: syncDirection,
+        sourcePlaylistIds,
+        syncMode,
+        playlistName,
+      } = JSON.parse(storedData);
 
       // Execute sync
       const res = await fetch('/api/sync/execute', {
@@ -38,7 +48,7 @@ function SyncResultContent() {
           direction: syncDirection,
           syncMode: syncMode || 'playlist',
           createNew: syncMode === 'playlist',
-          targetPlaylistName: playlistName || `Synced from ${syncDirection === 'spotify_to_youtube' ? 'Spotify' : 'YouTube Music'} - ${new Date().toLocaleDateString()}`,
+          targetPlaylistName: playlistName || `Synced from ${PLATFORM_NAMES[getSourcePlatform(syncDirection)]} - ${new Date().toLocaleDateString()}`,
         }),
       });
 
@@ -46,8 +56,14 @@ function SyncResultContent() {
 
       if (data.error) {
         setError(data.error);
+        setUpgradeUrl(data.upgradeUrl || null);
       } else {
         setResult(data);
+
+        // A single source playlist can be kept in sync with the new target
+        if (sourcePlaylistIds?.length === 1) {
+          setSyncJob({ sourcePlaylistId: sourcePlaylistIds[0], targetPlaylistName: playlistName });
+        }
       }
 
       // Clear sessionStorage
@@ -59,6 +75,30 @@ function SyncResultContent() {
     }
   }
 
+  async function keepInSync() {
+    if (!syncJob) return;
+
+    setJobStatus('saving');
+    try {
+      const res = await fetch('/api/sync/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          direction,
+          sourcePlaylistId: syncJob.sourcePlaylistId,
+          targetPlaylistId: result?.playlistId || 'liked',
+          targetPlaylistName: syncJob.targetPlaylistName,
+          schedule: 'daily',
+        }),
+      });
+
+      setJobStatus(res.ok ? 'saved' : 'error');
+    } catch (err) {
+      console.error('Failed to schedule sync:', err);
+      setJobStatus('error');
+    }
+  }
+
   if (syncing) {
     return (
       <div className="flex min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 items-center justify-center">
@@ -78,6 +118,14 @@ function SyncResultContent() {
             <div className="text-6xl mb-4">⚠️</div>
             <h1 className="text-3xl font-bold text-red-400 mb-4">Sync Failed</h1>
             <p className="text-red-200 mb-8 text-lg">{error}</p>
+            {upgradeUrl && (
+              <Link
+                href={upgradeUrl}
+                className="inline-block px-8 py-3 mr-3 bg-white/10 border border-white/20 text-white rounded-xl hover:bg-white/20 transition-all duration-200 font-bold"
+              >
+                Upgrade to Pro
+              </Link>
+            )}
             <Link
               href="/dashboard"
               className="inline-block px-8 py-3 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-xl hover:from-purple-600 hover:to-pink-600 transition-all duration-200 font-bold shadow-lg"
@@ -128,6 +176,24 @@ function SyncResultContent() {
           )}
         </div>
 
+        {syncJob && (
+          <div className="bg-white/5 backdrop-blur-lg border border-white/10 rounded-2xl p-6 mb-8 text-center">
+            <p className="text-purple-200 mb-4">
+              Add new tracks from the source playlist automatically every day
+            </p>
+            <button
+              onClick={keepInSync}
+              disabled={jobStatus === 'saving' || jobStatus === 'saved'}
+              className="px-8 py-3 border border-white/20 text-white rounded-xl hover:bg-white/10 transition-all duration-200 font-medium disabled:opacity-60"
+            >
+              {jobStatus === 'saved' ? '✓ Kept in sync daily' : jobStatus === 'saving' ? 'Saving...' : 'Keep in Sync'}
+            </button>
+            {jobStatus === 'error' && (
+              <p className="text-red-300 text-sm mt-3">Couldn&apos;t schedule this sync. Please try again.</p>
+            )}
+          </div>
+        )}
+
         <div className="flex gap-4 justify-center">
           <Link
             href="/sync"
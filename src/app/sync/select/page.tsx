@@ -2,11 +2,12 @@
 
 import { useEffect, useState, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { getSourcePlatform, getTargetPlatform, PLATFORM_NAMES } from '@/lib/sync/platforms';
 
 interface Playlist {
   id: string;
   name: string;
-  trackCount: number;
+  trackCount?: number; // Not known for liked songs
   imageUrl?: string | null;
 }
 
@@ -19,8 +20,8 @@ function SelectPlaylistsContent() {
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
 
-  const sourcePlatform = direction === 'spotify_to_youtube' ? 'spotify' : 'youtube';
-  const targetPlatform = direction === 'spotify_to_youtube' ? 'youtube' : 'spotify';
+  const sourcePlatform = getSourcePlatform(direction);
+  const targetPlatform = getTargetPlatform(direction);
 
   useEffect(() => {
     fetchPlaylists();
@@ -28,8 +29,7 @@ function SelectPlaylistsContent() {
 
   async function fetchPlaylists() {
     try {
-      const endpoint = sourcePlatform === 'spotify' ? '/api/spotify/playlists' : '/api/youtube/playlists';
-      const res = await fetch(endpoint);
+      const res = await fetch(`/api/providers/playlists?platform=${sourcePlatform}`);
       const data = await res.json();
       setPlaylists(data.playlists || []);
     } catch (error) {
@@ -57,7 +57,7 @@ function SelectPlaylistsContent() {
   }
 
   const selectedPlaylists = playlists.filter((p) => selected.has(p.id));
-  const totalTracks = selectedPlaylists.reduce((sum, p) => sum + p.trackCount, 0);
+  const totalTracks = selectedPlaylists.reduce((sum, p) => sum + (p.trackCount ?? 0), 0);
 
   if (loading) {
     return (
@@ -74,7 +74,7 @@ function SelectPlaylistsContent() {
           <h1 className="text-4xl font-bold text-white mb-3">Select Playlists</h1>
           <p className="text-purple-200 text-lg">Step 2 of 4: Choose playlists to sync</p>
           <div className="mt-3 text-purple-300/80 font-medium">
-            From: {sourcePlatform === 'spotify' ? 'Spotify' : 'YouTube Music'} → To: {targetPlatform === 'spotify' ? 'Spotify' : 'YouTube Music'}
+            From: {PLATFORM_NAMES[sourcePlatform]} → To: {PLATFORM_NAMES[targetPlatform]}
           </div>
         </div>
 
@@ -96,7 +96,9 @@ function SelectPlaylistsContent() {
                   />
                   <div className="flex-1">
                     <div className="font-semibold text-white">{playlist.name}</div>
-                    <div className="text-sm text-purple-200/70">{playlist.trackCount} tracks</div>
+                    {playlist.trackCount !== undefined && (
+                      <div className="text-sm text-purple-200/70">{playlist.trackCount} tracks</div>
+                    )}
                   </div>
                 </label>
               ))}
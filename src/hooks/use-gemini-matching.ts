@@ -1,21 +1,34 @@
 import { useState, useCallback, useRef } from 'react';
-import { UnifiedTrack, MatchResult } from '@/lib/matching/types';
-import { buildSearchQuery } from '@/lib/matching/normalize';
+import { UnifiedTrack, MatchAlternative, MatchResult, TargetSearchOptions } from '@/lib/matching/types';
+import { retrieveCandidates } from '@/lib/matching/retrieval';
+import { applySharedMatch, findBestCandidate } from '@/lib/matching/matcher';
+import { getMatchStatus, ScoreBreakdown } from '@/lib/matching/scoring';
+import { DEFAULT_MATCH_CONFIG } from '@/lib/matching/types';
 
 interface SearchFunction {
   (query: string): Promise<UnifiedTrack[]>;
 }
 
+interface CandidateChoice {
+  match: UnifiedTrack | null;
+  confidence: number;
+  breakdown?: ScoreBreakdown;
+  alternatives?: MatchAlternative[];
+}
+
 export function useGeminiMatching() {
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [isMatching, setIsMatching] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Cleared once the server reports AI matching isn't on the user's plan
+  const aiAvailableRef = useRef(true);
 
   const matchTracks = useCallback(async (
     sources: UnifiedTrack[],
     searchFn: SearchFunction,
     existingIds: Set<string>,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    search: TargetSearchOptions = {}
   ): Promise<MatchResult[]> => {
     setIsMatching(true);
     abortControllerRef.current = new AbortController();
@@ -29,7 +42,8 @@ export function useGeminiMatching() {
 
       // Process tracks with controlled concurrency for both search and Gemini API calls
       const maxConcurrency = 5; // 5 simultaneous tracks being processed
-      const queue = [...sources];
+      // Queue indices, not tracks, so duplicate sources keep their own positions
+      const queue = sources.map((_, index) => index);
       const active = new Set<Promise<void>>();
 
       const processTrack = async (index: number) => {
@@ -40,18 +54,35 @@ export function useGeminiMatching() {
         const source = sources[index];
 
         try {
+          // Step 0: Reuse a match an earlier sync already found
+          const cached = await search.cache?.lookup(source).catch(() => null);
+          if (cached && !cached.confirmedByOthers) {
+            const confidence = cached.userConfirmed ? 0.99 : cached.confidence;
+            const status = getMatchStatus(cached.target, confidence, existingIdsArray);
+            results[index] = {
+              source,
+              target: cached.target,
+              confidence,
+              status,
+              existingId: status === 'already_exists' ? cached.target.id : undefined,
+              fromCache: true,
+            };
+            completed++;
+            setProgress({ current: completed, total: sources.length });
+            onProgress?.(completed, sources.length);
+            return;
+          }
+
           // Step 1: Search for candidates (with delay)
           await delay(200);
-          const query = buildSearchQuery(source);
-          const candidates = await searchFn(query);
+          const candidates = await retrieveCandidates(source, searchFn, DEFAULT_MATCH_CONFIG, search);
 
           if (candidates.length === 0) {
-            results[index] = {
-              source,
-              target: null,
-              confidence: 0,
-              status: 'not_found'
-            };
+            results[index] = applySharedMatch(
+              { source, target: null, confidence: 0, status: 'not_found' },
+              cached,
+              existingIdsArray
+            );
             completed++;
             setProgress({ current: completed, total: sources.length });
             onProgress?.(completed, sources.length);
@@ -60,27 +91,26 @@ export function useGeminiMatching() {
 
           // Step 2: Use Gemini AI to find best match
           await delay(300); // Rate limit Gemini
-          const geminiResult = await callGeminiAPI(source, candidates);
-
-          // Simple categorization: if Gemini found a match, show it
-          let status: 'matched' | 'low_confidence' | 'not_found' | 'already_exists' = 'not_found';
-
-          if (geminiResult.match) {
-            if (existingIdsArray.includes(geminiResult.match.id)) {
-              status = 'already_exists';
-            } else {
-              // Categorize based on Gemini's confidence
-              status = geminiResult.confidence >= 0.70 ? 'matched' : 'low_confidence';
-            }
-          }
+          const geminiResult = aiAvailableRef.current
+            ? await callGeminiAPI(source, candidates, aiAvailableRef)
+            : matchLocally(source, candidates);
 
-          results[index] = {
-            source,
-            target: geminiResult.match,
-            confidence: geminiResult.confidence,
-            status,
-            existingId: status === 'already_exists' ? geminiResult.match?.id : undefined
-          };
+          // Same thresholds as fuzzy matching, whichever produced the confidence
+          const status = getMatchStatus(geminiResult.match, geminiResult.confidence, existingIdsArray);
+
+          results[index] = applySharedMatch(
+            {
+              source,
+              target: geminiResult.match,
+              confidence: geminiResult.confidence,
+              status,
+              existingId: status === 'already_exists' ? geminiResult.match?.id : undefined,
+              breakdown: geminiResult.breakdown,
+              alternatives: geminiResult.alternatives,
+            },
+            cached,
+            existingIdsArray
+          );
 
           completed++;
           setProgress({ current: completed, total: sources.length });
@@ -107,8 +137,7 @@ export function useGeminiMatching() {
 
         // Start new tasks up to concurrency limit
         while (active.size < maxConcurrency && queue.length > 0) {
-          const source = queue.shift()!;
-          const index = sources.indexOf(source);
+          const index = queue.shift()!;
 
           const promise = processTrack(index).finally(() => {
             active.delete(promise);
@@ -123,7 +152,8 @@ export function useGeminiMatching() {
         }
       }
 
-      return results;
+      // Tracks finish out of order; record where each came from
+      return results.map((result, index) => ({ ...result, sourcePosition: index }));
     } finally {
       setIsMatching(false);
     }
@@ -142,10 +172,29 @@ export function useGeminiMatching() {
   };
 }
 
-async function callGeminiAPI(
+/**
+ * Fuzzy-score candidates in the browser, for plans without AI matching
+ */
+function matchLocally(
   sourceTrack: UnifiedTrack,
   candidates: UnifiedTrack[]
-): Promise<{ match: UnifiedTrack | null; confidence: number }> {
+): CandidateChoice {
+  const { match, score, breakdown, alternatives } = findBestCandidate(sourceTrack, candidates);
+
+  if (!match || score < DEFAULT_MATCH_CONFIG.lowConfidenceThreshold) {
+    // Too weak to pick, but still worth offering
+    const best = match && breakdown ? [{ track: match, confidence: score, breakdown }] : [];
+    return { match: null, confidence: score, alternatives: [...best, ...alternatives] };
+  }
+
+  return { match, confidence: score, breakdown, alternatives };
+}
+
+async function callGeminiAPI(
+  sourceTrack: UnifiedTrack,
+  candidates: UnifiedTrack[],
+  aiAvailableRef: { current: boolean }
+): Promise<CandidateChoice> {
   // Call server-side API to keep API key secure
   try {
     const response = await fetch('/api/sync/match-gemini', {
@@ -157,6 +206,12 @@ async function callGeminiAPI(
       }),
     });
 
+    // Not on the plan (403) or no LLM backend on the server (503)
+    if (response.status === 403 || response.status === 503) {
+      aiAvailableRef.current = false;
+      return matchLocally(sourceTrack, candidates);
+    }
+
     if (!response.ok) {
       console.error('[Gemini Hook] Server error:', response.status);
       return { match: null, confidence: 0 };
@@ -166,6 +221,8 @@ async function callGeminiAPI(
     return {
       match: data.match || null,
       confidence: data.confidence || 0,
+      breakdown: data.breakdown,
+      alternatives: data.alternatives,
     };
   } catch (error: any) {
     console.error('[Gemini Hook] Error:', error);
@@ -1,6 +1,14 @@
 import { useState, useCallback, useRef } from 'react';
-import { UnifiedTrack, MatchResult, MatchConfig, DEFAULT_MATCH_CONFIG } from '@/lib/matching/types';
-import { buildSearchQuery } from '@/lib/matching/normalize';
+import {
+  UnifiedTrack,
+  MatchResult,
+  MatchConfig,
+  DEFAULT_MATCH_CONFIG,
+  TargetSearchOptions,
+} from '@/lib/matching/types';
+import { retrieveCandidates } from '@/lib/matching/retrieval';
+import { applySharedMatch } from '@/lib/matching/matcher';
+import { getMatchStatus } from '@/lib/matching/scoring';
 
 interface SearchFunction {
   (query: string): Promise<UnifiedTrack[]>;
@@ -31,7 +39,8 @@ export function useParallelMatching() {
     searchFn: SearchFunction,
     existingIds: Set<string>,
     config: MatchConfig = DEFAULT_MATCH_CONFIG,
-    onProgress?: (current: number, total: number) => void
+    onProgress?: (current: number, total: number) => void,
+    search: TargetSearchOptions = {}
   ): Promise<MatchResult[]> => {
     setIsMatching(true);
     abortControllerRef.current = new AbortController();
@@ -49,7 +58,8 @@ export function useParallelMatching() {
 
       // Process tracks with controlled concurrency for API calls
       const concurrency = 3; // Max 3 simultaneous searches to respect rate limits
-      const queue = [...sources];
+      // Queue indices, not tracks, so duplicate sources keep their own positions
+      const queue = sources.map((_, index) => index);
       const active = new Set<Promise<void>>();
 
       const processTrack = async (index: number) => {
@@ -59,10 +69,28 @@ export function useParallelMatching() {
 
         const source = sources[index];
 
-        // Step 1: Make API search call (rate-limited)
+        // Step 0: Reuse a match an earlier sync already found
+        const cached = await search.cache?.lookup(source).catch(() => null);
+        if (cached && !cached.confirmedByOthers) {
+          const confidence = cached.userConfirmed ? 0.99 : cached.confidence;
+          const status = getMatchStatus(cached.target, confidence, existingIdsArray, config);
+          results[index] = {
+            source,
+            target: cached.target,
+            confidence,
+            status,
+            existingId: status === 'already_exists' ? cached.target.id : undefined,
+            fromCache: true,
+          };
+          completed++;
+          setProgress({ current: completed, total: sources.length });
+          onProgress?.(completed, sources.length);
+          return;
+        }
+
+        // Step 1: Make API search calls (rate-limited)
         await delay(200); // Rate limiting delay
-        const query = buildSearchQuery(source);
-        const candidates = await searchFn(query);
+        const candidates = await retrieveCandidates(source, searchFn, config, search);
 
         // Step 2: Offload CPU-intensive matching to worker
         const workerIndex = index % workers.length;
@@ -92,7 +120,7 @@ export function useParallelMatching() {
           });
         });
 
-        results[index] = result;
+        results[index] = applySharedMatch(result, cached, existingIdsArray, config);
         completed++;
 
         const progressData = { current: completed, total: sources.length };
@@ -108,8 +136,8 @@ export function useParallelMatching() {
 
         // Start new tasks up to concurrency limit
         while (active.size < concurrency && queue.length > 0) {
-          const source = queue.shift()!;
-          const index = sources.indexOf(source);
+          const index = queue.shift()!;
+          const source = sources[index];
 
           const promise = processTrack(index)
             .catch((error) => {
@@ -136,7 +164,8 @@ export function useParallelMatching() {
         }
       }
 
-      return results;
+      // Tracks finish out of order; record where each came from
+      return results.map((result, index) => ({ ...result, sourcePosition: index }));
     } finally {
       setIsMatching(false);
       // Clean up workers
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import type { Platform, ProviderCapabilities } from '@/lib/providers/base';
+
+type CapabilitiesByPlatform = Partial<Record<Platform, ProviderCapabilities>>;
+
+/**
+ * Capabilities of every registered provider, so pages can hide actions a
+ * platform doesn't support. Empty until loaded.
+ */
+export function useProviderCapabilities(): CapabilitiesByPlatform {
+  const [capabilities, setCapabilities] = useState<CapabilitiesByPlatform>({});
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch('/api/providers/search', { method: 'OPTIONS' })
+      .then((res) => res.json())
+      .then((data: { platforms: { platform: Platform; capabilities: ProviderCapabilities }[] }) => {
+        if (cancelled) return;
+        setCapabilities(
+          Object.fromEntries(data.platforms.map((p) => [p.platform, p.capabilities]))
+        );
+      })
+      .catch((error) => console.error('Failed to load provider capabilities:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return capabilities;
+}
@@ -0,0 +1,390 @@
+/**
+ * Library Backups
+ *
+ * A backup is a ZIP archive of one platform account: manifest.json describes
+ * the archive and lists every playlist, and each playlist (liked tracks
+ * included) is a file under playlists/ in the JSON export format from
+ * ../export. Restoring stores the chosen playlists as a RestoreRecord and
+ * feeds their tracks back through matching onto the same or another
+ * platform, one batch per request.
+ */
+
+import { getProvider } from '../providers';
+import { getStorage } from '../storage';
+import type { RestorePlaylistProgress, RestoreRecord } from '../storage';
+import type { Platform, Track } from '../providers/base';
+import { deduplicateResults, matchTracks } from '../matching/matcher';
+import { DEFAULT_MATCH_CONFIG } from '../matching/types';
+import { SessionData } from '../session';
+import { checkEntitlement, recordTracksTransferred } from '../entitlements';
+import { getExporter, ExportPlaylist } from '../export';
+import { getPlatformAccessToken } from '../sync/connections';
+import { LIBRARY_SCAN_LIMIT } from '../sync/dedup';
+import { isPlatform, toProviderTrackId, LIKED_TRACKS_URLS, PLATFORM_NAMES } from '../sync/platforms';
+import { getPlatformSearch } from '../sync/search';
+import { createZip, readZip, ZipEntry, ZipFormatError } from './zip';
+
+export const BACKUP_FORMAT = 'spotifyt-library-backup';
+
+// Bump when the layout changes in a way older readers can't handle
+export const BACKUP_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+
+export interface BackupPlaylistEntry {
+  file: string; // Path inside the archive
+  id: string; // Playlist ID on the backed-up platform, or 'liked'
+  name: string;
+  description?: string;
+  externalUrl?: string;
+  trackCount: number;
+}
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  platform: Platform;
+  account: { id: string; displayName: string };
+  playlists: BackupPlaylistEntry[];
+  skipped: { id: string; name: string; error: string }[]; // Playlists that couldn't be read
+}
+
+export interface BackupPlaylist {
+  entry: BackupPlaylistEntry;
+  tracks: Track[];
+}
+
+export interface RestoreResult {
+  file: string;
+  name: string;
+  playlistId?: string; // Where the tracks went on the target platform
+  playlistUrl?: string;
+  restored: number; // Tracks tried so far
+  trackCount: number;
+  added: number;
+  lowConfidence: number; // Left out: restores run unattended
+  notFound: number;
+  error?: string;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+function playlistFile(index: number, name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `playlists/${String(index + 1).padStart(3, '0')}${slug ? `-${slug}` : ''}.json`;
+}
+
+function serializePlaylist(playlist: ExportPlaylist, tracks: Track[]): Buffer {
+  return Buffer.from(Array.from(getExporter('json').serialize(playlist, tracks)).join(''), 'utf-8');
+}
+
+/**
+ * Back up every playlist the platform lists for the account, plus the liked
+ * tracks where the platform can list them, up to LIBRARY_SCAN_LIMIT of each.
+ * A playlist that fails to load is recorded in `skipped` instead of failing
+ * the whole backup.
+ */
+export async function createLibraryBackup(
+  session: SessionData,
+  platform: Platform
+): Promise<{ manifest: BackupManifest; archive: Buffer }> {
+  const provider = getProvider(platform);
+  const accessToken = await getPlatformAccessToken(session, platform);
+  const profile = await provider.getUserProfile(accessToken);
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    platform,
+    account: { id: profile.id, displayName: profile.displayName },
+    playlists: [],
+    skipped: [],
+  };
+  const files: ZipEntry[] = [];
+
+  const add = (playlist: ExportPlaylist, tracks: Track[]) => {
+    const file = playlistFile(manifest.playlists.length, playlist.name);
+    manifest.playlists.push({
+      file,
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description,
+      externalUrl: playlist.externalUrl,
+      trackCount: tracks.length,
+    });
+    files.push({ name: file, data: serializePlaylist(playlist, tracks) });
+  };
+
+  if (provider.capabilities.likedTracks.read) {
+    const liked = await provider.getLikedTracks(accessToken, LIBRARY_SCAN_LIMIT);
+    add({ id: 'liked', platform, name: 'Liked Songs', externalUrl: LIKED_TRACKS_URLS[platform] }, liked);
+  }
+
+  for (const summary of await provider.getUserPlaylists(accessToken, LIBRARY_SCAN_LIMIT)) {
+    try {
+      const { tracks = [], ...playlist } = await provider.getPlaylist(accessToken, summary.id);
+      add(
+        {
+          id: playlist.id,
+          platform,
+          name: playlist.name || summary.name,
+          description: playlist.description,
+          externalUrl: playlist.externalUrl,
+        },
+        tracks
+      );
+    } catch (error: any) {
+      console.error(`[Backup] Failed to read ${PLATFORM_NAMES[platform]} playlist ${summary.id}:`, error);
+      manifest.skipped.push({ id: summary.id, name: summary.name, error: error.message || 'Failed to read playlist' });
+    }
+  }
+
+  const archive = createZip([
+    { name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8') },
+    ...files,
+  ]);
+
+  return { manifest, archive };
+}
+
+function parseJson(data: Buffer | undefined, file: string): unknown {
+  if (!data) throw new BackupFormatError(`Backup is missing ${file}`);
+  try {
+    return JSON.parse(data.toString('utf-8'));
+  } catch {
+    throw new BackupFormatError(`Backup file ${file} is not valid JSON`);
+  }
+}
+
+// Tracks as written by serializePlaylist, tolerating hand-edited files
+function parseTrack(value: unknown, platform: Platform): Track | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const track = value as Record<string, unknown>;
+  if (typeof track.id !== 'string' || typeof track.title !== 'string') return null;
+
+  const artists = Array.isArray(track.artists) ? track.artists.filter((a): a is string => typeof a === 'string') : [];
+  const artist = typeof track.artist === 'string' ? track.artist : artists.join(', ');
+
+  return {
+    id: track.id,
+    platform: isPlatform(track.platform) ? track.platform : platform,
+    title: track.title,
+    artist,
+    artists: artists.length > 0 ? artists : [artist],
+    album: typeof track.album === 'string' ? track.album : undefined,
+    durationMs: typeof track.durationMs === 'number' ? track.durationMs : 0,
+    isrc: typeof track.isrc === 'string' ? track.isrc : undefined,
+    videoId: typeof track.videoId === 'string' ? track.videoId : undefined,
+    externalUrl: typeof track.externalUrl === 'string' ? track.externalUrl : undefined,
+  };
+}
+
+/**
+ * Open a backup archive. With `files`, only those playlists are read;
+ * throws BackupFormatError for archives this version can't restore.
+ */
+export function readLibraryBackup(
+  archive: Buffer,
+  files?: string[]
+): { manifest: BackupManifest; playlists: BackupPlaylist[] } {
+  let contents: Map<string, Buffer>;
+  try {
+    contents = readZip(archive);
+  } catch (error) {
+    if (error instanceof ZipFormatError) throw new BackupFormatError(error.message);
+    throw error;
+  }
+
+  const value = parseJson(contents.get(MANIFEST_FILE), MANIFEST_FILE);
+  if (!value || typeof value !== 'object') {
+    throw new BackupFormatError('Not a library backup');
+  }
+
+  const manifest = value as BackupManifest;
+  if (manifest.format !== BACKUP_FORMAT || typeof manifest.version !== 'number') {
+    throw new BackupFormatError('Not a library backup');
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Backup version ${manifest.version} is newer than this app supports`);
+  }
+  if (!isPlatform(manifest.platform) || !Array.isArray(manifest.playlists)) {
+    throw new BackupFormatError('Backup manifest is incomplete');
+  }
+  manifest.skipped = Array.isArray(manifest.skipped) ? manifest.skipped : [];
+
+  const wanted = files ? manifest.playlists.filter((entry) => files.includes(entry.file)) : manifest.playlists;
+
+  const playlists = wanted.map((entry) => {
+    const data = parseJson(contents.get(entry.file), entry.file);
+    const items = data && typeof data === 'object' ? (data as Record<string, unknown>).tracks : undefined;
+    const tracks = (Array.isArray(items) ? items : [])
+      .map((track) => parseTrack(track, manifest.platform))
+      .filter((track): track is Track => !!track);
+
+    return { entry, tracks };
+  });
+
+  return { manifest, playlists };
+}
+
+// Tracks restored per request: small enough for a cross-platform batch to
+// search and add within a route timeout
+export const RESTORE_BATCH_SIZE = 100;
+
+/**
+ * Store the chosen playlists of a backup as a restore onto `targetPlatform`.
+ * Nothing is added until restoreNextBatch runs.
+ */
+export async function startRestore(
+  userId: string,
+  manifest: BackupManifest,
+  playlists: BackupPlaylist[],
+  targetPlatform: Platform
+): Promise<RestoreRecord> {
+  return getStorage().createRestore({
+    userId,
+    sourcePlatform: manifest.platform,
+    targetPlatform,
+    backupCreatedAt: manifest.createdAt,
+    playlists: playlists.map(({ entry, tracks }) => ({
+      file: entry.file,
+      sourceId: entry.id,
+      name: entry.name,
+      description: entry.description,
+      trackCount: tracks.length,
+      offset: 0,
+      addedIds: [],
+      added: 0,
+      lowConfidence: 0,
+      notFound: 0,
+    })),
+    tracks: Object.fromEntries(playlists.map(({ entry, tracks }) => [entry.file, tracks])),
+  });
+}
+
+export function isRestorePlaylistDone(progress: RestorePlaylistProgress): boolean {
+  return progress.error !== undefined || (progress.playlistId !== undefined && progress.offset >= progress.trackCount);
+}
+
+export function getRestoreResults(restore: RestoreRecord): RestoreResult[] {
+  return restore.playlists.map((progress) => ({
+    file: progress.file,
+    name: progress.name,
+    playlistId: progress.playlistId,
+    playlistUrl: progress.playlistUrl,
+    restored: progress.offset,
+    trackCount: progress.trackCount,
+    added: progress.added,
+    lowConfidence: progress.lowConfidence,
+    notFound: progress.notFound,
+    error: progress.error,
+  }));
+}
+
+/**
+ * Restore the next batch of tracks of `playlist`, creating the playlist on
+ * the first one. Restoring onto the platform the backup came from reuses the
+ * track IDs; any other platform goes through the matcher and only confident
+ * matches are added. Liked tracks go back to the liked library where the
+ * platform allows it, or into a new playlist otherwise.
+ */
+async function restoreBatch(
+  session: SessionData,
+  restore: RestoreRecord,
+  progress: RestorePlaylistProgress
+): Promise<void> {
+  const { sourcePlatform, targetPlatform } = restore;
+  const provider = getProvider(targetPlatform);
+  const batch = (restore.tracks[progress.file] ?? []).slice(progress.offset, progress.offset + RESTORE_BATCH_SIZE);
+
+  let trackIds: string[];
+  if (targetPlatform === sourcePlatform) {
+    trackIds = batch.map((track) => track.videoId || track.id);
+  } else {
+    const search = await getPlatformSearch(session, targetPlatform, { userId: restore.userId });
+    const results = deduplicateResults(
+      await matchTracks(batch, search.searchFn, new Set(), DEFAULT_MATCH_CONFIG, undefined, search)
+    );
+
+    trackIds = results.filter((r) => r.status === 'matched' && r.target).map((r) => r.target!.videoId || r.target!.id);
+    progress.lowConfidence += results.filter((r) => r.status === 'low_confidence').length;
+    progress.notFound += results.filter((r) => r.status === 'not_found').length;
+  }
+  const added = new Set(progress.addedIds);
+  trackIds = Array.from(new Set(trackIds.map((id) => toProviderTrackId(targetPlatform, id)))).filter(
+    (id) => !added.has(id)
+  );
+
+  if (trackIds.length > 0) {
+    const denial = checkEntitlement(session, { feature: 'tracks', count: trackIds.length });
+    if (denial) {
+      progress.error = denial.error;
+      return;
+    }
+  }
+
+  const accessToken = await getPlatformAccessToken(session, targetPlatform);
+  const liked = progress.sourceId === 'liked' && provider.capabilities.likedTracks.write;
+
+  if (!progress.playlistId) {
+    if (liked) {
+      progress.playlistId = 'liked';
+      progress.playlistUrl = LIKED_TRACKS_URLS[targetPlatform];
+    } else {
+      const playlist = await provider.createPlaylist(
+        accessToken,
+        progress.name,
+        progress.description ||
+          `Restored from a ${PLATFORM_NAMES[sourcePlatform]} backup of ${restore.backupCreatedAt.slice(0, 10)}`,
+        false
+      );
+      progress.playlistId = playlist.id;
+      progress.playlistUrl = playlist.externalUrl;
+    }
+  }
+
+  if (trackIds.length > 0) {
+    if (liked) {
+      await provider.addToLikedTracks(accessToken, trackIds);
+    } else {
+      await provider.addTracksToPlaylist(accessToken, progress.playlistId, trackIds);
+    }
+  }
+
+  progress.offset += batch.length;
+  progress.added += trackIds.length;
+  progress.addedIds.push(...trackIds);
+  recordTracksTransferred(session, trackIds.length);
+}
+
+/**
+ * Restore the next batch of the first unfinished playlist and store the
+ * progress. A playlist that fails is marked with its error and the next one
+ * continues. Refreshed tokens and usage are written onto `session`; the
+ * caller saves it.
+ */
+export async function restoreNextBatch(session: SessionData, restore: RestoreRecord): Promise<RestoreRecord> {
+  const index = restore.playlists.findIndex((progress) => !isRestorePlaylistDone(progress));
+  if (index < 0) return restore;
+
+  const progress = structuredClone(restore.playlists[index]);
+  try {
+    await restoreBatch(session, restore, progress);
+  } catch (error: any) {
+    console.error(`[Restore] Failed to restore ${progress.file}:`, error);
+    progress.error = error.message || 'Failed to restore playlist';
+  }
+
+  const playlists = restore.playlists.map((p, i) => (i === index ? progress : p));
+  await getStorage().updateRestore(restore.id, { playlists });
+
+  return { ...restore, playlists };
+}
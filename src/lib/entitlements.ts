@@ -0,0 +1,143 @@
+/**
+ * Entitlements
+ *
+ * Central check of what the current user's plan allows, used by every route
+ * that transfers tracks, uses AI matching or links a platform. Limits come
+ * from STRIPE_CONFIG.features; usage is counted in tracks transferred per
+ * calendar month.
+ */
+
+import { NextResponse } from 'next/server';
+import type { SessionData } from './session';
+import type { Platform } from './providers/base';
+import { PLATFORM_NAMES } from './sync/platforms';
+import { getFeatures, isPlatformAllowed, SubscriptionTier } from './stripe/config';
+
+const UPGRADE_URL = '/pricing';
+
+export type EntitlementRequest =
+  | { feature: 'platform'; platform: Platform }
+  | { feature: 'aiMatching' }
+  | { feature: 'tracks'; count: number };
+
+export interface EntitlementDenial {
+  status: 402 | 403;
+  code: 'monthly_limit_reached' | 'platform_requires_pro' | 'feature_requires_pro';
+  error: string;
+  tier: SubscriptionTier;
+  upgradeUrl: string;
+  limit?: number;
+  used?: number;
+  remaining?: number;
+}
+
+/**
+ * The tier the user is entitled to right now. A past-due Pro subscription
+ * keeps Pro until its grace period runs out.
+ */
+export function getEffectiveTier(session: SessionData): SubscriptionTier {
+  const subscription = session.subscription;
+  if (subscription?.tier !== 'pro') return 'free';
+
+  if (subscription.graceUntil && subscription.graceUntil < Date.now()) {
+    return 'free';
+  }
+
+  return 'pro';
+}
+
+/**
+ * Make sure the session has a subscription record and reset the monthly
+ * usage counter when a new calendar month has started. Returns true if the
+ * session changed and needs saving.
+ */
+export function resetMonthlyUsageIfNeeded(session: SessionData): boolean {
+  const now = new Date();
+  // The start of the month, so concurrent resets agree on the period
+  const periodStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+  if (!session.subscription) {
+    session.subscription = { tier: 'free', monthlySyncs: 0, lastResetDate: periodStart };
+    return true;
+  }
+
+  const lastReset = new Date(session.subscription.lastResetDate || 0);
+  if (
+    lastReset.getFullYear() !== now.getFullYear() ||
+    lastReset.getMonth() !== now.getMonth()
+  ) {
+    session.subscription.monthlySyncs = 0;
+    session.subscription.lastResetDate = periodStart;
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Check a request against the user's plan. Returns null when allowed, or a
+ * denial describing why and how to upgrade.
+ */
+export function checkEntitlement(
+  session: SessionData,
+  request: EntitlementRequest
+): EntitlementDenial | null {
+  resetMonthlyUsageIfNeeded(session);
+
+  const tier = getEffectiveTier(session);
+  const features = getFeatures(tier);
+  const denial = { tier, upgradeUrl: UPGRADE_URL };
+
+  switch (request.feature) {
+    case 'platform':
+      if (isPlatformAllowed(tier, request.platform)) return null;
+      return {
+        ...denial,
+        status: 403,
+        code: 'platform_requires_pro',
+        error: `${PLATFORM_NAMES[request.platform]} is available on the Pro plan`,
+      };
+
+    case 'aiMatching':
+      if (features.aiMatching) return null;
+      return {
+        ...denial,
+        status: 403,
+        code: 'feature_requires_pro',
+        error: 'AI matching is available on the Pro plan',
+      };
+
+    case 'tracks': {
+      const limit = features.monthlySyncLimit;
+      const used = session.subscription?.monthlySyncs || 0;
+      if (used + request.count <= limit) return null;
+
+      const remaining = Math.max(0, limit - used);
+      return {
+        ...denial,
+        status: 402,
+        code: 'monthly_limit_reached',
+        error:
+          remaining > 0
+            ? `Only ${remaining} of your ${limit} monthly tracks are left; upgrade to Pro to sync ${request.count}`
+            : `You've used all ${limit} tracks of this month's sync limit`,
+        limit,
+        used,
+        remaining,
+      };
+    }
+  }
+}
+
+/**
+ * Count tracks transferred against the monthly limit. Callers save the session.
+ */
+export function recordTracksTransferred(session: SessionData, count: number): void {
+  resetMonthlyUsageIfNeeded(session);
+  session.subscription!.monthlySyncs = (session.subscription!.monthlySyncs || 0) + count;
+}
+
+export function entitlementErrorResponse(denial: EntitlementDenial): NextResponse {
+  const { status, ...body } = denial;
+  return NextResponse.json(body, { status });
+}
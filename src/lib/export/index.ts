@@ -0,0 +1,173 @@
+/**
+ * Playlist Export
+ *
+ * Serializers for getting a playlist (or liked tracks) out of a platform as a
+ * file. Each yields the file piece by piece so routes can stream it; every
+ * format carries platform IDs, ISRC, album, duration and external URLs where
+ * the platform provides them. The same formats are read back by ../import.
+ */
+
+import type { Platform, Playlist, Track } from '../providers/base';
+
+export type ExportFormat = 'csv' | 'json' | 'm3u8' | 'xspf';
+
+/**
+ * The playlist being exported, without its tracks
+ */
+export type ExportPlaylist = Pick<Playlist, 'id' | 'name' | 'description' | 'externalUrl'> & {
+  platform: Platform;
+};
+
+export interface PlaylistExporter {
+  format: ExportFormat;
+  extension: string;
+  contentType: string;
+  serialize(playlist: ExportPlaylist, tracks: Track[]): Iterable<string>;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'm3u8', 'xspf'];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Platform URI for tracks without a web link, e.g. "deezer:track:3135556"
+function trackLocation(track: Track): string {
+  return track.externalUrl || `${track.platform}:track:${track.id}`;
+}
+
+// ===== CSV =====
+
+const CSV_COLUMNS = ['Position', 'Platform', 'Track ID', 'Track Name', 'Artist Name(s)', 'Album Name', 'Duration (ms)', 'ISRC', 'URL'];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvExporter: PlaylistExporter = {
+  format: 'csv',
+  extension: 'csv',
+  contentType: 'text/csv; charset=utf-8',
+
+  // Headers follow Exportify so spreadsheets and ../import/csv recognize them
+  *serialize(_playlist, tracks) {
+    yield CSV_COLUMNS.join(',') + '\r\n';
+
+    for (const [index, track] of tracks.entries()) {
+      yield [
+        index + 1,
+        track.platform,
+        track.id,
+        track.title,
+        track.artists.length > 0 ? track.artists.join(', ') : track.artist,
+        track.album,
+        track.durationMs || undefined,
+        track.isrc,
+        track.externalUrl,
+      ].map(csvField).join(',') + '\r\n';
+    }
+  },
+};
+
+// ===== JSON =====
+
+const jsonExporter: PlaylistExporter = {
+  format: 'json',
+  extension: 'json',
+  contentType: 'application/json; charset=utf-8',
+
+  *serialize(playlist, tracks) {
+    const header = JSON.stringify({ playlist, exportedAt: new Date().toISOString(), trackCount: tracks.length });
+    yield header.slice(0, -1) + ',"tracks":[';
+
+    for (const [index, track] of tracks.entries()) {
+      // Leave out the raw API payload (JSON drops undefined fields)
+      yield (index > 0 ? ',' : '') + '\n' + JSON.stringify({ ...track, raw: undefined });
+    }
+
+    yield '\n]}\n';
+  },
+};
+
+// ===== M3U8 =====
+
+const m3u8Exporter: PlaylistExporter = {
+  format: 'm3u8',
+  extension: 'm3u8',
+  contentType: 'audio/x-mpegurl; charset=utf-8',
+
+  *serialize(playlist, tracks) {
+    yield `#EXTM3U\n#PLAYLIST:${playlist.name.replace(/[\r\n]+/g, ' ')}\n`;
+
+    for (const track of tracks) {
+      const seconds = track.durationMs > 0 ? Math.round(track.durationMs / 1000) : -1;
+      const name = `${track.artist} - ${track.title}`.replace(/[\r\n]+/g, ' ');
+      const album = track.album ? `#EXTALB:${track.album.replace(/[\r\n]+/g, ' ')}\n` : '';
+      yield `#EXTINF:${seconds},${name}\n${album}${trackLocation(track)}\n`;
+    }
+  },
+};
+
+// ===== XSPF =====
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xmlElement(tag: string, value: string | number | undefined): string {
+  return value === undefined || value === '' ? '' : `      <${tag}>${escapeXml(String(value))}</${tag}>\n`;
+}
+
+const xspfExporter: PlaylistExporter = {
+  format: 'xspf',
+  extension: 'xspf',
+  contentType: 'application/xspf+xml; charset=utf-8',
+
+  *serialize(playlist, tracks) {
+    yield '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<playlist version="1" xmlns="http://xspf.org/ns/0/">\n' +
+      `  <title>${escapeXml(playlist.name)}</title>\n` +
+      (playlist.description ? `  <annotation>${escapeXml(playlist.description)}</annotation>\n` : '') +
+      (playlist.externalUrl ? `  <location>${escapeXml(playlist.externalUrl)}</location>\n` : '') +
+      `  <date>${new Date().toISOString()}</date>\n` +
+      '  <trackList>\n';
+
+    for (const track of tracks) {
+      yield '    <track>\n' +
+        xmlElement('location', trackLocation(track)) +
+        xmlElement('identifier', `${track.platform}:track:${track.id}`) +
+        xmlElement('identifier', track.isrc && `isrc:${track.isrc}`) +
+        xmlElement('title', track.title) +
+        xmlElement('creator', track.artist) +
+        xmlElement('album', track.album) +
+        xmlElement('duration', track.durationMs > 0 ? track.durationMs : undefined) +
+        '    </track>\n';
+    }
+
+    yield '  </trackList>\n</playlist>\n';
+  },
+};
+
+const EXPORTERS: Record<ExportFormat, PlaylistExporter> = {
+  csv: csvExporter,
+  json: jsonExporter,
+  m3u8: m3u8Exporter,
+  xspf: xspfExporter,
+};
+
+export function getExporter(format: ExportFormat): PlaylistExporter {
+  return EXPORTERS[format];
+}
+
+/**
+ * A download name for the playlist, e.g. "Road Trip 2024.csv"
+ */
+export function exportFilename(playlist: ExportPlaylist, format: ExportFormat): string {
+  const base = playlist.name.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim() || 'playlist';
+  return `${base}.${EXPORTERS[format].extension}`;
+}
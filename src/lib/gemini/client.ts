@@ -1,12 +1,23 @@
-import { UnifiedTrack, MatchResult } from '@/lib/matching/types';
-
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-lite:generateContent';
-
-interface GeminiMatchRequest {
-  sourceTrack: UnifiedTrack;
-  candidates: UnifiedTrack[];
-}
+/**
+ * AI Matching
+ *
+ * Lets a language model pick the best candidate, with the shared scorer's
+ * view as a hint and as the fallback. Named for Gemini, its first backend;
+ * any configured LLM backend works (see lib/llm).
+ */
+
+import {
+  UnifiedTrack,
+  MatchAlternative,
+  MatchResult,
+  MatchConfig,
+  DEFAULT_MATCH_CONFIG,
+  TargetSearchOptions,
+} from '@/lib/matching/types';
+import { getAlternatives, getMatchStatus, rankCandidates, ScoreBreakdown } from '@/lib/matching/scoring';
+import { retrieveCandidates } from '@/lib/matching/retrieval';
+import { applySharedMatch } from '@/lib/matching/matcher';
+import { generateJson, getLlmClient, JsonSchema } from '@/lib/llm';
 
 interface GeminiMatchResponse {
   bestMatchIndex: number | null;
@@ -14,36 +25,66 @@ interface GeminiMatchResponse {
   reasoning: string;
 }
 
+const MATCH_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['bestMatchIndex', 'confidence'],
+  properties: {
+    bestMatchIndex: { type: ['integer', 'null'], minimum: -1 },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    reasoning: { type: 'string' },
+  },
+};
+
+/**
+ * `model` overrides the backend's default model for this request
+ */
 export async function matchWithGemini(
   sourceTrack: UnifiedTrack,
-  candidates: UnifiedTrack[]
-): Promise<{ match: UnifiedTrack | null; confidence: number; reasoning: string }> {
-  // Validate API key
-  if (!GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable not set');
+  candidates: UnifiedTrack[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  model?: string
+): Promise<{
+  match: UnifiedTrack | null;
+  confidence: number;
+  reasoning: string;
+  breakdown?: ScoreBreakdown;
+  alternatives: MatchAlternative[];
+}> {
+  const llm = getLlmClient();
+  if (!llm) {
+    throw new Error('No LLM backend configured');
   }
 
   if (candidates.length === 0) {
-    return { match: null, confidence: 0, reasoning: 'No candidates provided' };
+    return { match: null, confidence: 0, reasoning: 'No candidates provided', alternatives: [] };
   }
 
+  // The shared scorer's view of each candidate, given to the model as a hint
+  // and used as the fallback if the model can't answer
+  const scored = rankCandidates(sourceTrack, candidates, config);
+  const breakdownOf = (track: UnifiedTrack) =>
+    scored.find((s) => s.track === track)?.breakdown;
+
   const prompt = `You are a music matching expert. Your task is to find the best match for a source track among candidate tracks.
 
 Source Track:
 - Title: "${sourceTrack.title}"
 - Artist: "${sourceTrack.artist}"
+- Album: "${sourceTrack.album || 'Unknown'}"
 - Duration: ${Math.round(sourceTrack.durationMs / 1000)} seconds
 
 Candidate Tracks:
-${candidates.map((c, i) => `${i}. Title: "${c.title}" | Artist: "${c.artist}" | Duration: ${Math.round(c.durationMs / 1000)} seconds`).join('\n')}
+${candidates.map((c, i) => `${i}. Title: "${c.title}" | Artist: "${c.artist}" | Album: "${c.album || 'Unknown'}" | Duration: ${Math.round(c.durationMs / 1000)} seconds | Similarity: ${breakdownOf(c)?.total.toFixed(2)}`).join('\n')}
 
 Instructions:
 1. Consider variations in titles (e.g., "Official Video", "Lyrics", "Remaster", different spellings)
+   but a different version (live, remix, acoustic, instrumental, karaoke, sped up, slowed) is NOT the same track
 2. Consider artist name variations (e.g., "VEVO" suffix, featuring artists, different order)
 3. Duration should be similar (within ~10 seconds is acceptable)
-4. Return the index of the best match (0-${candidates.length - 1}), or -1 if no good match exists
-5. Provide a confidence score from 0.0 to 1.0
-6. Explain your reasoning briefly
+4. "Similarity" is a fuzzy title/artist/duration score; use it as a hint, not the answer
+5. Return the index of the best match (0-${candidates.length - 1}), or -1 if no good match exists
+6. Provide a confidence score from 0.0 to 1.0
+7. Explain your reasoning briefly
 
 Respond ONLY with valid JSON in this exact format:
 {
@@ -53,55 +94,43 @@ Respond ONLY with valid JSON in this exact format:
 }`;
 
   try {
-    const response = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{ text: prompt }]
-        }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 500,
-        }
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-
-    // Extract JSON from response (Gemini might wrap it in markdown)
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in Gemini response');
-    }
-
-    const result: GeminiMatchResponse = JSON.parse(jsonMatch[0]);
+    const result = await generateJson<GeminiMatchResponse>(
+      llm,
+      { prompt, model, temperature: 0.1, maxOutputTokens: 500 },
+      MATCH_RESPONSE_SCHEMA
+    );
 
     if (result.bestMatchIndex === -1 || result.bestMatchIndex === null) {
-      return { match: null, confidence: result.confidence, reasoning: result.reasoning };
+      return {
+        match: null,
+        confidence: result.confidence,
+        reasoning: result.reasoning || '',
+        alternatives: getAlternatives(scored, null, config),
+      };
     }
 
     if (result.bestMatchIndex < 0 || result.bestMatchIndex >= candidates.length) {
       throw new Error(`Invalid match index: ${result.bestMatchIndex}`);
     }
 
+    const match = candidates[result.bestMatchIndex];
     return {
-      match: candidates[result.bestMatchIndex],
+      match,
       confidence: result.confidence,
-      reasoning: result.reasoning
+      reasoning: result.reasoning || '',
+      breakdown: breakdownOf(match),
+      alternatives: getAlternatives(scored, match, config),
     };
   } catch (error) {
-    console.error('[Gemini] Matching error:', error);
-    // Fallback to first candidate with low confidence
+    console.error('[AI Match] Matching error:', error);
+    // Fall back to the best fuzzy-scored candidate
+    const [best] = scored;
     return {
-      match: candidates[0],
-      confidence: 0.3,
-      reasoning: `Gemini matching failed: ${error}. Using first candidate as fallback.`
+      match: best.track,
+      confidence: best.breakdown.total,
+      reasoning: `AI matching failed: ${error}. Using best fuzzy match as fallback.`,
+      breakdown: best.breakdown,
+      alternatives: getAlternatives(scored, best.track, config),
     };
   }
 }
@@ -110,44 +139,62 @@ export async function batchMatchWithGemini(
   sources: UnifiedTrack[],
   searchFn: (query: string) => Promise<UnifiedTrack[]>,
   existingIds: Set<string>,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  search: TargetSearchOptions = {},
+  model?: string
 ): Promise<MatchResult[]> {
   const results: MatchResult[] = [];
 
   for (let i = 0; i < sources.length; i++) {
     const source = sources[i];
 
-    // Search for candidates
-    const query = `${source.artist} ${source.title}`;
-    await delay(200); // Rate limiting
-    const candidates = await searchFn(query);
-
-    // Use Gemini to find best match
-    const { match, confidence, reasoning } = await matchWithGemini(source, candidates);
-
-    let status: 'matched' | 'low_confidence' | 'not_found' | 'already_exists' = 'not_found';
-
-    if (match) {
-      if (existingIds.has(match.id)) {
-        status = 'already_exists';
-      } else if (confidence >= 0.75) {
-        status = 'matched';
-      } else if (confidence >= 0.50) {
-        status = 'low_confidence';
-      }
+    // A known match needs neither a search nor the model
+    const cached = await search.cache?.lookup(source).catch(() => null);
+    if (cached && !cached.confirmedByOthers) {
+      const confidence = cached.userConfirmed ? 0.99 : cached.confidence;
+      const status = getMatchStatus(cached.target, confidence, existingIds, config);
+      results.push({
+        source,
+        target: cached.target,
+        confidence,
+        status,
+        existingId: status === 'already_exists' ? cached.target.id : undefined,
+        fromCache: true,
+      });
+      onProgress?.(i + 1, sources.length);
+      continue;
     }
 
-    results.push({
-      source,
-      target: match,
-      confidence,
-      status,
-      existingId: status === 'already_exists' ? match?.id : undefined
-    });
+    // Search for candidates
+    await delay(200); // Rate limiting
+    const candidates = await retrieveCandidates(source, searchFn, config, search);
+
+    // Let the model find the best match, classified with the same thresholds as
+    // fuzzy matching
+    const { match, confidence, breakdown, alternatives } = await matchWithGemini(source, candidates, config, model);
+    const status = getMatchStatus(match, confidence, existingIds, config);
+
+    results.push(
+      applySharedMatch(
+        {
+          source,
+          target: match,
+          confidence,
+          status,
+          existingId: status === 'already_exists' ? match?.id : undefined,
+          breakdown,
+          alternatives,
+        },
+        cached,
+        existingIds,
+        config
+      )
+    );
 
     onProgress?.(i + 1, sources.length);
 
-    // Rate limit Gemini API calls
+    // Rate limit LLM API calls
     await delay(300);
   }
 
@@ -0,0 +1,155 @@
+/**
+ * CSV Playlists
+ *
+ * Spreadsheet exports such as Exportify's ("Track Name", "Artist Name(s)",
+ * "Album Name", "Duration (ms)", "ISRC") or any sheet with title and artist
+ * columns. Comma, semicolon and tab delimiters are detected from the header.
+ */
+
+import type { ImportedSong, PlaylistParser } from './types';
+import { parseDuration, UNKNOWN_ARTIST } from './helpers';
+
+type Column = 'title' | 'artist' | 'album' | 'duration' | 'isrc';
+
+// Header names per column, compared lowercased with punctuation stripped
+const HEADER_NAMES: Record<Column, string[]> = {
+  title: ['track name', 'title', 'track', 'song', 'song name', 'name', 'track title'],
+  artist: ['artist name s', 'artist names', 'artist name', 'artist', 'artists', 'performer', 'creator'],
+  album: ['album name', 'album', 'album title', 'release'],
+  duration: ['duration ms', 'duration', 'length', 'time', 'track duration ms'],
+  isrc: ['isrc'],
+};
+
+const DELIMITERS = [',', ';', '\t'];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * RFC 4180 rows: quoted fields may hold delimiters, quotes ("") and newlines
+ */
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim()));
+}
+
+/**
+ * Which column holds what, from a header row; null without title and artist
+ */
+function mapColumns(header: string[]): Partial<Record<Column, number>> | null {
+  const names = header.map(normalizeHeader);
+  const columns: Partial<Record<Column, number>> = {};
+
+  for (const column of Object.keys(HEADER_NAMES) as Column[]) {
+    // Earlier names are more specific ("track name" before "name")
+    for (const name of HEADER_NAMES[column]) {
+      const index = names.indexOf(name);
+      if (index >= 0 && !Object.values(columns).includes(index)) {
+        columns[column] = index;
+        break;
+      }
+    }
+  }
+
+  return columns.title !== undefined && columns.artist !== undefined ? columns : null;
+}
+
+interface CsvLayout {
+  delimiter: string;
+  header: string[];
+  columns: Partial<Record<Column, number>>;
+}
+
+function detectLayout(text: string): CsvLayout | null {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0];
+
+  for (const delimiter of DELIMITERS) {
+    if (!firstLine.includes(delimiter)) continue;
+
+    const [header] = parseCsvRows(firstLine, delimiter);
+    const columns = header && mapColumns(header);
+    if (columns) return { delimiter, header, columns };
+  }
+
+  return null;
+}
+
+export const csvParser: PlaylistParser = {
+  format: 'csv',
+  name: 'CSV',
+  extensions: ['.csv', '.tsv'],
+
+  // Only a recognizable header counts, whatever the file is called
+  sniff(text) {
+    return detectLayout(text) !== null;
+  },
+
+  parse(text) {
+    const layout = detectLayout(text);
+    if (!layout) return [];
+
+    const { delimiter, header, columns } = layout;
+    const [, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+    const cell = (row: string[], column: Column) =>
+      columns[column] === undefined ? undefined : row[columns[column]!]?.trim() || undefined;
+
+    // "Duration (ms)" is in milliseconds, anything else in seconds or m:ss
+    const durationHeader = columns.duration === undefined ? '' : normalizeHeader(header[columns.duration]);
+    const durationUnit = durationHeader.split(' ').includes('ms') ? 'ms' : 's';
+
+    const songs: ImportedSong[] = [];
+    for (const row of rows) {
+      const title = cell(row, 'title');
+      if (!title) continue;
+
+      songs.push({
+        title,
+        // Exportify joins several artists with commas inside one field
+        artist: cell(row, 'artist')?.split(/\s*,\s*/).join(', ') ?? UNKNOWN_ARTIST,
+        album: cell(row, 'album'),
+        durationMs: parseDuration(cell(row, 'duration'), durationUnit),
+        isrc: cell(row, 'isrc')?.toUpperCase(),
+      });
+    }
+
+    return songs;
+  },
+};
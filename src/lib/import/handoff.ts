@@ -0,0 +1,152 @@
+/**
+ * Import Parse Handoff (browser only)
+ *
+ * Carries pasted text from the import page to the preview page, which parses
+ * it chunk by chunk (./parse-stream). The text can be far larger than the
+ * sessionStorage quota, so it stays in memory for the navigation and goes to
+ * IndexedDB for reloads. sessionStorage only holds the chunk count and each
+ * chunk's result under its own key, so every write stays small. Storage
+ * failures are logged and parsing carries on; a reload then starts over.
+ */
+
+import type { ImportedSong } from './types';
+import type { ParsedChunk } from './parse-stream';
+
+export interface ImportParse {
+  text: string;
+  filename?: string;
+  total?: number; // Chunk count, once the server has sent it
+  chunks: Record<number, ParsedChunk>;
+}
+
+const META_KEY = 'importParse';
+const CHUNK_KEY_PREFIX = 'importParse:chunk:';
+const SONGS_KEY = 'importedSongs';
+
+const DB_NAME = 'spotifyt-import';
+const DB_STORE = 'texts';
+const TEXT_KEY = 'importParse';
+
+// The text for a client-side navigation; IndexedDB only matters after a reload
+let memoryText: string | null = null;
+
+function setSessionItem(key: string, value: unknown): void {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`[Import] Couldn't store ${key}:`, error);
+  }
+}
+
+function getSessionItem<T>(key: string): T | null {
+  try {
+    const value = sessionStorage.getItem(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  } catch {
+    return null;
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runDatabase<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function removeChunks(): void {
+  for (const key of Object.keys(sessionStorage)) {
+    if (key.startsWith(CHUNK_KEY_PREFIX)) sessionStorage.removeItem(key);
+  }
+}
+
+/**
+ * Hand `text` to the preview page, replacing any earlier import
+ */
+export async function startImportParse(text: string, filename?: string): Promise<void> {
+  memoryText = text;
+  removeChunks();
+  sessionStorage.removeItem(SONGS_KEY);
+  setSessionItem(META_KEY, { filename });
+
+  try {
+    await runDatabase('readwrite', (store) => store.put(text, TEXT_KEY));
+  } catch (error) {
+    console.warn("[Import] Couldn't store the text for reloads:", error);
+  }
+}
+
+/**
+ * The import in progress with every chunk parsed so far, or null when there
+ * is none or its text is gone
+ */
+export async function loadImportParse(): Promise<ImportParse | null> {
+  const meta = getSessionItem<{ filename?: string; total?: number }>(META_KEY);
+  if (!meta) return null;
+
+  let text = memoryText;
+  if (text === null) {
+    try {
+      text = (await runDatabase<string | undefined>('readonly', (store) => store.get(TEXT_KEY))) ?? null;
+    } catch (error) {
+      console.warn("[Import] Couldn't read the stored text:", error);
+    }
+  }
+  if (text === null) return null;
+  memoryText = text;
+
+  const chunks: Record<number, ParsedChunk> = {};
+  for (let i = 0; i < (meta.total ?? 0); i++) {
+    const chunk = getSessionItem<ParsedChunk>(CHUNK_KEY_PREFIX + i);
+    if (chunk) chunks[i] = chunk;
+  }
+
+  return { text, filename: meta.filename, total: meta.total, chunks };
+}
+
+export function saveParseTotal(parse: ImportParse, total: number): void {
+  setSessionItem(META_KEY, { filename: parse.filename, total });
+}
+
+export function saveParsedChunk(index: number, chunk: ParsedChunk): void {
+  setSessionItem(CHUNK_KEY_PREFIX + index, chunk);
+}
+
+/**
+ * The songs to search for, stored once parsing is over
+ */
+export function saveImportedSongs(songs: ImportedSong[]): void {
+  setSessionItem(SONGS_KEY, songs);
+}
+
+export function loadImportedSongs(): ImportedSong[] | null {
+  return getSessionItem<ImportedSong[]>(SONGS_KEY);
+}
+
+export async function clearImportParse(): Promise<void> {
+  memoryText = null;
+  removeChunks();
+  sessionStorage.removeItem(META_KEY);
+  sessionStorage.removeItem(SONGS_KEY);
+
+  try {
+    await runDatabase('readwrite', (store) => store.delete(TEXT_KEY));
+  } catch (error) {
+    console.warn("[Import] Couldn't clear the stored text:", error);
+  }
+}
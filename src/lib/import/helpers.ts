@@ -0,0 +1,102 @@
+/**
+ * Shared helpers for the playlist parsers
+ */
+
+import type { ImportedSong } from './types';
+
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+
+export function hasExtension(filename: string | undefined, extensions: string[]): boolean {
+  const name = filename?.toLowerCase() ?? '';
+  return extensions.some((extension) => name.endsWith(extension));
+}
+
+/**
+ * "Artist - Title" (also with en or em dashes); the whole text is the title
+ * when there's no separator
+ */
+export function splitArtistTitle(text: string): { artist: string; title: string } {
+  const match = text.match(/^(.+?)\s+[-–—]\s+(.+)$/);
+  return match
+    ? { artist: match[1].trim(), title: match[2].trim() }
+    : { artist: UNKNOWN_ARTIST, title: text.trim() };
+}
+
+/**
+ * A song from a file path or URL: "Artist - Title.mp3", or the usual
+ * Artist/Album/01 Title.mp3 folder layout
+ */
+export function songFromPath(location: string): ImportedSong | null {
+  let path = location.trim();
+  if (!path) return null;
+
+  try {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path)) {
+      path = decodeURIComponent(new URL(path).pathname);
+    } else if (/%[0-9a-f]{2}/i.test(path)) {
+      // Some players percent-encode plain paths too
+      path = decodeURIComponent(path);
+    }
+  } catch {
+    // Not valid encoding after all; use the path as written
+  }
+
+  const parts = path.split(/[\\/]/).filter(Boolean);
+  const file = parts.pop();
+  if (!file) return null;
+
+  // Drop the extension and a leading track number ("01 ", "01. ", "1-03 - ")
+  const name = file.replace(/\.[a-z0-9]{1,5}$/i, '').replace(/^\d{1,3}(?:-\d{1,3})?(?:\s*[-.)]\s*|\s+)/, '');
+  if (!name) return null;
+
+  const { artist, title } = splitArtistTitle(name);
+  if (artist !== UNKNOWN_ARTIST || parts.length < 2) {
+    return { title, artist };
+  }
+
+  return { title, artist: parts[parts.length - 2], album: parts[parts.length - 1] };
+}
+
+/**
+ * Duration in milliseconds from seconds, "m:ss" or "h:mm:ss". Negative or
+ * unreadable values (M3U and PLS use -1 for unknown) give undefined.
+ */
+export function parseDuration(value: string | undefined, unit: 'ms' | 's' = 's'): number | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+
+  if (text.includes(':')) {
+    const seconds = text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+    return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const number = Number(text);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  return Math.round(unit === 'ms' ? number : number * 1000);
+}
+
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Inner XML of every <tag> element; the tags must not nest
+ */
+export function getXmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+export function getXmlText(xml: string, tag: string): string | undefined {
+  const [inner] = getXmlElements(xml, tag);
+  const text = inner === undefined ? undefined : decodeXmlEntities(inner).trim();
+  return text || undefined;
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import expected from './fixtures/expected.json';
+import { detectPlaylistFormat, parsePlaylistFile } from './index';
+
+const readFixture = (file: string) => fs.readFileSync(path.join(__dirname, 'fixtures', file), 'utf-8');
+
+describe('playlist file fixtures', () => {
+  for (const fixture of expected.fixtures) {
+    it(fixture.note, () => {
+      const result = parsePlaylistFile(readFixture(fixture.file), fixture.file);
+
+      assert.equal(result?.format, fixture.format);
+      // Parsers leave unknown fields undefined; the fixture omits them
+      assert.deepEqual(JSON.parse(JSON.stringify(result?.songs)), fixture.songs);
+    });
+  }
+});
+
+describe('detectPlaylistFormat', () => {
+  it('sniffs structured content without a file name', () => {
+    for (const file of ['exportify.csv', 'extended.m3u8', 'radio.pls', 'vlc.xspf', 'itunes-library.xml']) {
+      const fixture = expected.fixtures.find((f) => f.file === file)!;
+      assert.equal(detectPlaylistFormat(readFixture(file))?.format, fixture.format, file);
+    }
+  });
+
+  it('needs the extension for a bare list of paths', () => {
+    const text = readFixture('local-files.m3u');
+
+    assert.equal(detectPlaylistFormat(text), null);
+    assert.equal(detectPlaylistFormat(text, 'Local Files.M3U')?.format, 'm3u');
+  });
+
+  it('leaves free-form text to the LLM parser', () => {
+    assert.equal(detectPlaylistFormat('Radiohead - Karma Police\nQueen - Bohemian Rhapsody', 'list.txt'), null);
+    assert.equal(detectPlaylistFormat('title, notes\nsomething, else'), null);
+  });
+});
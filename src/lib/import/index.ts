@@ -0,0 +1,43 @@
+/**
+ * Playlist File Import
+ *
+ * Registry of the structured formats read without AI. Each parser sniffs
+ * the content (the file name is only a hint); text none of them claims is
+ * free-form and goes to the LLM parser in /api/import/parse, which streams
+ * its results (./parse-stream). Public playlist links are recognized by
+ * ./playlist-url.
+ */
+
+import type { ImportedSong, PlaylistFormat, PlaylistParser } from './types';
+import { xspfParser } from './xspf';
+import { itunesParser } from './itunes';
+import { plsParser } from './pls';
+import { m3uParser } from './m3u';
+import { csvParser } from './csv';
+
+export * from './types';
+export { parsePlaylistUrl } from './playlist-url';
+export type { PlaylistUrl } from './playlist-url';
+export { deduplicateSongs, encodeParseEvent, readParseEvents, PARSE_STREAM_CONTENT_TYPE } from './parse-stream';
+export type { ParseChunkStatus, ParseEvent, ParsedChunk } from './parse-stream';
+
+// Most specific signatures first: XML formats, then [playlist], #EXTM3U and
+// finally a CSV header
+export const PLAYLIST_PARSERS: PlaylistParser[] = [xspfParser, itunesParser, plsParser, m3uParser, csvParser];
+
+export const PLAYLIST_FILE_EXTENSIONS = PLAYLIST_PARSERS.flatMap((parser) => parser.extensions);
+
+export function detectPlaylistFormat(text: string, filename?: string): PlaylistParser | null {
+  return PLAYLIST_PARSERS.find((parser) => parser.sniff(text, filename)) ?? null;
+}
+
+/**
+ * Songs from a structured playlist file, or null for free-form text
+ */
+export function parsePlaylistFile(
+  text: string,
+  filename?: string
+): { format: PlaylistFormat; songs: ImportedSong[] } | null {
+  const parser = detectPlaylistFormat(text, filename);
+  return parser ? { format: parser.format, songs: parser.parse(text) } : null;
+}
@@ -0,0 +1,114 @@
+/**
+ * iTunes / Music.app Library XML
+ *
+ * The plist written by "Export Library" or "Export Playlist". Tracks live in
+ * a Tracks dictionary keyed by track ID; playlists list those IDs in order.
+ * A single exported playlist keeps its order, a whole library gives every
+ * song track.
+ */
+
+import type { ImportedSong, PlaylistParser } from './types';
+import { decodeXmlEntities, UNKNOWN_ARTIST } from './helpers';
+
+type PlistValue = string | number | boolean;
+
+/**
+ * The scalar entries of one plist <dict> body
+ */
+function readDict(body: string): Record<string, PlistValue> {
+  const entries: Record<string, PlistValue> = {};
+  const pattern = /<key>([^<]*)<\/key>\s*(?:<(string|integer|real|date)>([^<]*)<\/\2>|<(true|false)\s*\/>)/g;
+
+  for (const match of Array.from(body.matchAll(pattern))) {
+    const key = decodeXmlEntities(match[1]);
+    if (match[4]) {
+      entries[key] = match[4] === 'true';
+    } else if (match[2] === 'integer' || match[2] === 'real') {
+      entries[key] = Number(match[3]);
+    } else {
+      entries[key] = decodeXmlEntities(match[3]);
+    }
+  }
+
+  return entries;
+}
+
+function readTracks(text: string): Map<string, Record<string, PlistValue>> {
+  const tracks = new Map<string, Record<string, PlistValue>>();
+
+  const start = text.search(/<key>Tracks<\/key>\s*<dict>/);
+  const end = text.search(/<key>Playlists<\/key>/);
+  if (start < 0) return tracks;
+
+  const section = text.slice(start, end > start ? end : undefined);
+  for (const match of Array.from(section.matchAll(/<key>(\d+)<\/key>\s*<dict>([\s\S]*?)<\/dict>/g))) {
+    tracks.set(match[1], readDict(match[2]));
+  }
+
+  return tracks;
+}
+
+/**
+ * Track IDs of the one user playlist in the file, if there is exactly one.
+ * Library exports also carry the master "Library" and built-in playlists
+ * (Music, Movies, ...), which are skipped.
+ */
+function readPlaylistOrder(text: string): string[] | null {
+  const start = text.search(/<key>Playlists<\/key>/);
+  if (start < 0) return null;
+
+  const section = text.slice(start);
+  const pattern = /<key>Playlist Items<\/key>\s*<array>([\s\S]*?)<\/array>/g;
+  const userPlaylists: string[][] = [];
+  let previousEnd = 0;
+
+  for (const match of Array.from(section.matchAll(pattern))) {
+    // The playlist's own keys come just before its items
+    const header = section.slice(previousEnd, match.index);
+    previousEnd = match.index! + match[0].length;
+
+    if (/<key>(Master|Distinguished Kind|Folder)<\/key>/.test(header)) continue;
+
+    userPlaylists.push(Array.from(match[1].matchAll(/<key>Track ID<\/key>\s*<integer>(\d+)<\/integer>/g), (m) => m[1]));
+  }
+
+  return userPlaylists.length === 1 ? userPlaylists[0] : null;
+}
+
+export const itunesParser: PlaylistParser = {
+  format: 'itunes',
+  name: 'iTunes Library XML',
+  extensions: ['.xml'],
+
+  // Any plist with a Tracks dictionary, whatever the file is called
+  sniff(text) {
+    return /<!DOCTYPE plist|<plist[\s>]/.test(text.slice(0, 1000)) && /<key>Tracks<\/key>/.test(text);
+  },
+
+  parse(text) {
+    const tracks = readTracks(text);
+    const order = readPlaylistOrder(text);
+
+    const entries = order
+      ? order.map((id) => tracks.get(id)).filter((track): track is Record<string, PlistValue> => !!track)
+      : Array.from(tracks.values()).filter((track) => !track['Has Video'] && !track['Podcast']);
+
+    const songs: ImportedSong[] = [];
+    for (const track of entries) {
+      const title = typeof track['Name'] === 'string' ? track['Name'].trim() : '';
+      if (!title) continue;
+
+      const artist = track['Artist'] ?? track['Album Artist'];
+      const duration = track['Total Time'];
+
+      songs.push({
+        title,
+        artist: typeof artist === 'string' && artist.trim() ? artist.trim() : UNKNOWN_ARTIST,
+        album: typeof track['Album'] === 'string' ? track['Album'] : undefined,
+        durationMs: typeof duration === 'number' && duration > 0 ? duration : undefined,
+      });
+    }
+
+    return songs;
+  },
+};
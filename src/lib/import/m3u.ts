@@ -0,0 +1,49 @@
+/**
+ * M3U / M3U8 Playlists
+ *
+ * Exports from local players (foobar2000, VLC, Winamp, iTunes). Songs come
+ * from #EXTINF lines ("#EXTINF:215,Artist - Title") and, where a file has no
+ * #EXTINF, from the file path itself.
+ */
+
+import type { ImportedSong, PlaylistParser } from './types';
+import { hasExtension, parseDuration, songFromPath, splitArtistTitle } from './helpers';
+
+export const m3uParser: PlaylistParser = {
+  format: 'm3u',
+  name: 'M3U',
+  extensions: ['.m3u', '.m3u8'],
+
+  sniff(text, filename) {
+    const start = text.trimStart();
+    return start.startsWith('#EXTM3U') || /^#EXTINF:/m.test(text) || hasExtension(filename, this.extensions);
+  },
+
+  parse(text) {
+    const songs: ImportedSong[] = [];
+    let info: { duration?: string; display: string } | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const extinf = line.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+      if (extinf) {
+        info = { duration: extinf[1], display: extinf[2].trim() };
+        continue;
+      }
+
+      // Other directives (#EXTM3U, #PLAYLIST, #EXTGRP, ...) and comments
+      if (line.startsWith('#')) continue;
+
+      // A location line closes the entry
+      const song = info?.display
+        ? { ...splitArtistTitle(info.display), durationMs: parseDuration(info.duration) }
+        : songFromPath(line);
+      if (song) songs.push(song);
+      info = null;
+    }
+
+    return songs;
+  },
+};
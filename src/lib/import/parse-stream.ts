@@ -0,0 +1,72 @@
+/**
+ * Streaming Parse Events
+ *
+ * /api/import/parse answers with newline-delimited JSON: a `start` event
+ * with the chunk count, one `chunk` event per chunk as soon as it's parsed,
+ * then `done`. Chunk indexes are stable for the same text, so a client can
+ * ask for just the chunks that failed or were cut off.
+ */
+
+import type { ImportedSong, PlaylistFormat } from './types';
+
+export const PARSE_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export type ParseChunkStatus = 'ok' | 'failed' | 'truncated';
+
+export interface ParsedChunk {
+  status: ParseChunkStatus;
+  songs: ImportedSong[];
+  error?: string; // Why the chunk failed or is incomplete
+}
+
+export type ParseEvent =
+  | { type: 'start'; chunks: number; format?: PlaylistFormat }
+  | ({ type: 'chunk'; index: number } & ParsedChunk)
+  | { type: 'done'; failed: number[]; truncated: number[] }
+  | { type: 'error'; error: string };
+
+export function encodeParseEvent(event: ParseEvent): string {
+  return JSON.stringify(event) + '\n';
+}
+
+/**
+ * Events from a parse response body, as they arrive
+ */
+export async function* readParseEvents(response: Response): AsyncGenerator<ParseEvent> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as ParseEvent;
+    }
+    if (done) return;
+  }
+}
+
+/**
+ * Drop repeats of the same title and artist, keeping the first
+ */
+export function deduplicateSongs(songs: ImportedSong[]): ImportedSong[] {
+  const seen = new Set<string>();
+  const unique: ImportedSong[] = [];
+
+  for (const song of songs) {
+    const key = `${song.title.toLowerCase().trim()}::${song.artist.toLowerCase().trim()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(song);
+    }
+  }
+
+  return unique;
+}
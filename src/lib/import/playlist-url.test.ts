@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePlaylistUrl, PlaylistUrl } from './playlist-url';
+
+const SPOTIFY_ID = '37i9dQZF1DXcBWIGoYBM5M';
+const TIDAL_ID = '0c9c1a4e-5b2f-4b8e-9d3a-7f1e2c3d4b5a';
+
+const accepted: [string, PlaylistUrl][] = [
+  // Spotify
+  [`https://open.spotify.com/playlist/${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`https://open.spotify.com/playlist/${SPOTIFY_ID}?si=abc123`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`https://open.spotify.com/intl-de/playlist/${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`https://open.spotify.com/user/someone/playlist/${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`https://play.spotify.com/playlist/${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`open.spotify.com/playlist/${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`spotify:playlist:${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+  [`spotify:user:someone:playlist:${SPOTIFY_ID}`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+
+  // YouTube
+  ['https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf', { platform: 'youtube', playlistId: 'PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf' }],
+  ['https://m.youtube.com/playlist?list=PL-abc_123', { platform: 'youtube', playlistId: 'PL-abc_123' }],
+  ['https://music.youtube.com/playlist?list=RDCLAK5uy_k', { platform: 'youtube', playlistId: 'RDCLAK5uy_k' }],
+  ['https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123&index=2', { platform: 'youtube', playlistId: 'PL123' }],
+  ['https://youtu.be/dQw4w9WgXcQ?list=PL123', { platform: 'youtube', playlistId: 'PL123' }],
+
+  // Deezer
+  ['https://www.deezer.com/playlist/908622995', { platform: 'deezer', playlistId: '908622995' }],
+  ['https://www.deezer.com/en/playlist/908622995?utm_source=share', { platform: 'deezer', playlistId: '908622995' }],
+  ['deezer.com/fr/playlist/908622995', { platform: 'deezer', playlistId: '908622995' }],
+
+  // Tidal
+  [`https://tidal.com/playlist/${TIDAL_ID}`, { platform: 'tidal', playlistId: TIDAL_ID }],
+  [`https://tidal.com/browse/playlist/${TIDAL_ID}`, { platform: 'tidal', playlistId: TIDAL_ID }],
+  [`https://listen.tidal.com/playlist/${TIDAL_ID.toUpperCase()}`, { platform: 'tidal', playlistId: TIDAL_ID.toUpperCase() }],
+
+  // Apple Music
+  ['https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb', { platform: 'apple', playlistId: 'pl.f4d106fed2bd41149aaacabb233eb5eb', region: 'us' }],
+  ['https://music.apple.com/GB/playlist/pl.u-76oNlzDs7dpK', { platform: 'apple', playlistId: 'pl.u-76oNlzDs7dpK', region: 'gb' }],
+  ['https://itunes.apple.com/de/playlist/mix/pl.abc?app=music', { platform: 'apple', playlistId: 'pl.abc', region: 'de' }],
+
+  // Surrounding whitespace from a paste
+  [`  https://open.spotify.com/playlist/${SPOTIFY_ID}\n`, { platform: 'spotify', playlistId: SPOTIFY_ID }],
+];
+
+const rejected: [string, string][] = [
+  ['', 'empty input'],
+  ['not a url', 'free text'],
+  ['https://example.com/playlist/908622995', 'unknown host'],
+  [`https://open.spotify.com/album/${SPOTIFY_ID}`, 'Spotify album'],
+  ['https://open.spotify.com/playlist/tooShort', 'Spotify ID of the wrong length'],
+  [`spotify:album:${SPOTIFY_ID}`, 'Spotify album URI'],
+  ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'YouTube video without a list'],
+  ['https://www.youtube.com/playlist?list=PL%20bad', 'YouTube list ID with a space'],
+  ['https://www.deezer.com/album/302127', 'Deezer album'],
+  ['https://deezer.page.link/abc123', 'shortened Deezer link'],
+  ['https://spotify.link/abc123', 'shortened Spotify link'],
+  ['https://tidal.com/browse/playlist/12345', 'Tidal ID that is not a UUID'],
+  ['https://tidal.com/browse/album/12345', 'Tidal album'],
+  ['https://music.apple.com/us/album/some-album/1440857781', 'Apple Music album'],
+  ['https://music.apple.com/playlist/pl.abc', 'Apple Music link without a storefront'],
+  [`ftp://open.spotify.com/playlist/${SPOTIFY_ID}`, 'Spotify host under another scheme'],
+];
+
+describe('parsePlaylistUrl', () => {
+  for (const [input, expected] of accepted) {
+    it(`reads ${JSON.stringify(input.trim())}`, () => {
+      assert.deepEqual(parsePlaylistUrl(input), expected);
+    });
+  }
+
+  for (const [input, reason] of rejected) {
+    it(`rejects ${reason}`, () => {
+      assert.equal(parsePlaylistUrl(input), null);
+    });
+  }
+});
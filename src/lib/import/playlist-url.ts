@@ -0,0 +1,66 @@
+/**
+ * Playlist URLs
+ *
+ * Recognizes share links for public playlists on every supported platform
+ * and pulls out the platform, playlist ID and, for Apple Music, the
+ * storefront. Shortened links (deezer.page.link, spotify.link) have to be
+ * opened once to get the full URL.
+ */
+
+import type { Platform } from '../providers/base';
+
+export interface PlaylistUrl {
+  platform: Platform;
+  playlistId: string;
+  region?: string; // Apple Music storefront, e.g. 'us'
+}
+
+export function parsePlaylistUrl(input: string): PlaylistUrl | null {
+  const text = input.trim();
+
+  // URI form: spotify:playlist:<id>
+  const uri = text.match(/^spotify:(?:user:[^:]+:)?playlist:([a-z0-9]{22})$/i);
+  if (uri) return { platform: 'spotify', playlistId: uri[1] };
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+  const path = url.pathname;
+
+  if (host === 'open.spotify.com' || host === 'play.spotify.com') {
+    // Also /intl-de/playlist/<id> and /user/<name>/playlist/<id>
+    const match = path.match(/\/playlist\/([a-z0-9]{22})/i);
+    return match ? { platform: 'spotify', playlistId: match[1] } : null;
+  }
+
+  if (host === 'youtube.com' || host === 'music.youtube.com' || host === 'youtu.be') {
+    // /playlist?list=<id>, or a video opened from a playlist
+    const list = url.searchParams.get('list');
+    return list && /^[\w-]+$/.test(list) ? { platform: 'youtube', playlistId: list } : null;
+  }
+
+  if (host === 'deezer.com') {
+    // /playlist/<id> with an optional language prefix (/en/playlist/<id>)
+    const match = path.match(/\/playlist\/(\d+)/);
+    return match ? { platform: 'deezer', playlistId: match[1] } : null;
+  }
+
+  if (host === 'tidal.com' || host === 'listen.tidal.com') {
+    // /playlist/<uuid> or /browse/playlist/<uuid>
+    const match = path.match(/\/playlist\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i);
+    return match ? { platform: 'tidal', playlistId: match[1] } : null;
+  }
+
+  if (host === 'music.apple.com' || host === 'itunes.apple.com') {
+    // /<storefront>/playlist/<slug>/<pl.id>; the slug is optional
+    const match = path.match(/^\/([a-z]{2})\/playlist\/(?:[^/]+\/)?(pl\.[\w-]+)/i);
+    return match ? { platform: 'apple', playlistId: match[2], region: match[1].toLowerCase() } : null;
+  }
+
+  return null;
+}
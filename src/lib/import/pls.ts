@@ -0,0 +1,45 @@
+/**
+ * PLS Playlists
+ *
+ * INI-style lists from Winamp and internet radio players:
+ * FileN / TitleN / LengthN entries under a [playlist] section.
+ */
+
+import type { ImportedSong, PlaylistParser } from './types';
+import { hasExtension, parseDuration, songFromPath, splitArtistTitle } from './helpers';
+
+export const plsParser: PlaylistParser = {
+  format: 'pls',
+  name: 'PLS',
+  extensions: ['.pls'],
+
+  sniff(text, filename) {
+    return /^\s*\[playlist\]/i.test(text) || (hasExtension(filename, this.extensions) && /^File\d+=/im.test(text));
+  },
+
+  parse(text) {
+    const entries = new Map<number, { file?: string; title?: string; length?: string }>();
+
+    for (const line of text.split(/\r?\n/)) {
+      const match = line.trim().match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+      if (!match) continue;
+
+      const index = Number(match[2]);
+      const entry = entries.get(index) ?? {};
+      entry[match[1].toLowerCase() as 'file' | 'title' | 'length'] = match[3].trim();
+      entries.set(index, entry);
+    }
+
+    const songs: ImportedSong[] = [];
+    for (const [, entry] of Array.from(entries).sort(([a], [b]) => a - b)) {
+      const song = entry.title
+        ? splitArtistTitle(entry.title)
+        : entry.file
+          ? songFromPath(entry.file)
+          : null;
+      if (song) songs.push({ ...song, durationMs: parseDuration(entry.length) });
+    }
+
+    return songs;
+  },
+};
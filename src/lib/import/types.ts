@@ -0,0 +1,28 @@
+/**
+ * Import Types
+ *
+ * Songs read from a pasted list or an uploaded playlist file, before they
+ * are searched for on the target platform.
+ */
+
+export interface ImportedSong {
+  title: string;
+  artist: string; // "Unknown Artist" when the source doesn't say
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+}
+
+export type PlaylistFormat = 'm3u' | 'pls' | 'xspf' | 'csv' | 'itunes';
+
+/**
+ * Reads one structured playlist format without any AI
+ */
+export interface PlaylistParser {
+  format: PlaylistFormat;
+  name: string;
+  extensions: string[]; // Lowercase, with the dot
+  // Whether the content looks like this format; the file name is a hint
+  sniff(text: string, filename?: string): boolean;
+  parse(text: string): ImportedSong[];
+}
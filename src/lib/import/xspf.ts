@@ -0,0 +1,46 @@
+/**
+ * XSPF Playlists
+ *
+ * The XML format VLC saves. Tracks carry title, creator, album, duration
+ * (ms) and sometimes an ISRC identifier; tracks with only a location are
+ * read from the path.
+ */
+
+import type { ImportedSong, PlaylistParser } from './types';
+import { getXmlElements, getXmlText, hasExtension, parseDuration, songFromPath, UNKNOWN_ARTIST } from './helpers';
+
+export const xspfParser: PlaylistParser = {
+  format: 'xspf',
+  name: 'XSPF',
+  extensions: ['.xspf'],
+
+  sniff(text, filename) {
+    return /<playlist[^>]*xspf\.org/i.test(text) || (hasExtension(filename, this.extensions) && /<trackList/i.test(text));
+  },
+
+  parse(text) {
+    const songs: ImportedSong[] = [];
+
+    for (const track of getXmlElements(text, 'track')) {
+      const title = getXmlText(track, 'title');
+      const location = getXmlText(track, 'location');
+
+      const fromPath = location ? songFromPath(location) : null;
+      if (!title && !fromPath) continue;
+
+      const isrc = getXmlElements(track, 'identifier')
+        .map((identifier) => identifier.match(/isrc[:/]([a-z]{2}-?[a-z0-9]{3}-?\d{2}-?\d{5})/i)?.[1])
+        .find(Boolean);
+
+      songs.push({
+        title: title ?? fromPath!.title,
+        artist: getXmlText(track, 'creator') ?? fromPath?.artist ?? UNKNOWN_ARTIST,
+        album: getXmlText(track, 'album') ?? fromPath?.album,
+        durationMs: parseDuration(getXmlText(track, 'duration'), 'ms'),
+        isrc: isrc?.replace(/-/g, '').toUpperCase(),
+      });
+    }
+
+    return songs;
+  },
+};
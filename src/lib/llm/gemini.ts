@@ -0,0 +1,47 @@
+/**
+ * Gemini LLM Client
+ *
+ * Google's generateContent API. Needs GEMINI_API_KEY.
+ */
+
+import { LlmClient, LlmError, LlmRequest, LlmTruncatedError } from './types';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export class GeminiClient implements LlmClient {
+  readonly backend = 'gemini' as const;
+
+  constructor(
+    private readonly apiKey: string,
+    readonly defaultModel: string = 'gemini-2.0-flash-lite'
+  ) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    const model = request.model || this.defaultModel;
+    const response = await fetch(`${GEMINI_API_BASE}/${encodeURIComponent(model)}:generateContent?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.1,
+          maxOutputTokens: request.maxOutputTokens,
+          responseMimeType: request.json ? 'application/json' : undefined,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new LlmError(this.backend, `API error ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json();
+    const candidate = data.candidates?.[0];
+    const text = candidate?.content?.parts?.[0]?.text || '';
+
+    if (candidate?.finishReason === 'MAX_TOKENS') {
+      throw new LlmTruncatedError(this.backend, text);
+    }
+    return text;
+  }
+}
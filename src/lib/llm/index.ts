@@ -0,0 +1,94 @@
+/**
+ * LLM Backends
+ *
+ * Picks the LLM client for this process from the environment:
+ *
+ * - LLM_BACKEND: gemini, openai or local. Without it, the first configured
+ *   one of Gemini (GEMINI_API_KEY), OpenAI (OPENAI_API_KEY) and a local
+ *   server (LOCAL_LLM_URL) is used.
+ * - GEMINI_MODEL, OPENAI_MODEL, LOCAL_LLM_MODEL: default model per backend.
+ * - OPENAI_BASE_URL: for OpenAI-compatible servers other than OpenAI.
+ * - LLM_ALLOWED_MODELS: comma-separated models a request may ask for
+ *   besides the default.
+ */
+
+import { GeminiClient } from './gemini';
+import { OpenAICompatibleClient } from './openai';
+import { LocalLlmClient } from './local';
+import { LlmBackend, LlmClient, LlmModelNotAllowedError } from './types';
+
+export * from './types';
+export { generateJson, extractJson, validateJson } from './schema';
+export type { JsonSchema } from './schema';
+export { GeminiClient } from './gemini';
+export { OpenAICompatibleClient } from './openai';
+export { LocalLlmClient } from './local';
+export { MockLlmClient } from './mock';
+
+let client: LlmClient | null | undefined;
+
+function configuredBackend(): LlmBackend | null {
+  const backend = process.env.LLM_BACKEND;
+  if (backend === 'gemini' || backend === 'openai' || backend === 'local') return backend;
+
+  if (process.env.GEMINI_API_KEY) return 'gemini';
+  if (process.env.OPENAI_API_KEY) return 'openai';
+  if (process.env.LOCAL_LLM_URL) return 'local';
+  return null;
+}
+
+function createClient(backend: LlmBackend | null): LlmClient | null {
+  switch (backend) {
+    case 'gemini':
+      return process.env.GEMINI_API_KEY
+        ? new GeminiClient(process.env.GEMINI_API_KEY, process.env.GEMINI_MODEL || undefined)
+        : null;
+    case 'openai':
+      return new OpenAICompatibleClient(
+        process.env.OPENAI_BASE_URL || undefined,
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_MODEL || undefined
+      );
+    case 'local':
+      return new LocalLlmClient(process.env.LOCAL_LLM_URL || undefined, process.env.LOCAL_LLM_MODEL || undefined);
+    default:
+      return null;
+  }
+}
+
+/**
+ * The configured client, or null when no backend is set up
+ */
+export function getLlmClient(): LlmClient | null {
+  if (client === undefined) {
+    client = createClient(configuredBackend());
+  }
+  return client;
+}
+
+/**
+ * Replace the client, e.g. with a MockLlmClient in tests. `undefined` goes
+ * back to the environment's choice.
+ */
+export function setLlmClient(override: LlmClient | null | undefined): void {
+  client = override;
+}
+
+/**
+ * The model a request asked for, if this deployment allows it. Throws
+ * LlmModelNotAllowedError for anything else.
+ */
+export function resolveModel(llm: LlmClient, requested: unknown): string | undefined {
+  if (requested === undefined || requested === null || requested === '') return undefined;
+
+  const allowed = (process.env.LLM_ALLOWED_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  if (typeof requested !== 'string' || (requested !== llm.defaultModel && !allowed.includes(requested))) {
+    throw new LlmModelNotAllowedError(String(requested));
+  }
+
+  return requested;
+}
@@ -0,0 +1,50 @@
+/**
+ * Local LLM Client
+ *
+ * An Ollama-style /api/generate endpoint on your own machine or network, so
+ * AI features work without any cloud account.
+ */
+
+import { LlmClient, LlmError, LlmRequest, LlmTruncatedError } from './types';
+
+export class LocalLlmClient implements LlmClient {
+  readonly backend = 'local' as const;
+
+  constructor(
+    private readonly baseUrl: string = 'http://localhost:11434',
+    readonly defaultModel: string = 'llama3.1'
+  ) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: request.model || this.defaultModel,
+          prompt: request.prompt,
+          stream: false,
+          format: request.json ? 'json' : undefined,
+          options: {
+            temperature: request.temperature ?? 0.1,
+            num_predict: request.maxOutputTokens,
+          },
+        }),
+      });
+    } catch (error: any) {
+      throw new LlmError(this.backend, `Can't reach ${this.baseUrl}: ${error.message}`);
+    }
+
+    if (!response.ok) {
+      throw new LlmError(this.backend, `API error ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json();
+
+    if (data.done_reason === 'length') {
+      throw new LlmTruncatedError(this.backend, data.response || '');
+    }
+    return data.response || '';
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Mock LLM Client
+ *
+ * Deterministic stand-in for tests and offline development: answers with
+ * canned responses in order (repeating the last one), or from a function of
+ * the request. Every request is kept in `requests` for assertions.
+ */
+
+import { LlmClient, LlmRequest } from './types';
+
+export class MockLlmClient implements LlmClient {
+  readonly backend = 'mock' as const;
+  readonly defaultModel = 'mock';
+  readonly requests: LlmRequest[] = [];
+
+  constructor(private readonly responses: string[] | ((request: LlmRequest) => string) = ['null']) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    this.requests.push(request);
+
+    if (typeof this.responses === 'function') {
+      return this.responses(request);
+    }
+
+    const index = Math.min(this.requests.length - 1, this.responses.length - 1);
+    return this.responses[index] ?? 'null';
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * OpenAI-compatible LLM Client
+ *
+ * Any /chat/completions endpoint: OpenAI itself, or a gateway or server that
+ * speaks the same API (OPENAI_BASE_URL). The key is optional for servers that
+ * don't check one.
+ */
+
+import { LlmClient, LlmError, LlmRequest, LlmTruncatedError } from './types';
+
+export class OpenAICompatibleClient implements LlmClient {
+  readonly backend = 'openai' as const;
+
+  constructor(
+    private readonly baseUrl: string = 'https://api.openai.com/v1',
+    private readonly apiKey?: string,
+    readonly defaultModel: string = 'gpt-4o-mini'
+  ) {}
+
+  async generate(request: LlmRequest): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      // No response_format: its JSON mode only allows objects, and not every
+      // compatible server has it. Answers are validated either way.
+      body: JSON.stringify({
+        model: request.model || this.defaultModel,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature ?? 0.1,
+        max_tokens: request.maxOutputTokens,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new LlmError(this.backend, `API error ${response.status}: ${await response.text()}`, response.status);
+    }
+
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    const text = choice?.message?.content || '';
+
+    if (choice?.finish_reason === 'length') {
+      throw new LlmTruncatedError(this.backend, text);
+    }
+    return text;
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLlmClient } from './mock';
+import { extractJson, generateJson, JsonSchema, validateJson } from './schema';
+import { LlmResponseError } from './types';
+
+const songSchema: JsonSchema = {
+  type: 'object',
+  required: ['title', 'confidence'],
+  properties: {
+    title: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    version: { enum: ['live', 'remix', null] },
+  },
+};
+
+describe('extractJson', () => {
+  it('parses answers that are JSON on their own, scalars included', () => {
+    assert.equal(extractJson('null'), null);
+    assert.equal(extractJson(' 42\n'), 42);
+    assert.equal(extractJson('"Song"'), 'Song');
+    assert.equal(extractJson('true'), true);
+    assert.deepEqual(extractJson('[1, 2]'), [1, 2]);
+  });
+
+  it('unwraps markdown fences and surrounding prose', () => {
+    assert.deepEqual(extractJson('```json\n{"title": "Song"}\n```'), { title: 'Song' });
+    assert.deepEqual(extractJson('Here you go: [{"a": 1}] Hope that helps!'), [{ a: 1 }]);
+    assert.equal(extractJson('```\nnull\n```'), null);
+  });
+
+  it('throws LlmResponseError without JSON', () => {
+    assert.throws(() => extractJson('I could not find any songs.'), LlmResponseError);
+    assert.throws(() => extractJson('Almost: {"title": "Song"'), LlmResponseError);
+  });
+});
+
+describe('validateJson', () => {
+  it('accepts a matching value', () => {
+    assert.deepEqual(validateJson({ title: 'Song', confidence: 1, version: null }, songSchema), []);
+  });
+
+  it('reports every problem with its path', () => {
+    assert.deepEqual(validateJson({ confidence: 1.5, version: 'acoustic' }, songSchema), [
+      '$.title: required',
+      '$.confidence: must be at most 1',
+      '$.version: must be one of "live", "remix", null',
+    ]);
+    assert.deepEqual(validateJson([{ title: 3, confidence: 0 }], { type: 'array', items: songSchema }), [
+      '$[0].title: expected string, got integer',
+    ]);
+  });
+
+  it('counts integers as numbers but not the other way round', () => {
+    assert.deepEqual(validateJson(2, { type: 'number' }), []);
+    assert.deepEqual(validateJson(2.5, { type: 'integer' }), ['$: expected integer, got number']);
+  });
+});
+
+describe('generateJson', () => {
+  it('asks the client for JSON and returns the validated value', async () => {
+    const client = new MockLlmClient(['Sure!\n```json\n{"title": "Song", "confidence": 0.9}\n```']);
+
+    const value = await generateJson(client, { prompt: 'Match this' }, songSchema);
+
+    assert.deepEqual(value, { title: 'Song', confidence: 0.9 });
+    assert.deepEqual(client.requests, [{ prompt: 'Match this', json: true }]);
+  });
+
+  it("returns the mock's default null when the schema allows it", async () => {
+    assert.equal(await generateJson(new MockLlmClient(), { prompt: 'Anything?' }, { type: ['object', 'null'] }), null);
+  });
+
+  it("throws LlmResponseError with the answer when it doesn't match", async () => {
+    const client = new MockLlmClient(() => '{"title": "Song"}');
+
+    await assert.rejects(generateJson(client, { prompt: 'Match this' }, songSchema), (error: unknown) => {
+      assert.ok(error instanceof LlmResponseError);
+      assert.match(error.message, /\$\.confidence: required/);
+      assert.equal(error.text, '{"title": "Song"}');
+      return true;
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * LLM Response Validation
+ *
+ * Pulls the JSON out of a model's answer (models like to wrap it in prose or
+ * markdown fences) and checks it against a small subset of JSON Schema:
+ * type, properties, required, items, enum, minimum and maximum.
+ */
+
+import { LlmClient, LlmRequest, LlmResponseError } from './types';
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+/**
+ * Every way `value` breaks `schema`, as "path: problem" strings
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    // An integer is also a number
+    if (!allowed.includes(actual) && !(actual === 'integer' && allowed.includes('number'))) {
+      return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (key in object) errors.push(...validateJson(object[key], property, `${path}.${key}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The JSON in a model's answer: the whole answer when it parses on its own
+ * (scalars included), otherwise the first object or array in it
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    // Wrapped in prose; look for the object or array inside
+  }
+
+  const start = body.search(/[[{]/);
+  if (start < 0) {
+    throw new LlmResponseError('No JSON found in model response', text);
+  }
+
+  const close = body[start] === '[' ? ']' : '}';
+  const end = body.lastIndexOf(close);
+
+  try {
+    return JSON.parse(body.slice(start, end + 1));
+  } catch {
+    throw new LlmResponseError('Model response is not valid JSON', text);
+  }
+}
+
+/**
+ * Ask for JSON and return it once it matches the schema. Throws
+ * LlmResponseError otherwise; callers decide on a fallback.
+ */
+export async function generateJson<T>(
+  client: LlmClient,
+  request: LlmRequest,
+  schema: JsonSchema
+): Promise<T> {
+  const text = await client.generate({ ...request, json: true });
+  const value = extractJson(text);
+
+  const errors = validateJson(value, schema);
+  if (errors.length > 0) {
+    throw new LlmResponseError(`Model response doesn't match the schema: ${errors.slice(0, 5).join('; ')}`, text);
+  }
+
+  return value as T;
+}
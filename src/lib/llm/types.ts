@@ -0,0 +1,69 @@
+/**
+ * LLM Client Types
+ *
+ * The one interface AI matching and text import talk to. Backends only turn
+ * a prompt into text; extracting and validating JSON is shared (./schema).
+ */
+
+export type LlmBackend = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface LlmRequest {
+  prompt: string;
+  model?: string; // Defaults to the client's model
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean; // Ask for a JSON answer, on backends that support it
+}
+
+export interface LlmClient {
+  readonly backend: LlmBackend;
+  readonly defaultModel: string;
+  generate(request: LlmRequest): Promise<string>;
+}
+
+export class LlmError extends Error {
+  constructor(
+    readonly backend: LlmBackend,
+    message: string,
+    readonly status?: number // HTTP status, when the backend answered with one
+  ) {
+    super(`${backend}: ${message}`);
+    this.name = 'LlmError';
+  }
+}
+
+/**
+ * The model's answer wasn't the JSON we asked for
+ */
+export class LlmResponseError extends Error {
+  constructor(
+    message: string,
+    readonly text: string
+  ) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+/**
+ * The answer was cut off at maxOutputTokens; `text` holds what came back
+ */
+export class LlmTruncatedError extends LlmResponseError {
+  constructor(
+    readonly backend: LlmBackend,
+    text: string
+  ) {
+    super(`${backend}: answer cut off at the output token limit`, text);
+    this.name = 'LlmTruncatedError';
+  }
+}
+
+/**
+ * A request named a model this deployment doesn't allow
+ */
+export class LlmModelNotAllowedError extends Error {
+  constructor(readonly model: string) {
+    super(`Model not allowed: ${model}`);
+    this.name = 'LlmModelNotAllowedError';
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Track Adapters
+ *
+ * Convert raw payloads from the Spotify SDK, YouTube Data API and ytmusic-api
+ * into the canonical UnifiedTrack. Providers do the same for their own APIs in
+ * their private transformTrack helpers.
+ */
+
+import type { Track as SpotifyApiTrack } from '@spotify/web-api-ts-sdk';
+import type { youtube_v3 } from 'googleapis';
+import type { SongDetailed, VideoDetailed } from 'ytmusic-api';
+import { UnifiedTrack } from './types';
+
+/**
+ * Parse an ISO 8601 duration (e.g. PT4M13S) into milliseconds
+ */
+export function parseIsoDuration(isoDuration?: string | null): number {
+  if (!isoDuration) return 0;
+
+  const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 0;
+
+  const hours = parseInt(match[1] || '0', 10);
+  const minutes = parseInt(match[2] || '0', 10);
+  const seconds = parseInt(match[3] || '0', 10);
+
+  return (hours * 3600 + minutes * 60 + seconds) * 1000;
+}
+
+export function fromSpotifyTrack(track: SpotifyApiTrack): UnifiedTrack {
+  const artists = track.artists.map((a) => a.name);
+
+  return {
+    id: track.id,
+    platform: 'spotify',
+    title: track.name,
+    artist: artists.join(', ') || 'Unknown',
+    artists,
+    album: track.album?.name,
+    durationMs: track.duration_ms,
+    isrc: track.external_ids?.isrc,
+    externalUrl: track.external_urls?.spotify,
+    thumbnailUrl: track.album?.images?.[0]?.url,
+    raw: track,
+  };
+}
+
+export function fromYouTubeVideo(video: youtube_v3.Schema$Video): UnifiedTrack {
+  const channel = video.snippet?.channelTitle || 'Unknown';
+
+  return {
+    id: video.id || '',
+    platform: 'youtube',
+    title: video.snippet?.title || 'Unknown',
+    artist: channel,
+    artists: [channel],
+    durationMs: parseIsoDuration(video.contentDetails?.duration),
+    videoId: video.id || undefined,
+    externalUrl: `https://www.youtube.com/watch?v=${video.id}`,
+    thumbnailUrl: video.snippet?.thumbnails?.default?.url || undefined,
+    raw: video,
+  };
+}
+
+export function fromYTMusicSong(song: SongDetailed | VideoDetailed): UnifiedTrack {
+  const artist = song.artist?.name || 'Unknown';
+
+  return {
+    id: song.videoId,
+    platform: 'youtube',
+    title: song.name,
+    artist,
+    artists: [artist],
+    album: 'album' in song ? song.album?.name : undefined,
+    durationMs: song.duration ? song.duration * 1000 : 0,
+    videoId: song.videoId,
+    externalUrl: `https://music.youtube.com/watch?v=${song.videoId}`,
+    thumbnailUrl: song.thumbnails?.[0]?.url,
+    raw: song,
+  };
+}
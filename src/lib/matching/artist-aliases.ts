@@ -0,0 +1,44 @@
+/**
+ * Artist Aliases
+ *
+ * Names an artist goes by in different scripts that romanization can't tie
+ * together: 아이유 romanizes to "aiyu", not "IU", and a Chinese or kanji-only
+ * name has no reading at all. Each entry lists the name platforms use in
+ * Latin script first, then its other forms; all of them compare as the first.
+ */
+
+export const ARTIST_ALIASES: string[][] = [
+  // Korean
+  ['IU', '아이유'],
+  ['BTS', '방탄소년단', 'Bangtan Boys'],
+  ['BLACKPINK', '블랙핑크'],
+  ['TWICE', '트와이스'],
+  ['Red Velvet', '레드벨벳'],
+  ['EXO', '엑소'],
+  ['BIGBANG', '빅뱅'],
+  ["Girls' Generation", '소녀시대', 'SNSD'],
+  ['SEVENTEEN', '세븐틴'],
+  ['Stray Kids', '스트레이 키즈'],
+  ['NewJeans', '뉴진스'],
+  ['aespa', '에스파'],
+  ['ITZY', '있지'],
+  ['PSY', '싸이'],
+  ['TAEYEON', '태연'],
+  ['ZICO', '지코'],
+  ['Epik High', '에픽하이'],
+  // Japanese
+  ['Kenshi Yonezu', '米津玄師', 'Yonezu Kenshi'],
+  ['Hikaru Utada', '宇多田ヒカル', 'Utada Hikaru'],
+  ['Sheena Ringo', '椎名林檎', 'Ringo Sheena'],
+  ['Gen Hoshino', '星野源', 'Hoshino Gen'],
+  ['Fujii Kaze', '藤井風', 'Kaze Fujii'],
+  ['Official HIGE DANdism', 'Official髭男dism'],
+  ['LiSA', 'リサ'],
+  // Chinese
+  ['Jay Chou', '周杰倫', '周杰伦'],
+  ['G.E.M.', '鄧紫棋', '邓紫棋'],
+  ['JJ Lin', '林俊傑', '林俊杰'],
+  ['Mayday', '五月天'],
+  ['Eason Chan', '陳奕迅', '陈奕迅'],
+  ['Jolin Tsai', '蔡依林'],
+];
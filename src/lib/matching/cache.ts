@@ -0,0 +1,38 @@
+/**
+ * Match Cache Keys
+ *
+ * The identities a source track can be recognized by across syncs and
+ * users, most specific first: its platform ID, its ISRC, and its normalized
+ * title, artists, version and rounded duration.
+ */
+
+import { UnifiedTrack } from './types';
+import {
+  describeVersion,
+  foldText,
+  getArtistSet,
+  getTitleVariants,
+  normalizeIsrc,
+  parseTrackVersion,
+} from './normalize';
+
+// Durations within the same 5 seconds share a metadata key
+const DURATION_BUCKET_MS = 5000;
+
+export function getMatchCacheKeys(track: UnifiedTrack): string[] {
+  const keys = [`id:${track.platform}:${track.id}`];
+
+  if (track.isrc) {
+    keys.push(`isrc:${normalizeIsrc(track.isrc)}`);
+  }
+
+  const [title] = getTitleVariants(track.title);
+  const artists = getArtistSet(track).sort().join(',');
+  if (title && artists) {
+    const version = describeVersion(parseTrackVersion(foldText(track.title)).version);
+    const duration = Math.round(track.durationMs / DURATION_BUCKET_MS);
+    keys.push(`meta:${title}|${artists}|${version}|${duration}`);
+  }
+
+  return keys;
+}
@@ -1,93 +1,180 @@
-import { fuzzy } from 'fast-fuzzy';
-import { UnifiedTrack, MatchResult, MatchConfig, DEFAULT_MATCH_CONFIG } from './types';
-import { normalizeTrackTitle, normalizeArtistName, buildSearchQuery } from './normalize';
+import {
+  UnifiedTrack,
+  CachedMatch,
+  MatchAlternative,
+  MatchResult,
+  MatchConfig,
+  DEFAULT_MATCH_CONFIG,
+  TargetSearchOptions,
+} from './types';
+import { normalizeIsrc } from './normalize';
+import { getAlternatives, getMatchStatus, rankCandidates, scoreCandidate, ScoreBreakdown } from './scoring';
+import { retrieveCandidates } from './retrieval';
 
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Score search candidates against the source track and return the best one,
+ * plus the runners-up
+ */
+export function findBestCandidate(
+  source: UnifiedTrack,
+  candidates: UnifiedTrack[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): {
+  match: UnifiedTrack | null;
+  score: number;
+  breakdown?: ScoreBreakdown;
+  alternatives: MatchAlternative[];
+} {
+  const ranked = rankCandidates(source, candidates, config);
+  const [best] = ranked;
+
+  if (!best || best.breakdown.total <= 0) {
+    return { match: null, score: 0, alternatives: [] };
+  }
+
+  return {
+    match: best.track,
+    score: best.breakdown.total,
+    breakdown: best.breakdown,
+    alternatives: getAlternatives(ranked, best.track, config),
+  };
+}
+
+/**
+ * The result with the alternative the user picked as its target. The pick
+ * counts as confirmed; the replaced target becomes an alternative, so the
+ * swap can be undone. Unknown picks are ignored.
+ */
+export function applyChosenAlternative(result: MatchResult): MatchResult {
+  const chosen = result.alternatives?.find((alt) => alt.track.id === result.chosenAlternativeId);
+  if (!chosen) return result;
+
+  const replaced: MatchAlternative[] =
+    result.target && result.breakdown
+      ? [{ track: result.target, confidence: result.confidence, breakdown: result.breakdown }]
+      : [];
+
+  return {
+    ...result,
+    target: chosen.track,
+    confidence: chosen.confidence,
+    breakdown: chosen.breakdown,
+    status: 'matched',
+    existingId: undefined,
+    alternatives: [...replaced, ...result.alternatives!.filter((alt) => alt !== chosen)],
+    chosenAlternativeId: undefined,
+  };
+}
+
+/**
+ * Other users' confirmations never add a track on their own. When the search
+ * wasn't confident, their pick is offered instead as a low-confidence match
+ * for the user to review, scored like any candidate but kept below the
+ * threshold, with the search's pick among the alternatives.
+ */
+export function applySharedMatch(
+  result: MatchResult,
+  cached: CachedMatch | null | undefined,
+  existingIds: Set<string> | string[] = [],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): MatchResult {
+  if (!cached?.confirmedByOthers || (result.status !== 'low_confidence' && result.status !== 'not_found')) {
+    return result;
+  }
+
+  const breakdown = scoreCandidate(result.source, cached.target, config);
+  const confidence = Math.min(
+    Math.max(breakdown.total, config.lowConfidenceThreshold),
+    config.highConfidenceThreshold - 0.01
+  );
+  const status = getMatchStatus(cached.target, confidence, existingIds, config);
+  const searched: MatchAlternative[] =
+    result.target && result.breakdown
+      ? [{ track: result.target, confidence: result.confidence, breakdown: result.breakdown }]
+      : [];
+
+  return {
+    source: result.source,
+    target: cached.target,
+    confidence,
+    status,
+    existingId: status === 'already_exists' ? cached.target.id : undefined,
+    breakdown,
+    alternatives: [...searched, ...(result.alternatives ?? [])]
+      .filter((alt) => alt.track.id !== cached.target.id)
+      .slice(0, config.maxAlternatives),
+  };
+}
+
 export async function matchTrack(
   source: UnifiedTrack,
   searchFn: (query: string) => Promise<UnifiedTrack[]>,
-  config: MatchConfig = DEFAULT_MATCH_CONFIG
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  search: TargetSearchOptions = {}
 ): Promise<MatchResult> {
-  // Fast path: Try ISRC search first for Spotify sources
-  if (source.isrc) {
+  const { isrcLookup, cache } = search;
+
+  // Known match from an earlier sync: no search at all
+  const cached = await cache?.lookup(source).catch(() => null);
+  if (cached && !cached.confirmedByOthers) {
+    const confidence = cached.userConfirmed ? 0.99 : cached.confidence;
+    return {
+      source,
+      target: cached.target,
+      confidence,
+      status: getMatchStatus(cached.target, confidence, [], config),
+      fromCache: true,
+    };
+  }
+
+  // Remember confident matches for the next sync; a failed write only costs
+  // a search later
+  const remember = async (target: UnifiedTrack, confidence: number) => {
+    await cache?.record?.(source, target, confidence).catch(() => undefined);
+  };
+
+  // Fast path: exact ISRC lookup on platforms that support one. The hit is
+  // only trusted if it carries the same ISRC; otherwise score fuzzily.
+  if (source.isrc && isrcLookup) {
     try {
-      const isrcResults = await searchFn(source.isrc);
-      if (isrcResults.length > 0) {
+      const hit = await isrcLookup(source.isrc);
+      if (hit?.isrc && normalizeIsrc(hit.isrc) === normalizeIsrc(source.isrc)) {
+        await remember(hit, 0.99);
         return {
           source,
-          target: isrcResults[0],
+          target: hit,
           confidence: 0.99,
           status: 'matched',
         };
       }
     } catch (error) {
-      // ISRC search failed, fall through to fuzzy matching
+      // ISRC lookup failed, fall through to fuzzy matching
     }
   }
 
-  const query = buildSearchQuery(source);
-  const candidates = await searchFn(query);
+  const candidates = await retrieveCandidates(source, searchFn, config, search);
 
   if (candidates.length === 0) {
-    return { source, target: null, confidence: 0, status: 'not_found' };
+    return applySharedMatch({ source, target: null, confidence: 0, status: 'not_found' }, cached, [], config);
   }
 
-  let bestMatch: UnifiedTrack | null = null;
-  let bestScore = 0;
-
-  for (const candidate of candidates) {
-    const normalizedSourceTitle = normalizeTrackTitle(source.title);
-    const normalizedCandidateTitle = normalizeTrackTitle(candidate.title);
-    const normalizedSourceArtist = normalizeArtistName(source.artist);
-    const normalizedCandidateArtist = normalizeArtistName(candidate.artist);
-
-    // Calculate fuzzy scores
-    let titleScore = fuzzy(normalizedSourceTitle, normalizedCandidateTitle);
-    let artistScore = fuzzy(normalizedSourceArtist, normalizedCandidateArtist);
-
-    // Exact match bonuses (case-insensitive)
-    if (normalizedSourceTitle === normalizedCandidateTitle) {
-      titleScore = Math.max(titleScore, 0.98); // Near-perfect for exact title match
-    }
-    if (normalizedSourceArtist === normalizedCandidateArtist) {
-      artistScore = Math.max(artistScore, 0.98); // Near-perfect for exact artist match
-    }
+  const { match, score, breakdown, alternatives } = findBestCandidate(source, candidates, config);
+  const status = getMatchStatus(match, score, [], config);
 
-    // Duration similarity: 1.0 if within tolerance, degrades linearly
-    const durationDiff = Math.abs(source.durationMs - candidate.durationMs);
-    const durationScore = Math.max(0, 1 - durationDiff / (config.durationToleranceMs * 3));
-
-    // Composite score with weights
-    let compositeScore =
-      titleScore * config.titleWeight +
-      artistScore * config.artistWeight +
-      durationScore * config.durationWeight;
-
-    // Bonus for both title AND artist being exact matches
-    if (normalizedSourceTitle === normalizedCandidateTitle &&
-        normalizedSourceArtist === normalizedCandidateArtist) {
-      compositeScore = Math.min(0.99, compositeScore + 0.10); // Boost by 10%
-    }
-
-    if (compositeScore > bestScore) {
-      bestScore = compositeScore;
-      bestMatch = candidate;
-    }
+  if (match && status === 'matched') {
+    await remember(match, score);
   }
 
-  if (!bestMatch || bestScore < config.lowConfidenceThreshold) {
-    return { source, target: bestMatch, confidence: bestScore, status: 'not_found' };
-  }
-
-  return {
-    source,
-    target: bestMatch,
-    confidence: bestScore,
-    status: bestScore >= config.highConfidenceThreshold ? 'matched' : 'low_confidence',
-  };
+  return applySharedMatch(
+    { source, target: match, confidence: score, status, breakdown, alternatives },
+    cached,
+    [],
+    config
+  );
 }
 
 export async function matchTracks(
@@ -95,26 +182,30 @@ export async function matchTracks(
   searchFn: (query: string) => Promise<UnifiedTrack[]>,
   existingIds: Set<string>,
   config: MatchConfig = DEFAULT_MATCH_CONFIG,
-  onProgress?: (completed: number, total: number) => void
+  onProgress?: (completed: number, total: number) => void,
+  search: TargetSearchOptions = {}
 ): Promise<MatchResult[]> {
   const results: MatchResult[] = [];
 
   for (let i = 0; i < sources.length; i++) {
     const source = sources[i];
 
-    const result = await matchTrack(source, searchFn, config);
+    const result = await matchTrack(source, searchFn, config, search);
+    result.sourcePosition = i;
 
     // Check if already exists in target
-    if (result.target && existingIds.has(result.target.id)) {
-      result.status = 'already_exists';
-      result.existingId = result.target.id;
+    result.status = getMatchStatus(result.target, result.confidence, existingIds, config);
+    if (result.status === 'already_exists') {
+      result.existingId = result.target!.id;
     }
 
     results.push(result);
     onProgress?.(i + 1, sources.length);
 
-    // Rate limiting: small delay between searches
-    await delay(200);
+    // Rate limiting: small delay between searches (cache hits don't search)
+    if (!result.fromCache) {
+      await delay(200);
+    }
   }
 
   return results;
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { foldText, getArtistSet, getTitleVariants, resolveArtistAlias } from './normalize';
+import { transliterate } from './transliterate';
+
+const romanize = (text: string) => transliterate(foldText(text));
+const artistsOf = (artist: string) => getArtistSet({ title: '', artist, artists: [] });
+
+describe('transliterate', () => {
+  it('romanizes Cyrillic', () => {
+    assert.equal(romanize('Король и Шут'), 'korol i shut');
+    assert.equal(romanize('Її'), 'yiyi');
+  });
+
+  it('romanizes Greek without accents', () => {
+    assert.equal(romanize('Άσπρο'), 'aspro');
+  });
+
+  it('romanizes Hangul syllable by syllable', () => {
+    assert.equal(romanize('밤편지'), 'bampyeonji');
+  });
+
+  it('romanizes kana with contractions, small tsu and long vowels', () => {
+    assert.equal(romanize('あいみょん'), 'aimyon');
+    assert.equal(romanize('きって'), 'kitte');
+    assert.equal(romanize('マリーゴールド'), 'marigorudo');
+  });
+
+  it('reads common kanji in Japanese text', () => {
+    assert.equal(romanize('夜に駆ける'), 'yorunikakeru');
+    assert.equal(romanize('明日の君へ'), 'ashitanokimihe');
+  });
+
+  it('leaves Han without kana alone', () => {
+    assert.equal(romanize('月亮代表我的心'), '月亮代表我的心');
+  });
+
+  it('romanizes Arabic letters and drops short vowel marks', () => {
+    assert.equal(romanize('حَبيبي'), 'hbyby');
+  });
+
+  it('romanizes Devanagari, dropping the final inherent vowel', () => {
+    assert.equal(romanize('तुम ही हो'), 'tum hi ho');
+  });
+
+  it('spells out Latin letters with no decomposition', () => {
+    assert.equal(romanize('Straße'), 'strasse');
+    assert.equal(romanize('Beyoncé'), 'beyonce');
+  });
+});
+
+describe('getTitleVariants', () => {
+  it('compares each half of a bilingual title', () => {
+    assert.deepEqual(getTitleVariants('밤편지 (Through the Night)'), [
+      'bampyeonji (through the night)',
+      'bampyeonji',
+      'through the night',
+    ]);
+  });
+
+  it('keeps a single-script title with a bracket whole', () => {
+    assert.deepEqual(getTitleVariants('Song (Part 2)'), ['song (part 2)']);
+  });
+});
+
+describe('artist aliases', () => {
+  it('resolves Korean names to their Latin stage names', () => {
+    assert.deepEqual(artistsOf('아이유'), artistsOf('IU'));
+    assert.deepEqual(artistsOf('방탄소년단'), ['bts']);
+  });
+
+  it('resolves kanji names in either name order', () => {
+    assert.deepEqual(artistsOf('米津玄師'), ['kenshi yonezu']);
+    assert.deepEqual(artistsOf('Yonezu Kenshi'), ['kenshi yonezu']);
+  });
+
+  it('resolves traditional and simplified Chinese names', () => {
+    assert.deepEqual(artistsOf('周杰倫'), ['jay chou']);
+    assert.deepEqual(artistsOf('周杰伦'), ['jay chou']);
+  });
+
+  it('leaves unknown names as they are', () => {
+    assert.equal(resolveArtistAlias('radiohead'), 'radiohead');
+  });
+});
@@ -1,11 +1,144 @@
 import { UnifiedTrack } from './types';
+import { hasNonLatinScript, transliterate } from './transliterate';
+import { ARTIST_ALIASES } from './artist-aliases';
 
-export function normalizeTrackTitle(title: string): string {
-  return title
+/**
+ * Script-independent folding applied before any other normalization:
+ * NFKC (full-width forms, ligatures, compatibility characters), lowercase,
+ * and accents stripped from Latin and Greek letters ("Beyoncé" -> "beyonce").
+ * Marks that change a letter elsewhere, like Cyrillic "й", are kept.
+ */
+export function foldText(text: string): string {
+  return text
+    .normalize('NFKC')
     .toLowerCase()
+    .normalize('NFD')
+    .replace(/([a-z\u03b1-\u03c9])[\u0300-\u036f]+/g, '$1')
+    .normalize('NFC');
+}
+
+/**
+ * Kinds of alternate cut a title can name. A remaster is deliberately not one
+ * of them: "Remastered 2011" is the same recording.
+ */
+export type VersionKind =
+  | 'live'
+  | 'remix'
+  | 'acoustic'
+  | 'instrumental'
+  | 'karaoke'
+  | 'sped_up'
+  | 'slowed'
+  | 'radio_edit';
+
+export interface TrackVersion {
+  kinds: VersionKind[]; // Empty for the original studio cut
+  remixer?: string;
+  remasterYear?: number; // Informational only, never counts as a different cut
+}
+
+const VERSION_PATTERNS: [VersionKind, RegExp][] = [
+  ['live', /\blive\b/],
+  ['acoustic', /\b(acoustic|unplugged)\b/],
+  ['instrumental', /\binstrumental\b/],
+  ['karaoke', /\bkaraoke\b/],
+  ['sped_up', /\b(sped|speed)\s*up\b|\bnightcore\b/],
+  ['slowed', /\bslowed\b/],
+  ['radio_edit', /\bradio\s+(edit|version|mix)\b/],
+  ['remix', /\b(re-?mix(ed)?|rmx|bootleg|rework)\b/],
+];
+
+const REMASTER_PATTERN = /\bremaster(ed)?\b/;
+
+/**
+ * Read the version tags out of one title decoration ("Live at Wembley",
+ * "Tiesto Remix", "2011 Remaster"). Returns null if it names no version.
+ */
+function parseVersionSegment(segment: string): TrackVersion | null {
+  const text = segment.toLowerCase().trim();
+  const kinds = VERSION_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(([kind]) => kind);
+
+  if (kinds.length > 0) {
+    const version: TrackVersion = { kinds };
+
+    if (kinds.includes('remix')) {
+      const by = text.match(/\bremixed\s+by\s+(.+)$/);
+      const remixer = (by ? by[1] : text.replace(/\s*\b(re-?mix(ed)?|rmx|bootleg|rework)\b.*$/, '')).trim();
+      if (remixer) version.remixer = remixer;
+    }
+
+    return version;
+  }
+
+  if (REMASTER_PATTERN.test(text)) {
+    const year = text.match(/\b(19|20)\d{2}\b/);
+    return { kinds: [], remasterYear: year ? Number(year[0]) : undefined };
+  }
+
+  return null;
+}
+
+/**
+ * Split a title into its base title and the version it names. Version tags
+ * are read from bracketed decorations and trailing " - " segments, so a title
+ * that merely contains a word like "Live" ("Live Forever") is left alone.
+ */
+export function parseTrackVersion(title: string): { baseTitle: string; version: TrackVersion } {
+  const version: TrackVersion = { kinds: [] };
+
+  const merge = (found: TrackVersion) => {
+    for (const kind of found.kinds) {
+      if (!version.kinds.includes(kind)) version.kinds.push(kind);
+    }
+    version.remixer ??= found.remixer;
+    version.remasterYear ??= found.remasterYear;
+  };
+
+  // "(Live at Wembley)", "[Acoustic]"
+  let baseTitle = title.replace(/\s*[([]([^)\]]+)[)\]]/g, (decoration, segment: string) => {
+    const found = parseVersionSegment(segment);
+    if (!found) return decoration;
+    merge(found);
+    return '';
+  });
+
+  // "Song - Acoustic", "Song - 2011 Remaster"
+  const parts = baseTitle.split(/\s+[-–—]\s+/);
+  while (parts.length > 1) {
+    const found = parseVersionSegment(parts[parts.length - 1]);
+    if (!found) break;
+    merge(found);
+    parts.pop();
+  }
+  baseTitle = parts.join(' - ');
+
+  return { baseTitle: baseTitle.trim(), version };
+}
+
+/**
+ * Search keywords for a version ("live", "tiesto remix"), empty for the
+ * original cut
+ */
+export function describeVersion(version: TrackVersion): string {
+  return version.kinds
+    .map((kind) => {
+      if (kind === 'remix') return version.remixer ? `${version.remixer} remix` : 'remix';
+      return kind.replace('_', ' ');
+    })
+    .join(' ');
+}
+
+/**
+ * Lowercased base title for comparison. Version tags are stripped here and
+ * compared separately by the scorer.
+ */
+export function normalizeTrackTitle(title: string): string {
+  return parseTrackVersion(foldText(title)).baseTitle
     .replace(/\s*\(feat\.?\s+[^)]+\)/gi, '') // Remove (feat. ...)
     .replace(/\s*\(ft\.?\s+[^)]+\)/gi, '') // Remove (ft. ...)
     .replace(/\s*\[feat\.?\s+[^\]]+\]/gi, '') // Remove [feat. ...]
+    .replace(/\s*[([]with\s+[^)\]]+[)\]]/gi, '') // Remove (with ...)
+    .replace(/\s+(feat\.?|ft\.|featuring)\s+[^([]+/gi, '') // Remove unbracketed feat. ...
     .replace(/\s*[-–]\s*(official\s+)?(music\s+)?video/gi, '') // Remove "- Official Music Video"
     .replace(/\s*[-–]\s*official\s+audio/gi, '') // Remove "- Official Audio"
     .replace(/\s*\(official\s+[^)]+\)/gi, '') // Remove (Official ...)
@@ -20,14 +153,17 @@ export function normalizeTrackTitle(title: string): string {
 }
 
 export function normalizeArtistName(artist: string): string {
-  return artist
-    .toLowerCase()
+  // Split camelCase channel names (JeremyZucker -> Jeremy Zucker). Only
+  // single-word ASCII names are touched, and before case is folded away.
+  const spaced = /\s/.test(artist.trim())
+    ? artist
+    : artist.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+  return foldText(spaced)
     // Remove YouTube-specific suffixes
-    .replace(/vevo$/i, '') // Remove VEVO (handles "JeremyZuckerVEVO")
+    .replace(/\s*vevo$/i, '') // Remove VEVO (handles "JeremyZuckerVEVO")
     .replace(/\s*-?\s*topic$/i, '') // Remove Topic
     .replace(/\s*-?\s*official$/i, '') // Remove Official
-    // Add spaces between camelCase (JeremyZucker -> Jeremy Zucker)
-    .replace(/([a-z])([A-Z])/g, '$1 $2')
     // Handle common patterns
     .replace(/\s*&\s*/g, ' and ') // & -> and
     .replace(/\s*,\s*/g, ' and ') // , -> and (for multi-artist)
@@ -36,10 +172,104 @@ export function normalizeArtistName(artist: string): string {
     .trim();
 }
 
+/**
+ * Romanized forms of a title to compare: the normalized title and, for a
+ * bilingual title like "사랑 (Love)" or "Любовь / Love", each half on its own
+ */
+export function getTitleVariants(title: string): string[] {
+  const normalized = normalizeTrackTitle(title);
+  const variants = [normalized];
+
+  const bracketed = normalized.match(/^(.+?)\s*[([]([^)\]]+)[)\]]$/);
+  const slashed = normalized.split(/\s+\/\s+/);
+  const halves = bracketed ? [bracketed[1], bracketed[2]] : slashed.length === 2 ? slashed : null;
+
+  // Only a native/Latin pair counts; "Song (Part 2)" is not two titles
+  if (halves && hasNonLatinScript(halves[0]) !== hasNonLatinScript(halves[1])) {
+    variants.push(...halves.map((half) => half.trim()));
+  }
+
+  return Array.from(new Set(variants.map(transliterate)));
+}
+
+// Separators between names in a credit: "A, B & C", "A x B", "A feat. B"
+const ARTIST_SEPARATOR = /\s*(?:,|、|&|\+|;|\/)\s*|\s+(?:and|x|vs\.?|feat\.?|ft\.?|featuring|with)\s+/i;
+
+/**
+ * Individual artist names in a credit string ("A & B feat. C" -> [A, B, C])
+ */
+export function splitArtists(credit: string): string[] {
+  return credit
+    .split(ARTIST_SEPARATOR)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Artists credited in a title: "(feat. B)", "[ft. B & C]", "(with B)" and
+ * unbracketed "feat. B"
+ */
+export function extractFeaturedArtists(title: string): string[] {
+  const credits: string[] = [];
+
+  for (const match of title.matchAll(/[([](?:feat\.?|ft\.?|featuring|with)\s+([^)\]]+)[)\]]/gi)) {
+    credits.push(match[1]);
+  }
+
+  const unbracketed = title.match(/\s(?:feat\.?|ft\.|featuring)\s+([^([]+)/i);
+  if (unbracketed) credits.push(unbracketed[1]);
+
+  return credits.flatMap(splitArtists);
+}
+
+const comparableArtist = (name: string) => transliterate(normalizeArtistName(name));
+
+let aliasLookup: Map<string, string> | null = null;
+
+/**
+ * The name an artist compares as: their Latin-script name when they're in
+ * ARTIST_ALIASES, otherwise the romanized name itself
+ */
+export function resolveArtistAlias(name: string): string {
+  if (!aliasLookup) {
+    aliasLookup = new Map();
+    for (const [canonical, ...aliases] of ARTIST_ALIASES) {
+      for (const alias of aliases) {
+        aliasLookup.set(comparableArtist(alias), comparableArtist(canonical));
+      }
+    }
+  }
+  return aliasLookup.get(name) ?? name;
+}
+
+/**
+ * Every artist on a track, normalized, romanized, resolved through known
+ * aliases and de-duplicated: the artists list (or display string) plus
+ * anyone featured in the title
+ */
+export function getArtistSet(track: Pick<UnifiedTrack, 'title' | 'artist' | 'artists'>): string[] {
+  const credits = track.artists?.length ? track.artists : [track.artist];
+  const names = [
+    ...credits.map(foldText).flatMap(splitArtists),
+    ...extractFeaturedArtists(foldText(track.title)),
+  ].map((name) => resolveArtistAlias(comparableArtist(name)));
+
+  return Array.from(new Set(names.filter(Boolean)));
+}
+
 export function buildSearchQuery(track: UnifiedTrack): string {
   const title = normalizeTrackTitle(track.title);
   const artist = normalizeArtistName(track.artist);
+  const version = describeVersion(parseTrackVersion(track.title).version);
+
+  // Always include both artist and title for better matching, plus the
+  // version so a live or remixed source finds that cut
+  return version ? `${artist} ${title} ${version}` : `${artist} ${title}`;
+}
 
-  // Always include both artist and title for better matching
-  return `${artist} ${title}`;
+/**
+ * Canonical ISRC form for comparison ("US-UM7-14-00001" -> "USUM71400001")
+ */
+export function normalizeIsrc(isrc: string): string {
+  return isrc.replace(/[\s-]/g, '').toUpperCase();
 }
@@ -0,0 +1,104 @@
+/**
+ * Candidate Retrieval
+ *
+ * Finds search candidates for a source track by trying progressively looser
+ * queries, merging what each one returns. Stops as soon as the candidates
+ * include a confident match, so most tracks still cost a single search.
+ */
+
+import { UnifiedTrack, MatchConfig, DEFAULT_MATCH_CONFIG, TargetSearchOptions } from './types';
+import {
+  buildSearchQuery,
+  foldText,
+  normalizeArtistName,
+  normalizeTrackTitle,
+  parseTrackVersion,
+  describeVersion,
+  splitArtists,
+} from './normalize';
+import { rankCandidates } from './scoring';
+
+export type SearchStrategy = 'fielded' | 'default' | 'title' | 'album' | 'versionless';
+
+export interface SearchQuery {
+  strategy: SearchStrategy;
+  query: string;
+}
+
+/**
+ * Queries to try for a track, most specific first. Duplicates are dropped,
+ * so a track without an album or version tag gets fewer.
+ */
+export function buildSearchQueries(
+  track: UnifiedTrack,
+  options: TargetSearchOptions = {}
+): SearchQuery[] {
+  const title = normalizeTrackTitle(track.title);
+  const version = describeVersion(parseTrackVersion(foldText(track.title)).version);
+  const primaryArtist = normalizeArtistName(
+    track.artists?.[0] ?? splitArtists(track.artist)[0] ?? track.artist
+  );
+  const versioned = version ? `${title} ${version}` : title;
+
+  const queries: SearchQuery[] = [];
+  const add = (strategy: SearchStrategy, query: string) => {
+    if (query.trim() && !queries.some((q) => q.query === query)) {
+      queries.push({ strategy, query });
+    }
+  };
+
+  if (options.fieldedSearch) {
+    const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+    // Version words stay unqualified: "Song - Live at Wembley" isn't track:"song live"
+    const fielded = `track:${quote(title)} artist:${quote(primaryArtist)}`;
+    add('fielded', version ? `${fielded} ${version}` : fielded);
+  }
+  add('default', buildSearchQuery(track));
+  add('title', versioned);
+  if (track.album) {
+    add('album', `${primaryArtist} ${title} ${normalizeTrackTitle(track.album)}`);
+  }
+  if (version) {
+    add('versionless', `${primaryArtist} ${title}`);
+  }
+
+  return queries;
+}
+
+/**
+ * Run the queries in order and return every candidate found, without
+ * duplicates. A failing query is skipped; the error is only thrown if every
+ * query failed.
+ */
+export async function retrieveCandidates(
+  source: UnifiedTrack,
+  searchFn: (query: string) => Promise<UnifiedTrack[]>,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG,
+  options: TargetSearchOptions = {}
+): Promise<UnifiedTrack[]> {
+  const candidates = new Map<string, UnifiedTrack>();
+  const queries = buildSearchQueries(source, options);
+  let lastError: unknown;
+  let failures = 0;
+
+  for (const { query } of queries) {
+    try {
+      const results = await searchFn(query);
+      for (const track of results.slice(0, config.maxSearchResults)) {
+        if (!candidates.has(track.id)) candidates.set(track.id, track);
+      }
+    } catch (error) {
+      lastError = error;
+      failures++;
+      continue;
+    }
+
+    // Early stop: a looser query can't improve on a confident hit
+    const [best] = rankCandidates(source, Array.from(candidates.values()), config);
+    if (best && best.breakdown.total >= config.highConfidenceThreshold) break;
+  }
+
+  if (failures > 0 && failures === queries.length) throw lastError;
+
+  return Array.from(candidates.values());
+}
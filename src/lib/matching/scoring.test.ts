@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import corpus from './fixtures/golden-pairs.json';
+import { getMatchStatus, rankCandidates, scoreCandidate } from './scoring';
+import { DEFAULT_MATCH_CONFIG, UnifiedTrack } from './types';
+
+type CorpusTrack = Partial<UnifiedTrack> & Pick<UnifiedTrack, 'title' | 'artist' | 'durationMs'>;
+
+function track(fields: CorpusTrack, id = 'track'): UnifiedTrack {
+  return { id, platform: 'spotify', artists: [], ...fields };
+}
+
+describe('golden corpus', () => {
+  for (const pair of corpus.pairs) {
+    it(pair.note, () => {
+      const candidate = track(pair.candidate);
+      const { total } = scoreCandidate(track(pair.source), candidate);
+      const status = getMatchStatus(candidate, total, []);
+
+      assert.equal(
+        status === 'matched',
+        pair.match,
+        `scored ${total.toFixed(2)} (${status})`
+      );
+    });
+  }
+
+  for (const ranking of corpus.rankings) {
+    it(ranking.note, () => {
+      const ranked = rankCandidates(
+        track(ranking.source),
+        ranking.candidates.map((c) => track(c, c.id))
+      );
+
+      assert.equal(ranked[0].track.id, ranking.best);
+    });
+  }
+});
+
+describe('scoreCandidate', () => {
+  const source = track({ title: 'Yellow', artist: 'Coldplay', durationMs: 266773 });
+
+  it('caps fuzzy scores below 1', () => {
+    assert.equal(scoreCandidate(source, source).total, 0.99);
+  });
+
+  it('penalizes a version only one side has', () => {
+    const live = track({ title: 'Yellow (Live)', artist: 'Coldplay', durationMs: 266773 });
+    const breakdown = scoreCandidate(source, live);
+
+    assert.equal(breakdown.version, 0);
+    assert.equal(breakdown.versionPenalty, DEFAULT_MATCH_CONFIG.versionMismatchPenalty);
+    assert.equal(breakdown.exactMatchBonus, 0);
+  });
+
+  it('loses duration similarity at three times the tolerance', () => {
+    const longer = { ...source, durationMs: source.durationMs + DEFAULT_MATCH_CONFIG.durationToleranceMs * 3 };
+    assert.equal(scoreCandidate(source, longer).duration, 0);
+  });
+});
+
+describe('getMatchStatus', () => {
+  const target = track({ title: 'Yellow', artist: 'Coldplay', durationMs: 266773 }, 'target');
+  const { highConfidenceThreshold, lowConfidenceThreshold } = DEFAULT_MATCH_CONFIG;
+
+  it('is not_found without a target or below the low threshold', () => {
+    assert.equal(getMatchStatus(null, 0.99, []), 'not_found');
+    assert.equal(getMatchStatus(target, lowConfidenceThreshold - 0.01, []), 'not_found');
+  });
+
+  it('is low_confidence between the thresholds', () => {
+    assert.equal(getMatchStatus(target, lowConfidenceThreshold, []), 'low_confidence');
+    assert.equal(getMatchStatus(target, highConfidenceThreshold - 0.01, []), 'low_confidence');
+  });
+
+  it('is matched at the high threshold', () => {
+    assert.equal(getMatchStatus(target, highConfidenceThreshold, []), 'matched');
+  });
+
+  it('is already_exists when the target has the track', () => {
+    assert.equal(getMatchStatus(target, 0.99, ['target']), 'already_exists');
+    assert.equal(getMatchStatus(target, 0.99, new Set(['target'])), 'already_exists');
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Candidate Scoring
+ *
+ * The single place a search candidate is scored against a source track. The
+ * server matcher, the matching Web Worker and the AI path all go through it,
+ * so changes to weights or normalization behave the same in every mode.
+ * Pure functions only: this module runs in the browser, the worker and Node.
+ */
+
+import { fuzzy } from 'fast-fuzzy';
+import { UnifiedTrack, MatchAlternative, MatchConfig, MatchStatus, DEFAULT_MATCH_CONFIG } from './types';
+import {
+  foldText,
+  normalizeArtistName,
+  getArtistSet,
+  getTitleVariants,
+  parseTrackVersion,
+  TrackVersion,
+  VersionKind,
+} from './normalize';
+
+/**
+ * Per-feature scores behind a candidate's total. Features are 0-1
+ * similarities; `total` is what the matcher compares with the thresholds.
+ */
+export interface ScoreBreakdown {
+  title: number;
+  artist: number;
+  duration: number;
+  album: number | null; // null when either side has no album
+  version: number; // 1 for the same cut, lower when versions differ
+  versionPenalty: number; // Subtracted for a version mismatch
+  exactMatchBonus: number; // Added when title, artist and version all match
+  total: number;
+}
+
+export interface ScoredCandidate {
+  track: UnifiedTrack;
+  breakdown: ScoreBreakdown;
+}
+
+// Scores are capped below 1 so only verified ISRC hits reach 0.99+
+const MAX_FUZZY_SCORE = 0.99;
+const EXACT_MATCH_BONUS = 0.10;
+
+// How different a cut is when only one side carries the tag. A radio edit is
+// still the same recording, so it only counts for a little.
+const VERSION_MISMATCH_WEIGHTS: Record<VersionKind, number> = {
+  live: 1,
+  remix: 1,
+  acoustic: 1,
+  instrumental: 1,
+  karaoke: 1,
+  sped_up: 1,
+  slowed: 1,
+  radio_edit: 0.25,
+};
+
+/**
+ * Best similarity between any form of one title and any form of the other
+ */
+function bestVariantSimilarity(source: string[], candidate: string[]): number {
+  return Math.max(...source.flatMap((a) => candidate.map((b) => fuzzy(a, b))));
+}
+
+// Below this, two names are treated as different artists
+const ARTIST_NAME_THRESHOLD = 0.6;
+
+/**
+ * Overlap between two artist sets. Mostly how much of the shorter list the
+ * other one covers, so a channel credited with only the main artist still
+ * scores well, plus a share for how alike the two lists are overall. Order
+ * doesn't matter.
+ */
+function artistSetSimilarity(source: string[], candidate: string[]): number {
+  const [shorter, longer] = source.length <= candidate.length ? [source, candidate] : [candidate, source];
+  if (shorter.length === 0) return 0;
+
+  let overlap = 0;
+  for (const name of shorter) {
+    const best = Math.max(...longer.map((other) => (name === other ? 1 : fuzzy(name, other))));
+    if (best >= ARTIST_NAME_THRESHOLD) overlap += best;
+  }
+
+  const coverage = overlap / shorter.length;
+  const dice = (2 * overlap) / (shorter.length + longer.length);
+  return 0.75 * coverage + 0.25 * dice;
+}
+
+/**
+ * 1 when both titles name the same version, 0 for clearly different cuts
+ */
+function versionSimilarity(source: TrackVersion, candidate: TrackVersion): number {
+  let mismatch = 0;
+
+  for (const kind of Object.keys(VERSION_MISMATCH_WEIGHTS) as VersionKind[]) {
+    if (source.kinds.includes(kind) !== candidate.kinds.includes(kind)) {
+      mismatch = Math.max(mismatch, VERSION_MISMATCH_WEIGHTS[kind]);
+    }
+  }
+
+  // Two remixes by different remixers are different records
+  if (
+    source.remixer &&
+    candidate.remixer &&
+    fuzzy(source.remixer, candidate.remixer) < 0.8
+  ) {
+    mismatch = 1;
+  }
+
+  return 1 - mismatch;
+}
+
+/**
+ * What scoring knows about a candidate, independent of any MatchConfig. These
+ * are what user corrections store, so a config can be re-fitted on them.
+ */
+export interface MatchFeatures {
+  title: number;
+  artist: number;
+  durationDiffMs: number;
+  album: number | null; // null when either side has no album
+  version: number; // 1 for the same cut, lower when versions differ
+  exact: boolean; // Title and artists equal after normalization
+}
+
+export function extractMatchFeatures(source: UnifiedTrack, candidate: UnifiedTrack): MatchFeatures {
+  const sourceTitles = getTitleVariants(source.title);
+  const candidateTitles = getTitleVariants(candidate.title);
+  const sourceArtists = getArtistSet(source);
+  const candidateArtists = getArtistSet(candidate);
+
+  // Exact matches (after normalization) score near-perfect
+  const titleExact = sourceTitles.some((title) => candidateTitles.includes(title));
+  const artistExact =
+    sourceArtists.length === candidateArtists.length &&
+    sourceArtists.every((name) => candidateArtists.includes(name));
+
+  let title = bestVariantSimilarity(sourceTitles, candidateTitles);
+  // Compare artist sets, falling back to the display strings when a side
+  // has no usable names
+  let artist = sourceArtists.length > 0 && candidateArtists.length > 0
+    ? artistSetSimilarity(sourceArtists, candidateArtists)
+    : fuzzy(normalizeArtistName(source.artist), normalizeArtistName(candidate.artist));
+  if (titleExact) title = Math.max(title, 0.98);
+  if (artistExact) artist = Math.max(artist, 0.98);
+
+  // Album only counts when both sides know it, as a small bonus
+  const album = source.album && candidate.album
+    ? bestVariantSimilarity(getTitleVariants(source.album), getTitleVariants(candidate.album))
+    : null;
+
+  // Titles are compared without their version tags, so a live or remixed
+  // cut is told apart here rather than by title similarity
+  const version = versionSimilarity(
+    parseTrackVersion(foldText(source.title)).version,
+    parseTrackVersion(foldText(candidate.title)).version
+  );
+
+  return {
+    title,
+    artist,
+    durationDiffMs: Math.abs(source.durationMs - candidate.durationMs),
+    album,
+    version,
+    exact: titleExact && artistExact,
+  };
+}
+
+/**
+ * Weigh extracted features with a config. scripts/calibrate-matching.ts
+ * calls this to score corrections under each config it tries.
+ */
+export function scoreFeatures(
+  features: MatchFeatures,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): ScoreBreakdown {
+  const { title, artist, album, version } = features;
+
+  // Duration similarity: 1.0 at identical length, degrading linearly to 0
+  // at three times the tolerance
+  const duration = Math.max(0, 1 - features.durationDiffMs / (config.durationToleranceMs * 3));
+
+  const versionPenalty = (1 - version) * config.versionMismatchPenalty;
+  const exactMatchBonus = features.exact && version === 1 ? EXACT_MATCH_BONUS : 0;
+
+  const weighted =
+    title * config.titleWeight +
+    artist * config.artistWeight +
+    duration * config.durationWeight +
+    (album ?? 0) * config.albumWeight;
+
+  return {
+    title,
+    artist,
+    duration,
+    album,
+    version,
+    versionPenalty,
+    exactMatchBonus,
+    total: Math.max(0, Math.min(MAX_FUZZY_SCORE, weighted + exactMatchBonus - versionPenalty)),
+  };
+}
+
+export function scoreCandidate(
+  source: UnifiedTrack,
+  candidate: UnifiedTrack,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): ScoreBreakdown {
+  return scoreFeatures(extractMatchFeatures(source, candidate), config);
+}
+
+/**
+ * Score every candidate, best first
+ */
+export function rankCandidates(
+  source: UnifiedTrack,
+  candidates: UnifiedTrack[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): ScoredCandidate[] {
+  return candidates
+    .map((track) => ({ track, breakdown: scoreCandidate(source, track, config) }))
+    .sort((a, b) => b.breakdown.total - a.breakdown.total);
+}
+
+/**
+ * The best-ranked candidates other than the chosen one, up to the config's
+ * maxAlternatives
+ */
+export function getAlternatives(
+  ranked: ScoredCandidate[],
+  chosen: UnifiedTrack | null,
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): MatchAlternative[] {
+  return ranked
+    .filter(({ track, breakdown }) => track.id !== chosen?.id && breakdown.total > 0)
+    .slice(0, config.maxAlternatives)
+    .map(({ track, breakdown }) => ({ track, confidence: breakdown.total, breakdown }));
+}
+
+/**
+ * Status for a chosen target at a given confidence, using the config's
+ * thresholds whichever mode produced the confidence
+ */
+export function getMatchStatus(
+  target: UnifiedTrack | null,
+  confidence: number,
+  existingIds: Set<string> | string[],
+  config: MatchConfig = DEFAULT_MATCH_CONFIG
+): MatchStatus {
+  if (!target || confidence < config.lowConfidenceThreshold) {
+    return 'not_found';
+  }
+
+  const exists = Array.isArray(existingIds)
+    ? existingIds.includes(target.id)
+    : existingIds.has(target.id);
+  if (exists) {
+    return 'already_exists';
+  }
+
+  return confidence >= config.highConfidenceThreshold ? 'matched' : 'low_confidence';
+}
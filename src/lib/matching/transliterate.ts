@@ -0,0 +1,234 @@
+/**
+ * Transliteration
+ *
+ * Romanizes the scripts that show up most in non-English catalogs (Cyrillic,
+ * Greek, Hangul, kana, Arabic, Devanagari) so a native title can be compared
+ * with a romanized one. The tables are deliberately simple: they aim for the
+ * spelling a platform is likely to use, not a formal standard. Han characters
+ * pass through unchanged, except in Japanese text (text with kana), where
+ * kanji common in song titles get their usual reading.
+ * Expects lowercased input (see foldText in ./normalize).
+ */
+
+// Greek, Cyrillic, Hebrew, Arabic, Devanagari, Thai, kana, CJK, Hangul
+const NON_LATIN_SCRIPT =
+  /[\u0370-\u03ff\u0400-\u04ff\u0590-\u06ff\u0900-\u097f\u0e00-\u0e7f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+export function hasNonLatinScript(text: string): boolean {
+  return NON_LATIN_SCRIPT.test(text);
+}
+
+// ===== Single-character tables =====
+
+const CHARACTER_MAP: Record<string, string> = {
+  // Cyrillic (Russian, Ukrainian, Belarusian, Serbian, Macedonian)
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z',
+  и: 'i', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh',
+  щ: 'shch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya', і: 'i',
+  ї: 'yi', є: 'ye', ґ: 'g', ў: 'u', ј: 'j', љ: 'lj', њ: 'nj', ћ: 'c',
+  ђ: 'dj', џ: 'dz', ѓ: 'g', ќ: 'k', ѕ: 'dz',
+  // Greek (accents are already stripped by foldText)
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i',
+  κ: 'k', λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's',
+  ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+  // Arabic and Persian letters; short vowel marks are dropped below
+  ا: 'a', أ: 'a', إ: 'i', آ: 'a', ب: 'b', ت: 't', ث: 'th', ج: 'j', ح: 'h',
+  خ: 'kh', د: 'd', ذ: 'dh', ر: 'r', ز: 'z', س: 's', ش: 'sh', ص: 's',
+  ض: 'd', ط: 't', ظ: 'z', ع: '', غ: 'gh', ف: 'f', ق: 'q', ك: 'k', ل: 'l',
+  م: 'm', ن: 'n', ه: 'h', و: 'w', ي: 'y', ى: 'a', ة: 'a', ء: '', ئ: '',
+  ؤ: '', پ: 'p', چ: 'ch', ژ: 'zh', گ: 'g', ک: 'k', ی: 'y',
+  // Latin letters with no decomposition
+  ß: 'ss', æ: 'ae', ø: 'o', œ: 'oe', ł: 'l', đ: 'd', þ: 'th', ð: 'd', ı: 'i',
+};
+
+const ARABIC_MARKS = /[\u064b-\u0652\u0670]/g;
+
+// ===== Hangul (Revised Romanization, without sound-change rules) =====
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+
+function romanizeHangul(code: number): string {
+  const index = code - HANGUL_BASE;
+  const initial = Math.floor(index / (21 * 28));
+  const medial = Math.floor((index % (21 * 28)) / 28);
+  const final = index % 28;
+  return HANGUL_INITIALS[initial] + HANGUL_MEDIALS[medial] + HANGUL_FINALS[final];
+}
+
+// ===== Kana (Hepburn) =====
+
+// Hiragana U+3041..U+3096 in code point order; katakana sits 0x60 above.
+// '-' marks the small tsu, which doubles the next consonant.
+const KANA_ROMAJI = (
+  'a a i i u u e e o o ka ga ki gi ku gu ke ge ko go sa za shi ji su zu se ze so zo ' +
+  'ta da chi ji - tsu zu te de to do na ni nu ne no ha ba pa hi bi pi fu bu pu ' +
+  'he be pe ho bo po ma mi mu me mo ya ya yu yu yo yo ra ri ru re ro wa wa i e o n vu ka ke'
+).split(' ');
+
+const HIRAGANA_FIRST = 0x3041;
+const KATAKANA_OFFSET = 0x60;
+const SMALL_Y = new Set([0x3083, 0x3085, 0x3087]); // ゃ ゅ ょ
+const SMALL_TSU = 0x3063;
+const LONG_VOWEL_MARK = 0x30fc; // ー
+
+function kanaIndex(code: number): number {
+  if (code >= 0x30a1 && code <= 0x30f6) code -= KATAKANA_OFFSET;
+  return code >= HIRAGANA_FIRST && code <= 0x3096 ? code - HIRAGANA_FIRST : -1;
+}
+
+// ===== Kanji (Japanese text only) =====
+
+// A kanji's reading depends on the word it's in, so words come first and
+// single kanji get the reading they usually have in a title: the kun'yomi,
+// or the stem before its okurigana (駆ける -> ka + keru). Anything missing
+// stays as is; the other forms of a title still get compared.
+const KANJI_WORDS: Record<string, string> = {
+  明日: 'ashita', 今日: 'kyou', 昨日: 'kinou', 世界: 'sekai', 未来: 'mirai',
+  永遠: 'eien', 運命: 'unmei', 奇跡: 'kiseki', 青春: 'seishun', 季節: 'kisetsu',
+  約束: 'yakusoku', 記憶: 'kioku', 時間: 'jikan', 人生: 'jinsei', 一人: 'hitori',
+  二人: 'futari', 本当: 'hontou', 大丈夫: 'daijoubu', 東京: 'tokyo', 紅蓮華: 'gurenge',
+  群青: 'gunjou', 怪物: 'kaibutsu', 祝福: 'shukufuku', 天使: 'tenshi', 天気: 'tenki',
+  花火: 'hanabi', 残酷: 'zankoku', 少年: 'shounen', 少女: 'shoujo', 恋人: 'koibito',
+  大好: 'daisu', 宇宙: 'uchuu', 自分: 'jibun', 最後: 'saigo', 最高: 'saikou',
+};
+
+const KANJI_READINGS: Record<string, string> = {
+  夜: 'yoru', 朝: 'asa', 昼: 'hiru', 日: 'hi', 月: 'tsuki', 星: 'hoshi', 空: 'sora',
+  雨: 'ame', 雪: 'yuki', 風: 'kaze', 海: 'umi', 山: 'yama', 川: 'kawa', 森: 'mori',
+  花: 'hana', 桜: 'sakura', 春: 'haru', 夏: 'natsu', 秋: 'aki', 冬: 'fuyu',
+  火: 'hi', 水: 'mizu', 光: 'hikari', 影: 'kage', 闇: 'yami', 炎: 'homura',
+  君: 'kimi', 僕: 'boku', 私: 'watashi', 俺: 'ore', 人: 'hito', 子: 'ko',
+  愛: 'ai', 恋: 'koi', 心: 'kokoro', 夢: 'yume', 涙: 'namida', 声: 'koe',
+  歌: 'uta', 命: 'inochi', 魂: 'tamashii', 嘘: 'uso', 色: 'iro', 道: 'michi',
+  街: 'machi', 手: 'te', 目: 'me', 鬼: 'oni', 神: 'kami', 猫: 'neko', 犬: 'inu',
+  鳥: 'tori', 白: 'shiro', 黒: 'kuro', 赤: 'aka', 青: 'ao', 前: 'mae', 後: 'ato',
+  上: 'ue', 下: 'shita', 中: 'naka', 外: 'soto', 時: 'toki', 世: 'yo',
+  // Verb and adjective stems
+  駆: 'ka', 走: 'hashi', 飛: 'to', 行: 'i', 生: 'i', 会: 'a', 逢: 'a', 見: 'mi',
+  言: 'i', 思: 'omo', 好: 'su', 知: 'shi', 待: 'ma', 帰: 'kae', 呼: 'yo',
+  抱: 'da', 消: 'ki', 咲: 'sa', 散: 'chi', 落: 'o', 届: 'todo', 忘: 'wasu',
+  泣: 'na', 笑: 'wara', 優: 'yasa', 新: 'atara', 長: 'naga', 遠: 'too',
+  強: 'tsuyo', 美: 'utsuku', 甘: 'ama', 痛: 'ita', 寂: 'sabi', 悲: 'kana',
+  楽: 'tano',
+};
+
+const KANA = /[\u3040-\u30ff]/;
+const KANJI_WORD_PATTERN = new RegExp(Object.keys(KANJI_WORDS).join('|'), 'g');
+
+function readKanji(text: string): string {
+  return text
+    .replace(KANJI_WORD_PATTERN, (word) => KANJI_WORDS[word])
+    .replace(/[\u3400-\u9fff]/g, (char) => KANJI_READINGS[char] ?? char);
+}
+
+// ===== Devanagari =====
+
+const DEVANAGARI_CONSONANTS: Record<string, string> = {
+  क: 'k', ख: 'kh', ग: 'g', घ: 'gh', ङ: 'n', च: 'ch', छ: 'chh', ज: 'j', झ: 'jh',
+  ञ: 'n', ट: 't', ठ: 'th', ड: 'd', ढ: 'dh', ण: 'n', त: 't', थ: 'th', द: 'd',
+  ध: 'dh', न: 'n', प: 'p', फ: 'ph', ब: 'b', भ: 'bh', म: 'm', य: 'y', र: 'r',
+  ल: 'l', व: 'v', श: 'sh', ष: 'sh', स: 's', ह: 'h',
+};
+
+const DEVANAGARI_VOWELS: Record<string, string> = {
+  अ: 'a', आ: 'a', इ: 'i', ई: 'i', उ: 'u', ऊ: 'u', ऋ: 'ri', ए: 'e', ऐ: 'ai',
+  ओ: 'o', औ: 'au',
+  // Anusvara, chandrabindu, visarga
+  '\u0902': 'n', '\u0901': 'n', '\u0903': 'h',
+};
+
+// Vowel signs replace a consonant's inherent "a"
+const DEVANAGARI_SIGNS: Record<string, string> = {
+  '\u093e': 'a', '\u093f': 'i', '\u0940': 'i', '\u0941': 'u', '\u0942': 'u',
+  '\u0943': 'ri', '\u0947': 'e', '\u0948': 'ai', '\u094b': 'o', '\u094c': 'au',
+};
+
+const VIRAMA = '\u094d';
+const NUKTA = '\u093c';
+
+function isDevanagariLetter(char: string | undefined): boolean {
+  return !!char && (char in DEVANAGARI_CONSONANTS || char in DEVANAGARI_VOWELS);
+}
+
+/**
+ * Romanize every supported script in `text`, leaving anything else as is
+ */
+export function transliterate(text: string): string {
+  if (!hasNonLatinScript(text) && !/[ßæøœłđþðı]/.test(text)) return text;
+
+  // Han without kana may well be Chinese, which reads differently
+  if (KANA.test(text)) text = readKanji(text);
+
+  const chars = Array.from(text.replace(ARABIC_MARKS, ''));
+  let out = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const code = char.charCodeAt(0);
+
+    if (code >= HANGUL_BASE && code <= HANGUL_LAST) {
+      out += romanizeHangul(code);
+      continue;
+    }
+
+    const kana = kanaIndex(code);
+    if (kana >= 0) {
+      if (kana === SMALL_TSU - HIRAGANA_FIRST) {
+        // Double the next consonant: きって -> kitte
+        const next = kanaIndex(chars[i + 1]?.charCodeAt(0) ?? 0);
+        const romaji = next >= 0 ? KANA_ROMAJI[next] : '';
+        if (/^[^aeiou]/.test(romaji)) out += romaji[0];
+        continue;
+      }
+
+      const nextCode = chars[i + 1]?.charCodeAt(0) ?? 0;
+      const small = nextCode >= 0x30a1 ? nextCode - KATAKANA_OFFSET : nextCode;
+      const romaji = KANA_ROMAJI[kana];
+
+      // Contractions: きゃ -> kya, しゃ -> sha
+      if (SMALL_Y.has(small) && romaji.endsWith('i') && romaji.length > 1) {
+        const glide = KANA_ROMAJI[small - HIRAGANA_FIRST];
+        out += /^(sh|ch|j)/.test(romaji) ? romaji.slice(0, -1) + glide.slice(1) : romaji.slice(0, -1) + glide;
+        i++;
+        continue;
+      }
+
+      out += romaji;
+      continue;
+    }
+
+    if (code === LONG_VOWEL_MARK) continue;
+
+    if (char in DEVANAGARI_CONSONANTS) {
+      out += DEVANAGARI_CONSONANTS[char];
+
+      let next = chars[i + 1];
+      if (next === NUKTA) next = chars[++i + 1];
+
+      if (next === VIRAMA) {
+        i++;
+      } else if (next && next in DEVANAGARI_SIGNS) {
+        out += DEVANAGARI_SIGNS[next];
+        i++;
+      } else if (isDevanagariLetter(next)) {
+        // The inherent vowel is dropped at the end of a word: तुम -> tum
+        out += 'a';
+      }
+      continue;
+    }
+
+    if (char in DEVANAGARI_VOWELS) {
+      out += DEVANAGARI_VOWELS[char];
+      continue;
+    }
+
+    out += CHARACTER_MAP[char] ?? char;
+  }
+
+  return out;
+}
@@ -1,14 +1,67 @@
+import type { Platform } from '../providers/base';
+import type { ScoreBreakdown } from './scoring';
+import matchConfigFile from './match-config.json';
+
+/**
+ * Canonical track model shared by every provider, the matcher, the matching
+ * worker and the Gemini client. Use the adapters in ./adapters to build one
+ * from raw API payloads.
+ */
 export interface UnifiedTrack {
-  id: string; // Platform-specific ID (Spotify URI or YouTube videoId)
-  platform: 'spotify' | 'youtube';
+  id: string; // Bare platform ID (Spotify track ID, YouTube videoId, Deezer ID, ...)
+  platform: Platform;
   title: string;
-  artist: string;
+  artist: string; // Display string, e.g. "Artist A, Artist B"
   artists: string[];
   album?: string;
   durationMs: number;
-  isrc?: string;
-  videoId?: string;
-  raw: any;
+  isrc?: string; // International Standard Recording Code - helps with matching
+  videoId?: string; // YouTube only, same as id
+  externalUrl?: string;
+  thumbnailUrl?: string;
+  raw?: unknown; // Original API payload, for debugging
+}
+
+/**
+ * Exact lookup of a target-platform track by ISRC, for platforms that have one
+ */
+export type IsrcLookupFn = (isrc: string) => Promise<UnifiedTrack | null>;
+
+/**
+ * A match found for this source track by an earlier sync
+ */
+export interface CachedMatch {
+  target: UnifiedTrack;
+  confidence: number;
+  userConfirmed: boolean; // Confirmed by the user the lookup is for
+  confirmedByOthers?: number; // Set when only other users confirmed it: how many
+}
+
+/**
+ * Known matches on the target platform, consulted before searching.
+ * `record` is optional: browser callers only read.
+ */
+export interface MatchCache {
+  lookup(source: UnifiedTrack): Promise<CachedMatch | null>;
+  record?(source: UnifiedTrack, target: UnifiedTrack, confidence: number): Promise<void>;
+}
+
+/**
+ * What the target platform's search offers beyond plain text queries
+ */
+export interface TargetSearchOptions {
+  isrcLookup?: IsrcLookupFn;
+  fieldedSearch?: boolean; // Accepts track:"…" artist:"…" qualifiers
+  cache?: MatchCache;
+}
+
+/**
+ * A runner-up candidate, offered in the preview as "did you mean…"
+ */
+export interface MatchAlternative {
+  track: UnifiedTrack;
+  confidence: number;
+  breakdown: ScoreBreakdown;
 }
 
 export type MatchStatus = 'matched' | 'low_confidence' | 'not_found' | 'already_exists';
@@ -19,24 +72,31 @@ export interface MatchResult {
   confidence: number; // 0.0 to 1.0
   status: MatchStatus;
   existingId?: string;
+  breakdown?: ScoreBreakdown; // How the chosen target scored, when it was scored
+  sourcePosition?: number; // Index of the source track in the source list
+  fromCache?: boolean; // Taken from the match cache instead of a search
+  alternatives?: MatchAlternative[]; // Next best candidates, best first
+  chosenAlternativeId?: string; // Set when the user swapped to one of `alternatives`
 }
 
+/**
+ * Scoring weights and thresholds. The defaults live in ./match-config.json,
+ * which scripts/calibrate-matching.ts rewrites with values fitted on user
+ * corrections; its version number goes up with every fit.
+ */
 export interface MatchConfig {
-  highConfidenceThreshold: number; // default: 0.85
-  lowConfidenceThreshold: number; // default: 0.60
-  durationToleranceMs: number; // default: 3000 (3 seconds)
-  durationWeight: number; // default: 0.15
-  titleWeight: number; // default: 0.55
-  artistWeight: number; // default: 0.30
-  maxSearchResults: number; // default: 5
+  highConfidenceThreshold: number; // At or above: matched
+  lowConfidenceThreshold: number; // Below: not_found
+  durationToleranceMs: number;
+  durationWeight: number;
+  titleWeight: number;
+  artistWeight: number;
+  albumWeight: number; // Bonus when both sides know the album
+  versionMismatchPenalty: number; // For e.g. a live cut of a studio track
+  maxSearchResults: number; // Per search query
+  maxAlternatives: number; // Runners-up returned with each result
 }
 
-export const DEFAULT_MATCH_CONFIG: MatchConfig = {
-  highConfidenceThreshold: 0.80,
-  lowConfidenceThreshold: 0.55,
-  durationToleranceMs: 3000,
-  durationWeight: 0.15,
-  titleWeight: 0.55,
-  artistWeight: 0.30,
-  maxSearchResults: 10,
-};
+export const MATCH_CONFIG_VERSION: number = matchConfigFile.version;
+
+export const DEFAULT_MATCH_CONFIG: MatchConfig = { ...matchConfigFile.config };
@@ -15,11 +15,13 @@ import {
   Platform,
   Track,
   Playlist,
+  ProviderCapabilities,
   UserProfile,
   AuthTokens,
   SearchOptions,
   ProviderConfig,
 } from './base';
+import { splitArtists } from '../matching/normalize';
 
 // ==================== Apple Music API Types ====================
 
@@ -87,6 +89,17 @@ export class AppleMusicProvider extends BaseMusicProvider {
   readonly name = 'Apple Music';
   readonly config: ProviderConfig;
 
+  readonly capabilities: ProviderCapabilities = {
+    refreshableTokens: false, // Music user tokens come from MusicKit JS, not OAuth
+    likedTracks: { read: true, write: true },
+    isrcSearch: true,
+    fieldedSearch: false,
+    maxBatchSize: 100,
+    playlistPrivacy: ['private'],
+    // The Apple Music API can only add to library playlists, never edit them
+    editOperations: [],
+  };
+
   private developerToken: string;
   private apiVersion = 'v1';
 
@@ -208,11 +221,21 @@ export class AppleMusicProvider extends BaseMusicProvider {
   // ===== Playlists =====
 
   async getUserPlaylists(musicUserToken: string, limit = 50): Promise<Playlist[]> {
-    const response = await this.makeAuthenticatedRequest<{
-      data: AppleMusicLibraryPlaylist[];
-    }>(`/me/library/playlists?limit=${limit}`, musicUserToken);
+    const playlists: Playlist[] = [];
+
+    // Library playlists come at most 100 per page
+    while (playlists.length < limit) {
+      const pageSize = Math.min(100, limit - playlists.length);
+      const response = await this.makeAuthenticatedRequest<{
+        data: AppleMusicLibraryPlaylist[];
+        next?: string;
+      }>(`/me/library/playlists?limit=${pageSize}&offset=${playlists.length}`, musicUserToken);
+
+      playlists.push(...response.data.map((playlist) => this.transformPlaylist(playlist)));
+      if (!response.next) break;
+    }
 
-    return response.data.map((playlist) => this.transformPlaylist(playlist));
+    return playlists;
   }
 
   async getPlaylist(musicUserToken: string, playlistId: string): Promise<Playlist> {
@@ -223,11 +246,52 @@ export class AppleMusicProvider extends BaseMusicProvider {
       : `/catalog/us/playlists/${playlistId}`;
 
     const response = await this.makeAuthenticatedRequest<{
-      data: [AppleMusicLibraryPlaylist | AppleMusicPlaylist];
+      data: [(AppleMusicLibraryPlaylist | AppleMusicPlaylist) & { relationships?: { tracks: { next?: string } } }];
     }>(`${endpoint}?include=tracks`, musicUserToken);
 
     const playlist = response.data[0];
-    const tracks = playlist.relationships?.tracks?.data || [];
+    const tracks = [...(playlist.relationships?.tracks?.data || [])];
+    let next = playlist.relationships?.tracks?.next;
+
+    // Only the first 100 tracks come embedded
+    while (next) {
+      const page = await this.makeRequest<{ data: AppleMusicTrack[]; next?: string }>(
+        `${this.config.apiBaseUrl}${next}`,
+        { headers: { Authorization: `Bearer ${this.developerToken}`, 'Music-User-Token': musicUserToken } }
+      );
+      tracks.push(...page.data);
+      next = page.next;
+    }
+
+    return {
+      ...this.transformPlaylist(playlist),
+      tracks: tracks.map((track) => this.transformTrack(track)),
+    };
+  }
+
+  async getPublicPlaylist(playlistId: string, region = 'us'): Promise<Playlist> {
+    // Catalog playlists (including ones users share) only need the developer token
+    const headers = { Authorization: `Bearer ${this.developerToken}` };
+    const response = await this.makeRequest<{
+      data: [AppleMusicPlaylist & { relationships?: { tracks: { next?: string } } }];
+    }>(
+      `${this.config.apiBaseUrl}/${this.apiVersion}/catalog/${region}/playlists/${playlistId}?include=tracks`,
+      { headers }
+    );
+
+    const playlist = response.data[0];
+    const tracks = [...(playlist.relationships?.tracks?.data || [])];
+    let next = playlist.relationships?.tracks?.next;
+
+    // Only the first 100 tracks come embedded
+    while (next) {
+      const page = await this.makeRequest<{ data: AppleMusicTrack[]; next?: string }>(
+        `${this.config.apiBaseUrl}${next}`,
+        { headers }
+      );
+      tracks.push(...page.data);
+      next = page.next;
+    }
 
     return {
       ...this.transformPlaylist(playlist),
@@ -283,6 +347,22 @@ export class AppleMusicProvider extends BaseMusicProvider {
     );
   }
 
+  async removeTracksFromPlaylist(): Promise<void> {
+    this.unsupported('removeTracks');
+  }
+
+  async reorderPlaylist(): Promise<void> {
+    this.unsupported('reorder');
+  }
+
+  async updatePlaylistDetails(): Promise<void> {
+    this.unsupported('updateDetails');
+  }
+
+  async deletePlaylist(): Promise<void> {
+    this.unsupported('deletePlaylist');
+  }
+
   // ===== Library/Liked Songs =====
 
   async getLikedTracks(musicUserToken: string, limit = 100): Promise<Track[]> {
@@ -312,6 +392,10 @@ export class AppleMusicProvider extends BaseMusicProvider {
     );
   }
 
+  async removeFromLikedTracks(): Promise<void> {
+    this.unsupported('removeLiked');
+  }
+
   // ===== Search =====
 
   async searchTracks(query: string, options: SearchOptions = {}): Promise<Track[]> {
@@ -344,6 +428,23 @@ export class AppleMusicProvider extends BaseMusicProvider {
     return response.results.songs?.data?.map((track) => this.transformTrack(track)) || [];
   }
 
+  async findByIsrc(isrc: string): Promise<Track | null> {
+    // Catalog lookups only need the developer token
+    const response = await this.makeRequest<{
+      data: AppleMusicTrack[];
+    }>(
+      `${this.config.apiBaseUrl}/${this.apiVersion}/catalog/us/songs?filter[isrc]=${encodeURIComponent(isrc)}`,
+      {
+        headers: {
+          Authorization: `Bearer ${this.developerToken}`,
+        },
+      }
+    );
+
+    const track = response.data?.[0];
+    return track ? this.transformTrack(track) : null;
+  }
+
   async getTrack(musicUserToken: string | null, trackId: string): Promise<Track | null> {
     try {
       const headers: Record<string, string> = {
@@ -405,6 +506,7 @@ export class AppleMusicProvider extends BaseMusicProvider {
       id: track.id,
       title: track.attributes.name,
       artist: track.attributes.artistName,
+      artists: splitArtists(track.attributes.artistName),
       album: track.attributes.albumName,
       durationMs: track.attributes.durationInMillis,
       platform: 'apple',
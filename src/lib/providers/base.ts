@@ -8,21 +8,16 @@
  * 3. Register in the ProviderRegistry
  */
 
+import type { UnifiedTrack } from '../matching/types';
+
 // ==================== Core Types ====================
 
 export type Platform = 'spotify' | 'youtube' | 'apple' | 'tidal' | 'deezer';
 
-export interface Track {
-  id: string;
-  title: string;
-  artist: string;
-  album?: string;
-  durationMs: number;
-  platform: Platform;
-  externalUrl?: string;
-  thumbnailUrl?: string;
-  isrc?: string; // International Standard Recording Code - helps with matching
-}
+/**
+ * Provider tracks use the canonical track model shared with the matcher
+ */
+export type Track = UnifiedTrack;
 
 export interface Playlist {
   id: string;
@@ -53,12 +48,48 @@ export interface AuthTokens {
 }
 
 export interface SearchOptions {
+  accessToken?: string; // User token, for platforms whose search requires auth
   limit?: number;
   offset?: number;
   includeAlbums?: boolean;
   includeArtists?: boolean;
 }
 
+export interface PlaylistDetailsUpdate {
+  name?: string;
+  description?: string;
+  isPublic?: boolean;
+}
+
+/**
+ * Destructive/editing operations that not every platform's API allows
+ */
+export type PlaylistEditOperation =
+  | 'removeTracks'
+  | 'reorder'
+  | 'updateDetails'
+  | 'deletePlaylist'
+  | 'removeLiked';
+
+export type PlaylistPrivacy = 'public' | 'private' | 'unlisted';
+
+/**
+ * What a platform's API allows. Callers check this to hide or skip
+ * unsupported actions instead of discovering them from a failed request.
+ */
+export interface ProviderCapabilities {
+  refreshableTokens: boolean; // Expired tokens can be renewed without the user
+  likedTracks: {
+    read: boolean; // The whole liked library can be listed
+    write: boolean;
+  };
+  isrcSearch: boolean;
+  fieldedSearch: boolean; // Search understands track:"…" artist:"…" qualifiers
+  maxBatchSize: number; // Tracks per add request
+  playlistPrivacy: PlaylistPrivacy[]; // Visibility options for new playlists
+  editOperations: PlaylistEditOperation[]; // Includes playlist deletion
+}
+
 export interface ProviderConfig {
   clientId: string;
   clientSecret?: string;
@@ -67,6 +98,22 @@ export interface ProviderConfig {
   apiBaseUrl: string;
 }
 
+// ==================== Errors ====================
+
+/**
+ * Thrown when a provider is asked for an operation its platform can't do.
+ * Check `supportsOperation` (or `capabilities`) first to avoid it.
+ */
+export class UnsupportedOperationError extends Error {
+  constructor(
+    readonly platform: Platform,
+    readonly operation: PlaylistEditOperation
+  ) {
+    super(`${operation} is not supported on ${platform}`);
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
 // ==================== Provider Interface ====================
 
 export interface MusicProvider {
@@ -74,6 +121,13 @@ export interface MusicProvider {
   readonly name: string;
   readonly config: ProviderConfig;
 
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Check whether an edit operation is supported before calling it
+   */
+  supportsOperation(operation: PlaylistEditOperation): boolean;
+
   // ===== Authentication =====
   /**
    * Generate OAuth authorization URL
@@ -115,7 +169,7 @@ export interface MusicProvider {
   /**
    * Get user's playlists
    * @param accessToken - User's access token
-   * @param limit - Max number of playlists to return
+   * @param limit - Max number of playlists to return, across as many pages as it takes
    * @returns Array of user's playlists
    */
   getUserPlaylists(accessToken: string, limit?: number): Promise<Playlist[]>;
@@ -124,10 +178,19 @@ export interface MusicProvider {
    * Get playlist details including tracks
    * @param accessToken - User's access token
    * @param playlistId - Playlist ID
-   * @returns Playlist with tracks
+   * @returns Playlist with every track, across as many pages as it takes
    */
   getPlaylist(accessToken: string, playlistId: string): Promise<Playlist>;
 
+  /**
+   * Get a public playlist with the app's own credentials, for users who
+   * haven't connected this platform
+   * @param playlistId - Playlist ID
+   * @param region - Storefront or country code, where the platform needs one
+   * @returns Playlist with tracks
+   */
+  getPublicPlaylist(playlistId: string, region?: string): Promise<Playlist>;
+
   /**
    * Create a new playlist
    * @param accessToken - User's access token
@@ -155,6 +218,62 @@ export interface MusicProvider {
     trackIds: string[]
   ): Promise<void>;
 
+  /**
+   * Remove every occurrence of the given tracks from a playlist
+   * @param accessToken - User's access token
+   * @param playlistId - Playlist ID
+   * @param trackIds - Array of track IDs
+   * @throws UnsupportedOperationError if 'removeTracks' isn't supported
+   */
+  removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void>;
+
+  /**
+   * Track IDs of a playlist at their positions in it. Items the platform
+   * lists without a usable track (removed, unavailable) keep their slot as ''.
+   * @param accessToken - User's access token
+   * @param playlistId - Playlist ID
+   */
+  getPlaylistOrder(accessToken: string, playlistId: string): Promise<string[]>;
+
+  /**
+   * Reorder a playlist so the given tracks come first, in that order.
+   * Tracks not listed keep their relative order after them.
+   * @param accessToken - User's access token
+   * @param playlistId - Playlist ID
+   * @param trackIds - Track IDs in the desired order
+   * @throws UnsupportedOperationError if 'reorder' isn't supported
+   */
+  reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void>;
+
+  /**
+   * Change a playlist's name, description or visibility
+   * @param accessToken - User's access token
+   * @param playlistId - Playlist ID
+   * @param details - Fields to change; omitted fields are left as they are
+   * @throws UnsupportedOperationError if 'updateDetails' isn't supported
+   */
+  updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void>;
+
+  /**
+   * Delete a playlist (or unfollow it, where the platform never deletes)
+   * @param accessToken - User's access token
+   * @param playlistId - Playlist ID
+   * @throws UnsupportedOperationError if 'deletePlaylist' isn't supported
+   */
+  deletePlaylist(accessToken: string, playlistId: string): Promise<void>;
+
   // ===== Library/Liked Songs =====
   /**
    * Get user's liked/saved tracks
@@ -171,6 +290,14 @@ export interface MusicProvider {
    */
   addToLikedTracks(accessToken: string, trackIds: string[]): Promise<void>;
 
+  /**
+   * Remove tracks from user's liked/saved tracks
+   * @param accessToken - User's access token
+   * @param trackIds - Array of track IDs
+   * @throws UnsupportedOperationError if 'removeLiked' isn't supported
+   */
+  removeFromLikedTracks(accessToken: string, trackIds: string[]): Promise<void>;
+
   // ===== Search =====
   /**
    * Search for tracks
@@ -180,6 +307,15 @@ export interface MusicProvider {
    */
   searchTracks(query: string, options?: SearchOptions): Promise<Track[]>;
 
+  /**
+   * Look up a track by ISRC. Only meaningful when `capabilities.isrcSearch`
+   * is set; other providers always return null.
+   * @param isrc - International Standard Recording Code
+   * @param options - Search options (accessToken)
+   * @returns A track carrying that ISRC, or null
+   */
+  findByIsrc(isrc: string, options?: SearchOptions): Promise<Track | null>;
+
   /**
    * Get track by ID
    * @param accessToken - User's access token (may be optional for some providers)
@@ -199,6 +335,16 @@ export abstract class BaseMusicProvider implements MusicProvider {
   abstract readonly platform: Platform;
   abstract readonly name: string;
   abstract readonly config: ProviderConfig;
+  abstract readonly capabilities: ProviderCapabilities;
+
+  supportsOperation(operation: PlaylistEditOperation): boolean {
+    return this.capabilities.editOperations.includes(operation);
+  }
+
+  async getPlaylistOrder(accessToken: string, playlistId: string): Promise<string[]> {
+    const playlist = await this.getPlaylist(accessToken, playlistId);
+    return (playlist.tracks || []).map((t) => t.id);
+  }
 
   // ===== Helper Methods =====
 
@@ -229,7 +375,9 @@ export abstract class BaseMusicProvider implements MusicProvider {
           );
         }
 
-        return await response.json();
+        // Some write endpoints answer 200/204 with no body
+        const body = await response.text();
+        return (body ? JSON.parse(body) : undefined) as T;
       } catch (error) {
         lastError = error as Error;
         console.error(
@@ -249,6 +397,42 @@ export abstract class BaseMusicProvider implements MusicProvider {
     );
   }
 
+  /**
+   * Throw for an edit operation this platform doesn't support
+   */
+  protected unsupported(operation: PlaylistEditOperation): never {
+    throw new UnsupportedOperationError(this.platform, operation);
+  }
+
+  /**
+   * Single-item moves (array splice semantics, always moving an item
+   * earlier) that turn `currentIds` into `orderedIds` followed by the
+   * unlisted tracks in their current order
+   */
+  protected getReorderMoves(
+    currentIds: string[],
+    orderedIds: string[]
+  ): { from: number; to: number }[] {
+    const listed = new Set(orderedIds);
+    const desired = [
+      ...orderedIds.filter((id) => currentIds.includes(id)),
+      ...currentIds.filter((id) => !listed.has(id)),
+    ];
+
+    const working = [...currentIds];
+    const moves: { from: number; to: number }[] = [];
+
+    desired.forEach((id, to) => {
+      const from = working.indexOf(id, to);
+      if (from > to) {
+        working.splice(to, 0, ...working.splice(from, 1));
+        moves.push({ from, to });
+      }
+    });
+
+    return moves;
+  }
+
   /**
    * Delay execution
    */
@@ -297,6 +481,7 @@ export abstract class BaseMusicProvider implements MusicProvider {
   abstract getUserProfile(accessToken: string): Promise<UserProfile>;
   abstract getUserPlaylists(accessToken: string, limit?: number): Promise<Playlist[]>;
   abstract getPlaylist(accessToken: string, playlistId: string): Promise<Playlist>;
+  abstract getPublicPlaylist(playlistId: string, region?: string): Promise<Playlist>;
   abstract createPlaylist(
     accessToken: string,
     name: string,
@@ -309,8 +494,26 @@ export abstract class BaseMusicProvider implements MusicProvider {
     trackIds: string[]
   ): Promise<void>;
   abstract getLikedTracks(accessToken: string, limit?: number): Promise<Track[]>;
+  abstract removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void>;
+  abstract reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void>;
+  abstract updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void>;
+  abstract deletePlaylist(accessToken: string, playlistId: string): Promise<void>;
   abstract addToLikedTracks(accessToken: string, trackIds: string[]): Promise<void>;
+  abstract removeFromLikedTracks(accessToken: string, trackIds: string[]): Promise<void>;
   abstract searchTracks(query: string, options?: SearchOptions): Promise<Track[]>;
+  abstract findByIsrc(isrc: string, options?: SearchOptions): Promise<Track | null>;
   abstract getTrack(accessToken: string | null, trackId: string): Promise<Track | null>;
 }
 
@@ -16,6 +16,8 @@ import {
   Platform,
   Track,
   Playlist,
+  PlaylistDetailsUpdate,
+  ProviderCapabilities,
   UserProfile,
   AuthTokens,
   SearchOptions,
@@ -66,6 +68,21 @@ export class DeezerProvider extends BaseMusicProvider {
   readonly platform: Platform = 'deezer';
   readonly name = 'Deezer';
   readonly config: ProviderConfig;
+  readonly capabilities: ProviderCapabilities = {
+    refreshableTokens: false, // offline_access tokens don't expire, but can't be renewed
+    likedTracks: { read: true, write: true },
+    isrcSearch: true,
+    fieldedSearch: true,
+    maxBatchSize: 100,
+    playlistPrivacy: ['public', 'private'],
+    editOperations: [
+      'removeTracks',
+      'reorder',
+      'updateDetails',
+      'deletePlaylist',
+      'removeLiked',
+    ],
+  };
 
   constructor(config?: Partial<ProviderConfig>) {
     super();
@@ -183,24 +200,53 @@ export class DeezerProvider extends BaseMusicProvider {
   // ===== Playlists =====
 
   async getUserPlaylists(accessToken: string, limit = 50): Promise<Playlist[]> {
-    const data = await this.makeAuthenticatedRequest<any>(
-      `/user/me/playlists?limit=${limit}`,
-      accessToken
-    );
+    const playlists: Playlist[] = [];
+
+    while (playlists.length < limit) {
+      const pageSize = Math.min(100, limit - playlists.length);
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/user/me/playlists?limit=${pageSize}&index=${playlists.length}`,
+        accessToken
+      );
+      const items = data.data || [];
 
-    return (data.data || []).map((item: any) => this.transformPlaylist(item));
+      playlists.push(...items.map((item: any) => this.transformPlaylist(item)));
+      if (!data.next || items.length === 0) break;
+    }
+
+    return playlists;
   }
 
   async getPlaylist(accessToken: string, playlistId: string): Promise<Playlist> {
-    const [playlistData, tracksData] = await Promise.all([
+    const [playlistData, items] = await Promise.all([
       this.makeAuthenticatedRequest<any>(`/playlist/${playlistId}`, accessToken),
-      this.makeAuthenticatedRequest<any>(
-        `/playlist/${playlistId}/tracks?limit=100`,
-        accessToken
-      ),
+      this.getPlaylistTrackItems(accessToken, playlistId),
     ]);
 
-    const tracks = (tracksData.data || []).map((item: any) => this.transformTrack(item));
+    const tracks = items.map((item) => this.transformTrack(item));
+
+    return {
+      ...this.transformPlaylist(playlistData),
+      tracks,
+    };
+  }
+
+  async getPublicPlaylist(playlistId: string): Promise<Playlist> {
+    // Public playlists need no token; unknown or private ones come back as
+    // 200 with an `error` object
+    const playlistData = await this.makeRequest<any>(`${this.config.apiBaseUrl}/playlist/${playlistId}`);
+    if (!playlistData?.id) {
+      throw new Error(playlistData?.error?.message || 'Playlist not found');
+    }
+
+    const tracks: Track[] = [];
+    let next: string | undefined = `${this.config.apiBaseUrl}/playlist/${playlistId}/tracks?limit=100`;
+
+    while (next) {
+      const page: any = await this.makeRequest<any>(next);
+      tracks.push(...(page.data || []).map((item: any) => this.transformTrack(item)));
+      next = page.data?.length ? page.next : undefined;
+    }
 
     return {
       ...this.transformPlaylist(playlistData),
@@ -243,15 +289,77 @@ export class DeezerProvider extends BaseMusicProvider {
     trackIds: string[]
   ): Promise<void> {
     // Deezer accepts comma-separated track IDs
-    const songs = trackIds.join(',');
+    const { maxBatchSize } = this.capabilities;
+
+    for (let i = 0; i < trackIds.length; i += maxBatchSize) {
+      const songs = trackIds.slice(i, i + maxBatchSize).join(',');
+
+      await this.makeAuthenticatedRequest(
+        `/playlist/${playlistId}/tracks?songs=${songs}`,
+        accessToken,
+        { method: 'POST' }
+      );
+    }
+  }
+
+  async removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    if (trackIds.length === 0) return;
 
     await this.makeAuthenticatedRequest(
-      `/playlist/${playlistId}/tracks?songs=${songs}`,
+      `/playlist/${playlistId}/tracks?songs=${trackIds.join(',')}`,
+      accessToken,
+      { method: 'DELETE' }
+    );
+  }
+
+  async reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    // Deezer takes the complete new order in one request
+    const currentIds = await this.getPlaylistTrackIds(accessToken, playlistId);
+    const listed = new Set(trackIds);
+    const order = [
+      ...trackIds.filter((id) => currentIds.includes(id)),
+      ...currentIds.filter((id) => !listed.has(id)),
+    ];
+
+    await this.makeAuthenticatedRequest(
+      `/playlist/${playlistId}/tracks?order=${order.join(',')}`,
+      accessToken,
+      { method: 'POST' }
+    );
+  }
+
+  async updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void> {
+    const params = new URLSearchParams({
+      ...(details.name && { title: details.name }),
+      ...(details.description !== undefined && { description: details.description }),
+      ...(details.isPublic !== undefined && { public: String(details.isPublic) }),
+    });
+
+    await this.makeAuthenticatedRequest(
+      `/playlist/${playlistId}?${params.toString()}`,
       accessToken,
       { method: 'POST' }
     );
   }
 
+  async deletePlaylist(accessToken: string, playlistId: string): Promise<void> {
+    await this.makeAuthenticatedRequest(`/playlist/${playlistId}`, accessToken, {
+      method: 'DELETE',
+    });
+  }
+
   // ===== Library/Liked Songs =====
 
   async getLikedTracks(accessToken: string, limit = 50): Promise<Track[]> {
@@ -276,6 +384,18 @@ export class DeezerProvider extends BaseMusicProvider {
     }
   }
 
+  async removeFromLikedTracks(accessToken: string, trackIds: string[]): Promise<void> {
+    // Remove tracks one by one (Deezer API limitation)
+    for (const trackId of trackIds) {
+      await this.makeAuthenticatedRequest(
+        `/user/me/tracks?track_id=${trackId}`,
+        accessToken,
+        { method: 'DELETE' }
+      );
+      await this.delay(100);
+    }
+  }
+
   // ===== Search =====
 
   async searchTracks(query: string, options: SearchOptions = {}): Promise<Track[]> {
@@ -296,6 +416,12 @@ export class DeezerProvider extends BaseMusicProvider {
     return (data.data || []).map((item: any) => this.transformTrack(item));
   }
 
+  async findByIsrc(isrc: string): Promise<Track | null> {
+    // Public endpoint; unknown ISRCs come back as 200 with an `error` object
+    const data = await this.makeRequest<any>(`${this.config.apiBaseUrl}/track/isrc:${isrc}`);
+    return data?.id ? this.transformTrack(data) : null;
+  }
+
   async getTrack(accessToken: string | null, trackId: string): Promise<Track | null> {
     try {
       const headers: Record<string, string> = {};
@@ -316,6 +442,30 @@ export class DeezerProvider extends BaseMusicProvider {
 
   // ===== Helper Methods =====
 
+  /**
+   * Track IDs of a whole playlist, in playlist order
+   */
+  // Every track of a playlist, a page of 100 at a time
+  private async getPlaylistTrackItems(accessToken: string, playlistId: string): Promise<any[]> {
+    const tracks: any[] = [];
+
+    for (let index = 0; ; index += 100) {
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/playlist/${playlistId}/tracks?limit=100&index=${index}`,
+        accessToken
+      );
+      const items: any[] = data.data || [];
+      tracks.push(...items);
+
+      if (!data.next || items.length === 0) return tracks;
+    }
+  }
+
+  private async getPlaylistTrackIds(accessToken: string, playlistId: string): Promise<string[]> {
+    const items = await this.getPlaylistTrackItems(accessToken, playlistId);
+    return items.map((item) => item.id?.toString());
+  }
+
   private async makeAuthenticatedRequest<T>(
     endpoint: string,
     accessToken: string,
@@ -333,6 +483,7 @@ export class DeezerProvider extends BaseMusicProvider {
       id: track.id?.toString(),
       title: track.title || track.title_short,
       artist: track.artist?.name || 'Unknown Artist',
+      artists: track.contributors?.map((c: any) => c.name) || [track.artist?.name || 'Unknown Artist'],
       album: track.album?.title,
       durationMs: track.duration * 1000, // Deezer returns seconds
       platform: 'deezer',
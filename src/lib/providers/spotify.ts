@@ -10,6 +10,8 @@ import {
   Platform,
   Track,
   Playlist,
+  PlaylistDetailsUpdate,
+  ProviderCapabilities,
   UserProfile,
   AuthTokens,
   SearchOptions,
@@ -22,6 +24,23 @@ export class SpotifyProvider extends BaseMusicProvider {
   readonly platform: Platform = 'spotify';
   readonly name = 'Spotify';
   readonly config: ProviderConfig;
+  readonly capabilities: ProviderCapabilities = {
+    refreshableTokens: true,
+    likedTracks: { read: true, write: true },
+    isrcSearch: true,
+    fieldedSearch: true,
+    maxBatchSize: 100,
+    playlistPrivacy: ['public', 'private'],
+    editOperations: [
+      'removeTracks',
+      'reorder',
+      'updateDetails',
+      'deletePlaylist',
+      'removeLiked',
+    ],
+  };
+
+  private appToken: { accessToken: string; expiresAt: number } | null = null;
 
   constructor(config?: Partial<ProviderConfig>) {
     super();
@@ -117,6 +136,39 @@ export class SpotifyProvider extends BaseMusicProvider {
     };
   }
 
+  /**
+   * App-level token (client credentials flow) for public data, cached until
+   * shortly before it expires
+   */
+  private async getAppAccessToken(): Promise<string> {
+    if (this.appToken && Date.now() < this.appToken.expiresAt - 60_000) {
+      return this.appToken.accessToken;
+    }
+
+    const response = await fetch('https://accounts.spotify.com/api/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${Buffer.from(
+          `${this.config.clientId}:${this.config.clientSecret}`
+        ).toString('base64')}`,
+      },
+      body: new URLSearchParams({ grant_type: 'client_credentials' }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Spotify client credentials failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    this.appToken = {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+    };
+
+    return this.appToken.accessToken;
+  }
+
   async validateToken(accessToken: string): Promise<boolean> {
     try {
       await this.makeAuthenticatedRequest('/me', accessToken);
@@ -144,21 +196,58 @@ export class SpotifyProvider extends BaseMusicProvider {
   // ===== Playlists =====
 
   async getUserPlaylists(accessToken: string, limit = 50): Promise<Playlist[]> {
-    const data = await this.makeAuthenticatedRequest<any>(
-      `/me/playlists?limit=${limit}`,
-      accessToken
-    );
+    const playlists: Playlist[] = [];
+
+    // Spotify returns at most 50 playlists per page
+    while (playlists.length < limit) {
+      const pageSize = Math.min(50, limit - playlists.length);
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/me/playlists?limit=${pageSize}&offset=${playlists.length}`,
+        accessToken
+      );
+
+      playlists.push(...data.items.map((item: any) => this.transformPlaylist(item)));
+      if (!data.next) break;
+    }
 
-    return data.items.map((item: any) => this.transformPlaylist(item));
+    return playlists;
   }
 
-  async getPlaylist(accessToken: string, playlistId: string): Promise<Playlist> {
+  /**
+   * A playlist with every one of its items, including those whose track is
+   * null (removed from Spotify or unavailable)
+   */
+  private async getPlaylistItems(
+    accessToken: string,
+    playlistId: string
+  ): Promise<{ data: any; items: any[] }> {
     const data = await this.makeAuthenticatedRequest<any>(
       `/playlists/${playlistId}`,
       accessToken
     );
 
-    const tracks = data.tracks?.items?.map((item: any) => this.transformTrack(item.track)) || [];
+    const items: any[] = data.tracks?.items || [];
+    let next: string | null = data.tracks?.next;
+
+    // Playlist responses only embed the first 100 tracks
+    while (next) {
+      const page = await this.makeAuthenticatedRequest<any>(
+        next.replace(this.config.apiBaseUrl, ''),
+        accessToken
+      );
+      items.push(...page.items);
+      next = page.next;
+    }
+
+    return { data, items };
+  }
+
+  async getPlaylist(accessToken: string, playlistId: string): Promise<Playlist> {
+    const { data, items } = await this.getPlaylistItems(accessToken, playlistId);
+
+    const tracks = items
+      .filter((item) => item.track)
+      .map((item) => this.transformTrack(item.track));
 
     return {
       ...this.transformPlaylist(data),
@@ -166,6 +255,11 @@ export class SpotifyProvider extends BaseMusicProvider {
     };
   }
 
+  async getPublicPlaylist(playlistId: string): Promise<Playlist> {
+    // Public playlists read the same with an app token as with a user's
+    return this.getPlaylist(await this.getAppAccessToken(), playlistId);
+  }
+
   async createPlaylist(
     accessToken: string,
     name: string,
@@ -211,15 +305,92 @@ export class SpotifyProvider extends BaseMusicProvider {
     }
   }
 
+  async removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    const tracks = trackIds.map((id) => ({ uri: `spotify:track:${id}` }));
+
+    // Spotify allows max 100 tracks per request
+    for (let i = 0; i < tracks.length; i += 100) {
+      await this.makeAuthenticatedRequest(
+        `/playlists/${playlistId}/tracks`,
+        accessToken,
+        {
+          method: 'DELETE',
+          body: JSON.stringify({ tracks: tracks.slice(i, i + 100) }),
+        }
+      );
+    }
+  }
+
+  async getPlaylistOrder(accessToken: string, playlistId: string): Promise<string[]> {
+    const { items } = await this.getPlaylistItems(accessToken, playlistId);
+    return items.map((item) => item.track?.id ?? '');
+  }
+
+  async reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    // Positions count every item, so null-track items have to stay in the list
+    const currentIds = await this.getPlaylistOrder(accessToken, playlistId);
+
+    // Moves only ever go earlier, so insert_before is the target index
+    for (const { from, to } of this.getReorderMoves(currentIds, trackIds)) {
+      await this.makeAuthenticatedRequest(
+        `/playlists/${playlistId}/tracks`,
+        accessToken,
+        {
+          method: 'PUT',
+          body: JSON.stringify({ range_start: from, insert_before: to }),
+        }
+      );
+    }
+  }
+
+  async updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void> {
+    await this.makeAuthenticatedRequest(`/playlists/${playlistId}`, accessToken, {
+      method: 'PUT',
+      body: JSON.stringify({
+        name: details.name,
+        description: details.description,
+        public: details.isPublic,
+      }),
+    });
+  }
+
+  async deletePlaylist(accessToken: string, playlistId: string): Promise<void> {
+    // Spotify never deletes playlists; unfollowing removes it from the library
+    await this.makeAuthenticatedRequest(`/playlists/${playlistId}/followers`, accessToken, {
+      method: 'DELETE',
+    });
+  }
+
   // ===== Library/Liked Songs =====
 
   async getLikedTracks(accessToken: string, limit = 50): Promise<Track[]> {
-    const data = await this.makeAuthenticatedRequest<any>(
-      `/me/tracks?limit=${limit}`,
-      accessToken
-    );
+    const tracks: Track[] = [];
+
+    // Spotify returns at most 50 saved tracks per page
+    while (tracks.length < limit) {
+      const pageSize = Math.min(50, limit - tracks.length);
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/me/tracks?limit=${pageSize}&offset=${tracks.length}`,
+        accessToken
+      );
+
+      tracks.push(...data.items.map((item: any) => this.transformTrack(item.track)));
+      if (!data.next) break;
+    }
 
-    return data.items.map((item: any) => this.transformTrack(item.track));
+    return tracks;
   }
 
   async addToLikedTracks(accessToken: string, trackIds: string[]): Promise<void> {
@@ -233,6 +404,17 @@ export class SpotifyProvider extends BaseMusicProvider {
     }
   }
 
+  async removeFromLikedTracks(accessToken: string, trackIds: string[]): Promise<void> {
+    // Spotify allows max 50 tracks per request
+    for (let i = 0; i < trackIds.length; i += 50) {
+      const batch = trackIds.slice(i, i + 50);
+      await this.makeAuthenticatedRequest(`/me/tracks`, accessToken, {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: batch }),
+      });
+    }
+  }
+
   // ===== Search =====
 
   async searchTracks(query: string, options: SearchOptions = {}): Promise<Track[]> {
@@ -246,14 +428,22 @@ export class SpotifyProvider extends BaseMusicProvider {
       offset,
     });
 
-    // Search doesn't require authentication
+    // Spotify rejects anonymous search, so use the caller's token when given
     const data = await this.makeRequest<any>(
-      `${this.config.apiBaseUrl}/search?${params}`
+      `${this.config.apiBaseUrl}/search?${params}`,
+      options.accessToken
+        ? { headers: { Authorization: `Bearer ${options.accessToken}` } }
+        : {}
     );
 
     return data.tracks?.items?.map((item: any) => this.transformTrack(item)) || [];
   }
 
+  async findByIsrc(isrc: string, options: SearchOptions = {}): Promise<Track | null> {
+    const [track] = await this.searchTracks(`isrc:${isrc}`, { ...options, limit: 1 });
+    return track ?? null;
+  }
+
   async getTrack(accessToken: string | null, trackId: string): Promise<Track | null> {
     try {
       const headers: Record<string, string> = {};
@@ -291,10 +481,13 @@ export class SpotifyProvider extends BaseMusicProvider {
   }
 
   private transformTrack(track: any): Track {
+    const artists: string[] = track.artists?.map((a: any) => a.name) || [];
+
     return {
       id: track.id,
       title: track.name,
-      artist: track.artists?.map((a: any) => a.name).join(', ') || 'Unknown Artist',
+      artist: artists.join(', ') || 'Unknown Artist',
+      artists,
       album: track.album?.name,
       durationMs: track.duration_ms,
       platform: 'spotify',
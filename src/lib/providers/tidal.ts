@@ -15,11 +15,14 @@ import {
   Platform,
   Track,
   Playlist,
+  PlaylistDetailsUpdate,
+  ProviderCapabilities,
   UserProfile,
   AuthTokens,
   SearchOptions,
   ProviderConfig,
 } from './base';
+import { parseIsoDuration } from '../matching/adapters';
 
 // ==================== Tidal API Types ====================
 
@@ -54,6 +57,21 @@ export class TidalProvider extends BaseMusicProvider {
   readonly platform: Platform = 'tidal';
   readonly name = 'Tidal';
   readonly config: ProviderConfig;
+  readonly capabilities: ProviderCapabilities = {
+    refreshableTokens: true,
+    likedTracks: { read: true, write: true },
+    isrcSearch: true,
+    fieldedSearch: false,
+    maxBatchSize: 100,
+    playlistPrivacy: ['public', 'private'],
+    editOperations: [
+      'removeTracks',
+      'reorder',
+      'updateDetails',
+      'deletePlaylist',
+      'removeLiked',
+    ],
+  };
 
   constructor(config?: Partial<ProviderConfig>) {
     super();
@@ -169,24 +187,56 @@ export class TidalProvider extends BaseMusicProvider {
 
   async getUserPlaylists(accessToken: string, limit = 50): Promise<Playlist[]> {
     const profile = await this.getUserProfile(accessToken);
-    const data = await this.makeAuthenticatedRequest<any>(
-      `/users/${profile.id}/playlists?limit=${limit}`,
-      accessToken
-    );
+    const playlists: Playlist[] = [];
+
+    while (playlists.length < limit) {
+      const pageSize = Math.min(100, limit - playlists.length);
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/users/${profile.id}/playlists?limit=${pageSize}&offset=${playlists.length}`,
+        accessToken
+      );
+      const items = data.items || [];
 
-    return (data.items || []).map((item: any) => this.transformPlaylist(item));
+      playlists.push(...items.map((item: any) => this.transformPlaylist(item)));
+      if (items.length < pageSize) break;
+    }
+
+    return playlists;
   }
 
   async getPlaylist(accessToken: string, playlistId: string): Promise<Playlist> {
-    const [playlistData, tracksData] = await Promise.all([
+    const [playlistData, items] = await Promise.all([
       this.makeAuthenticatedRequest<any>(`/playlists/${playlistId}`, accessToken),
-      this.makeAuthenticatedRequest<any>(
-        `/playlists/${playlistId}/tracks?limit=100`,
-        accessToken
-      ),
+      this.getPlaylistTrackItems(accessToken, playlistId),
     ]);
 
-    const tracks = (tracksData.items || []).map((item: any) => this.transformTrack(item));
+    const tracks = items.map((item) => this.transformTrack(item));
+
+    return {
+      ...this.transformPlaylist(playlistData),
+      tracks,
+    };
+  }
+
+  async getPublicPlaylist(playlistId: string, region = 'US'): Promise<Playlist> {
+    // Public playlists are readable with the client token alone, like search
+    const request = <T>(endpoint: string) =>
+      this.makeRequest<T>(`${this.config.apiBaseUrl}${endpoint}`, {
+        headers: { 'x-tidal-token': this.config.clientId },
+      });
+
+    const playlistData = await request<any>(`/playlists/${playlistId}?countryCode=${region}`);
+    const tracks: Track[] = [];
+
+    for (let offset = 0; ; offset += 100) {
+      const page = await request<any>(
+        `/playlists/${playlistId}/tracks?countryCode=${region}&limit=100&offset=${offset}`
+      );
+      const items: any[] = page.items || [];
+      tracks.push(...items.map((item) => this.transformTrack(item)));
+
+      if (items.length < 100 || tracks.length >= (page.totalNumberOfItems ?? Infinity)) break;
+    }
 
     return {
       ...this.transformPlaylist(playlistData),
@@ -224,21 +274,90 @@ export class TidalProvider extends BaseMusicProvider {
     trackIds: string[]
   ): Promise<void> {
     // Tidal uses comma-separated track IDs
-    const trackIdString = trackIds.join(',');
+    const { maxBatchSize } = this.capabilities;
+
+    for (let i = 0; i < trackIds.length; i += maxBatchSize) {
+      await this.makeAuthenticatedRequest(
+        `/playlists/${playlistId}/tracks`,
+        accessToken,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            trackIds: trackIds.slice(i, i + maxBatchSize).join(','),
+            onDupes: 'SKIP', // Skip duplicates
+          }),
+        }
+      );
+    }
+  }
+
+  async removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    // Tidal removes by position; delete from the end so indices stay valid
+    const remove = new Set(trackIds);
+    const currentIds = await this.getPlaylistTrackIds(accessToken, playlistId);
+    const indices = currentIds
+      .map((id, index) => (remove.has(id) ? index : -1))
+      .filter((index) => index >= 0)
+      .reverse();
+
+    if (indices.length === 0) return;
 
     await this.makeAuthenticatedRequest(
-      `/playlists/${playlistId}/tracks`,
+      `/playlists/${playlistId}/items/${indices.join(',')}`,
       accessToken,
       {
-        method: 'POST',
-        body: JSON.stringify({
-          trackIds: trackIdString,
-          onDupes: 'SKIP', // Skip duplicates
-        }),
+        method: 'DELETE',
+        headers: { 'If-None-Match': await this.getPlaylistETag(accessToken, playlistId) },
       }
     );
   }
 
+  async reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    trackIds: string[]
+  ): Promise<void> {
+    const currentIds = await this.getPlaylistTrackIds(accessToken, playlistId);
+
+    // Every edit changes the playlist's ETag, so fetch it before each move
+    for (const { from, to } of this.getReorderMoves(currentIds, trackIds)) {
+      await this.makeAuthenticatedRequest(
+        `/playlists/${playlistId}/items/${from}`,
+        accessToken,
+        {
+          method: 'POST',
+          headers: { 'If-None-Match': await this.getPlaylistETag(accessToken, playlistId) },
+          body: JSON.stringify({ toIndex: to }),
+        }
+      );
+    }
+  }
+
+  async updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void> {
+    await this.makeAuthenticatedRequest(`/playlists/${playlistId}`, accessToken, {
+      method: 'POST',
+      body: JSON.stringify({
+        title: details.name,
+        description: details.description,
+        public: details.isPublic,
+      }),
+    });
+  }
+
+  async deletePlaylist(accessToken: string, playlistId: string): Promise<void> {
+    await this.makeAuthenticatedRequest(`/playlists/${playlistId}`, accessToken, {
+      method: 'DELETE',
+    });
+  }
+
   // ===== Library/Liked Songs =====
 
   async getLikedTracks(accessToken: string, limit = 50): Promise<Track[]> {
@@ -269,6 +388,19 @@ export class TidalProvider extends BaseMusicProvider {
     );
   }
 
+  async removeFromLikedTracks(accessToken: string, trackIds: string[]): Promise<void> {
+    const profile = await this.getUserProfile(accessToken);
+
+    // Favorites are removed one track at a time
+    for (const trackId of trackIds) {
+      await this.makeAuthenticatedRequest(
+        `/users/${profile.id}/favorites/tracks/${trackId}`,
+        accessToken,
+        { method: 'DELETE' }
+      );
+    }
+  }
+
   // ===== Search =====
 
   async searchTracks(query: string, options: SearchOptions = {}): Promise<Track[]> {
@@ -295,6 +427,48 @@ export class TidalProvider extends BaseMusicProvider {
     return (data.tracks?.items || []).map((item: any) => this.transformTrack(item));
   }
 
+  async findByIsrc(isrc: string, options: SearchOptions = {}): Promise<Track | null> {
+    // Only the v2 (JSON:API) catalog can filter by ISRC
+    const params = new URLSearchParams({
+      countryCode: 'US',
+      'filter[isrc]': isrc,
+      include: 'artists,albums',
+    });
+
+    const data = await this.makeRequest<any>(
+      `https://openapi.tidal.com/v2/tracks?${params.toString()}`,
+      {
+        headers: {
+          'Content-Type': 'application/vnd.api+json',
+          ...(options.accessToken && { Authorization: `Bearer ${options.accessToken}` }),
+        },
+      }
+    );
+
+    const track = data?.data?.[0];
+    if (!track) return null;
+
+    const included: any[] = data.included || [];
+    const related = (type: string) =>
+      (track.relationships?.[type]?.data || [])
+        .map((ref: any) => included.find((item) => item.type === ref.type && item.id === ref.id))
+        .filter(Boolean);
+
+    const artists: string[] = related('artists').map((artist: any) => artist.attributes.name);
+
+    return {
+      id: track.id,
+      title: track.attributes.title,
+      artist: artists.join(', ') || 'Unknown Artist',
+      artists,
+      album: related('albums')[0]?.attributes.title,
+      durationMs: parseIsoDuration(track.attributes.duration),
+      platform: 'tidal',
+      externalUrl: `https://listen.tidal.com/track/${track.id}`,
+      isrc: track.attributes.isrc,
+    };
+  }
+
   async getTrack(accessToken: string | null, trackId: string): Promise<Track | null> {
     try {
       const headers: Record<string, string> = {
@@ -318,6 +492,48 @@ export class TidalProvider extends BaseMusicProvider {
 
   // ===== Helper Methods =====
 
+  /**
+   * Every track of a playlist, in playlist order
+   */
+  private async getPlaylistTrackItems(accessToken: string, playlistId: string): Promise<any[]> {
+    const tracks: any[] = [];
+
+    for (let offset = 0; ; offset += 100) {
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/playlists/${playlistId}/tracks?limit=100&offset=${offset}`,
+        accessToken
+      );
+      const items: any[] = data.items || [];
+      tracks.push(...items);
+
+      if (items.length < 100) return tracks;
+    }
+  }
+
+  private async getPlaylistTrackIds(accessToken: string, playlistId: string): Promise<string[]> {
+    const items = await this.getPlaylistTrackItems(accessToken, playlistId);
+    return items.map((item) => item.id?.toString());
+  }
+
+  /**
+   * Playlist edits must carry the playlist's current ETag
+   */
+  private async getPlaylistETag(accessToken: string, playlistId: string): Promise<string> {
+    const response = await fetch(`${this.config.apiBaseUrl}/playlists/${playlistId}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'x-tidal-token': this.config.clientId,
+      },
+    });
+
+    const etag = response.headers.get('etag');
+    if (!response.ok || !etag) {
+      throw new Error(`[tidal] Could not read playlist version: HTTP ${response.status}`);
+    }
+
+    return etag;
+  }
+
   private async makeAuthenticatedRequest<T>(
     endpoint: string,
     accessToken: string,
@@ -336,10 +552,10 @@ export class TidalProvider extends BaseMusicProvider {
   }
 
   private transformTrack(track: any): Track {
-    // Get artist name from either artist object or artists array
-    const artistName = track.artist?.name ||
-                      track.artists?.map((a: any) => a.name).join(', ') ||
-                      'Unknown Artist';
+    // Get artist names from the artists array, falling back to the main artist
+    const artists: string[] = track.artists?.map((a: any) => a.name) ||
+                              (track.artist?.name ? [track.artist.name] : []);
+    const artistName = artists.join(', ') || 'Unknown Artist';
 
     // Tidal cover images use template: {uuid}/{width}x{height}.jpg
     const coverUrl = track.album?.cover
@@ -350,6 +566,7 @@ export class TidalProvider extends BaseMusicProvider {
       id: track.id?.toString(),
       title: track.title,
       artist: artistName,
+      artists,
       album: track.album?.title,
       durationMs: track.duration * 1000, // Tidal returns seconds
       platform: 'tidal',
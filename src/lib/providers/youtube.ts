@@ -10,11 +10,19 @@ import {
   Platform,
   Track,
   Playlist,
+  PlaylistDetailsUpdate,
+  ProviderCapabilities,
   UserProfile,
   AuthTokens,
   SearchOptions,
   ProviderConfig,
 } from './base';
+import { fromYouTubeVideo } from '../matching/adapters';
+import {
+  getYTMusicPlaylist,
+  getYTMusicPlaylistVideos,
+  searchYTMusicSong,
+} from '../youtube/ytmusic-client';
 
 // ==================== YouTube Provider ====================
 
@@ -22,6 +30,21 @@ export class YouTubeProvider extends BaseMusicProvider {
   readonly platform: Platform = 'youtube';
   readonly name = 'YouTube Music';
   readonly config: ProviderConfig;
+  readonly capabilities: ProviderCapabilities = {
+    refreshableTokens: true,
+    likedTracks: { read: false, write: true }, // Liked videos only, and capped
+    isrcSearch: false,
+    fieldedSearch: false,
+    maxBatchSize: 1,
+    playlistPrivacy: ['public', 'unlisted', 'private'],
+    editOperations: [
+      'removeTracks',
+      'reorder',
+      'updateDetails',
+      'deletePlaylist',
+      'removeLiked',
+    ],
+  };
 
   constructor(config?: Partial<ProviderConfig>) {
     super();
@@ -143,12 +166,22 @@ export class YouTubeProvider extends BaseMusicProvider {
   // ===== Playlists =====
 
   async getUserPlaylists(accessToken: string, limit = 50): Promise<Playlist[]> {
-    const data = await this.makeAuthenticatedRequest<any>(
-      `/playlists?part=snippet,contentDetails&mine=true&maxResults=${limit}`,
-      accessToken
-    );
+    const playlists: Playlist[] = [];
+    let pageToken: string | undefined;
+
+    // YouTube returns at most 50 playlists per page
+    do {
+      const pageSize = Math.min(50, limit - playlists.length);
+      const data = await this.makeAuthenticatedRequest<any>(
+        `/playlists?part=snippet,contentDetails&mine=true&maxResults=${pageSize}${pageToken ? `&pageToken=${pageToken}` : ''}`,
+        accessToken
+      );
 
-    return data.items?.map((item: any) => this.transformPlaylist(item)) || [];
+      playlists.push(...(data.items?.map((item: any) => this.transformPlaylist(item)) || []));
+      pageToken = data.nextPageToken;
+    } while (pageToken && playlists.length < limit);
+
+    return playlists;
   }
 
   async getPlaylist(accessToken: string, playlistId: string): Promise<Playlist> {
@@ -163,13 +196,8 @@ export class YouTubeProvider extends BaseMusicProvider {
       throw new Error('Playlist not found');
     }
 
-    // Get playlist items (videos)
-    const itemsData = await this.makeAuthenticatedRequest<any>(
-      `/playlistItems?part=snippet,contentDetails&playlistId=${playlistId}&maxResults=50`,
-      accessToken
-    );
-
-    const tracks = itemsData.items?.map((item: any) => this.transformTrackFromPlaylistItem(item)) || [];
+    const items = await this.getPlaylistItems(accessToken, playlistId);
+    const tracks = items.map((item: any) => this.transformTrackFromPlaylistItem(item));
 
     return {
       ...this.transformPlaylist(playlist),
@@ -177,6 +205,24 @@ export class YouTubeProvider extends BaseMusicProvider {
     };
   }
 
+  async getPublicPlaylist(playlistId: string): Promise<Playlist> {
+    // YouTube Music's own API reads public playlists without a token or quota
+    const [playlist, tracks] = await Promise.all([
+      getYTMusicPlaylist(playlistId),
+      getYTMusicPlaylistVideos(playlistId),
+    ]);
+
+    return {
+      id: playlistId,
+      name: playlist.name,
+      trackCount: tracks.length,
+      platform: 'youtube',
+      externalUrl: `https://music.youtube.com/playlist?list=${playlistId}`,
+      thumbnailUrl: playlist.thumbnails?.[0]?.url,
+      tracks,
+    };
+  }
+
   async createPlaylist(
     accessToken: string,
     name: string,
@@ -230,6 +276,92 @@ export class YouTubeProvider extends BaseMusicProvider {
     }
   }
 
+  async removeTracksFromPlaylist(
+    accessToken: string,
+    playlistId: string,
+    videoIds: string[]
+  ): Promise<void> {
+    // Removal goes by playlist item ID, not video ID
+    const remove = new Set(videoIds);
+    const items = await this.getPlaylistItems(accessToken, playlistId);
+
+    for (const item of items) {
+      if (!remove.has(item.contentDetails.videoId)) continue;
+
+      await this.makeAuthenticatedRequest(`/playlistItems?id=${item.id}`, accessToken, {
+        method: 'DELETE',
+      });
+      await this.delay(100);
+    }
+  }
+
+  async reorderPlaylist(
+    accessToken: string,
+    playlistId: string,
+    videoIds: string[]
+  ): Promise<void> {
+    const items = await this.getPlaylistItems(accessToken, playlistId);
+    const currentIds = items.map((item) => item.contentDetails.videoId);
+
+    for (const { from, to } of this.getReorderMoves(currentIds, videoIds)) {
+      const [item] = items.splice(from, 1);
+      items.splice(to, 0, item);
+
+      await this.makeAuthenticatedRequest('/playlistItems?part=snippet', accessToken, {
+        method: 'PUT',
+        body: JSON.stringify({
+          id: item.id,
+          snippet: {
+            playlistId,
+            resourceId: item.snippet.resourceId,
+            position: to,
+          },
+        }),
+      });
+      await this.delay(100);
+    }
+  }
+
+  async updatePlaylistDetails(
+    accessToken: string,
+    playlistId: string,
+    details: PlaylistDetailsUpdate
+  ): Promise<void> {
+    // Updates replace the whole snippet/status, so start from the current values
+    const data = await this.makeAuthenticatedRequest<any>(
+      `/playlists?part=snippet,status&id=${playlistId}`,
+      accessToken
+    );
+
+    const playlist = data.items?.[0];
+    if (!playlist) {
+      throw new Error('Playlist not found');
+    }
+
+    await this.makeAuthenticatedRequest('/playlists?part=snippet,status', accessToken, {
+      method: 'PUT',
+      body: JSON.stringify({
+        id: playlistId,
+        snippet: {
+          title: details.name ?? playlist.snippet.title,
+          description: details.description ?? playlist.snippet.description,
+        },
+        status: {
+          privacyStatus:
+            details.isPublic === undefined
+              ? playlist.status?.privacyStatus
+              : details.isPublic ? 'public' : 'private',
+        },
+      }),
+    });
+  }
+
+  async deletePlaylist(accessToken: string, playlistId: string): Promise<void> {
+    await this.makeAuthenticatedRequest(`/playlists?id=${playlistId}`, accessToken, {
+      method: 'DELETE',
+    });
+  }
+
   // ===== Library/Liked Songs =====
 
   async getLikedTracks(accessToken: string, limit = 50): Promise<Track[]> {
@@ -254,35 +386,34 @@ export class YouTubeProvider extends BaseMusicProvider {
     }
   }
 
+  async removeFromLikedTracks(accessToken: string, videoIds: string[]): Promise<void> {
+    for (const videoId of videoIds) {
+      await this.makeAuthenticatedRequest(
+        `/videos/rate?id=${videoId}&rating=none`,
+        accessToken,
+        { method: 'POST' }
+      );
+      await this.delay(100);
+    }
+  }
+
   // ===== Search =====
 
   async searchTracks(query: string, options: SearchOptions = {}): Promise<Track[]> {
     // Use ytmusic-api for search (no auth required, better results)
     try {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const YTMusic = require('ytmusic-api').default;
-      const ytmusic = new YTMusic();
-      await ytmusic.initialize();
-
-      const results = await ytmusic.search(query, 'song');
-      const limit = options.limit || 10;
-
-      return results.slice(0, limit).map((result: any) => ({
-        id: result.videoId,
-        title: result.name,
-        artist: result.artist?.name || 'Unknown Artist',
-        album: result.album?.name,
-        durationMs: result.duration ? result.duration * 1000 : 0,
-        platform: 'youtube' as Platform,
-        externalUrl: `https://music.youtube.com/watch?v=${result.videoId}`,
-        thumbnailUrl: result.thumbnails?.[0]?.url,
-      }));
+      return await searchYTMusicSong(query, options.limit || 10);
     } catch (error) {
       console.error('[YouTube] ytmusic-api search failed:', error);
       return [];
     }
   }
 
+  async findByIsrc(): Promise<Track | null> {
+    // Neither ytmusic-api nor the Data API can look videos up by ISRC
+    return null;
+  }
+
   async getTrack(accessToken: string | null, videoId: string): Promise<Track | null> {
     try {
       const headers: Record<string, string> = {};
@@ -304,6 +435,26 @@ export class YouTubeProvider extends BaseMusicProvider {
 
   // ===== Helper Methods =====
 
+  /**
+   * Fetch every item of a playlist, 50 per page
+   */
+  private async getPlaylistItems(accessToken: string, playlistId: string): Promise<any[]> {
+    const items: any[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const itemsData = await this.makeAuthenticatedRequest<any>(
+        `/playlistItems?part=snippet,contentDetails&playlistId=${playlistId}&maxResults=50` +
+          (pageToken ? `&pageToken=${pageToken}` : ''),
+        accessToken
+      );
+      items.push(...(itemsData.items || []));
+      pageToken = itemsData.nextPageToken;
+    } while (pageToken);
+
+    return items;
+  }
+
   private async makeAuthenticatedRequest<T>(
     endpoint: string,
     accessToken: string,
@@ -333,34 +484,22 @@ export class YouTubeProvider extends BaseMusicProvider {
   }
 
   private transformTrackFromPlaylistItem(item: any): Track {
+    const channel = item.snippet.videoOwnerChannelTitle || 'Unknown Artist';
+
     return {
       id: item.contentDetails.videoId,
       title: item.snippet.title,
-      artist: item.snippet.videoOwnerChannelTitle || 'Unknown Artist',
+      artist: channel,
+      artists: [channel],
       durationMs: 0, // Not available in playlist items
       platform: 'youtube',
+      videoId: item.contentDetails.videoId,
       externalUrl: `https://www.youtube.com/watch?v=${item.contentDetails.videoId}`,
       thumbnailUrl: item.snippet.thumbnails?.default?.url,
     };
   }
 
   private transformTrackFromVideo(video: any): Track {
-    // Parse duration from ISO 8601 format (e.g., PT4M13S)
-    const duration = video.contentDetails?.duration || 'PT0S';
-    const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    const hours = parseInt(match?.[1] || '0');
-    const minutes = parseInt(match?.[2] || '0');
-    const seconds = parseInt(match?.[3] || '0');
-    const durationMs = (hours * 3600 + minutes * 60 + seconds) * 1000;
-
-    return {
-      id: video.id,
-      title: video.snippet.title,
-      artist: video.snippet.channelTitle || 'Unknown Artist',
-      durationMs,
-      platform: 'youtube',
-      externalUrl: `https://www.youtube.com/watch?v=${video.id}`,
-      thumbnailUrl: video.snippet.thumbnails?.default?.url,
-    };
+    return fromYouTubeVideo(video);
   }
 }
@@ -1,5 +1,7 @@
 import { getIronSession, SessionOptions } from 'iron-session';
 import { cookies } from 'next/headers';
+import { getStorage } from './storage';
+import { loadUserData, saveUserData, UserData } from './storage/session-data';
 
 export interface SpotifySession {
   accessToken: string;
@@ -31,11 +33,18 @@ export interface DeezerSession {
   displayName?: string;
 }
 
+export interface AppleMusicSession {
+  accessToken: string; // MusicKit music user token
+  expiresAt?: number; // Unix timestamp
+  displayName?: string;
+}
+
 export interface SessionData {
   spotify?: SpotifySession;
   youtube?: YouTubeSession;
   tidal?: TidalSession;
   deezer?: DeezerSession;
+  apple?: AppleMusicSession;
   spotifyState?: string;
   youtubeState?: string;
   tidalState?: string;
@@ -46,11 +55,28 @@ export interface SessionData {
     stripeCustomerId?: string;
     stripeSubscriptionId?: string;
     currentPeriodEnd?: number;
+    graceUntil?: number; // Set after a failed payment; Pro ends once it passes
     monthlySyncs?: number; // Track usage
     lastResetDate?: number; // Last time we reset the counter
   };
 }
 
+/**
+ * What actually lives in the cookie: our user ID plus short-lived OAuth state.
+ * Connections and subscription data are kept in storage (see ./storage).
+ */
+interface SessionCookie extends Pick<SessionData, 'spotifyState' | 'youtubeState' | 'tidalState' | 'deezerState'> {
+  userId?: string;
+}
+
+const COOKIE_FIELDS = ['spotifyState', 'youtubeState', 'tidalState', 'deezerState'] as const;
+const STORED_FIELDS = ['spotify', 'youtube', 'tidal', 'deezer', 'apple', 'subscription'] as const;
+
+export type Session = SessionData & {
+  readonly userId: string;
+  save(): Promise<void>;
+};
+
 export const sessionOptions: SessionOptions = {
   password: process.env.SESSION_SECRET as string,
   cookieName: 'spotifyt_session',
@@ -62,6 +88,64 @@ export const sessionOptions: SessionOptions = {
   },
 };
 
-export async function getSession() {
-  return getIronSession<SessionData>(await cookies(), sessionOptions);
+/**
+ * Resolve the current user from the session cookie, creating one on first
+ * visit, and load their data from storage. Routes mutate the returned object
+ * as before; save() persists it to storage and the cookie.
+ */
+export async function getSession(): Promise<Session> {
+  const cookie = await getIronSession<SessionCookie & UserData>(await cookies(), sessionOptions);
+  const storage = getStorage();
+
+  let userId = cookie.userId;
+  if (!userId || !(await storage.getUser(userId))) {
+    userId = (await storage.createUser()).id;
+    cookie.userId = userId;
+    await cookie.save();
+  }
+
+  let stored = await loadUserData(userId);
+
+  // Cookies issued before server-side storage carried everything inline;
+  // move that data into storage the first time we see one
+  if (STORED_FIELDS.some((field) => cookie[field])) {
+    const migrated: UserData = { ...stored };
+    for (const field of STORED_FIELDS) {
+      if (cookie[field] && !migrated[field]) {
+        (migrated as Record<string, unknown>)[field] = cookie[field];
+      }
+      delete cookie[field];
+    }
+    await saveUserData(userId, migrated, stored);
+    await cookie.save();
+    stored = migrated;
+  }
+
+  const session: Session = {
+    ...structuredClone(stored),
+    spotifyState: cookie.spotifyState,
+    youtubeState: cookie.youtubeState,
+    tidalState: cookie.tidalState,
+    deezerState: cookie.deezerState,
+    userId,
+    async save() {
+      const next: UserData = {};
+      for (const field of STORED_FIELDS) {
+        (next as Record<string, unknown>)[field] = session[field];
+      }
+      await saveUserData(userId, next, stored);
+      stored = structuredClone(next);
+
+      for (const field of COOKIE_FIELDS) {
+        if (session[field]) {
+          cookie[field] = session[field];
+        } else {
+          delete cookie[field];
+        }
+      }
+      await cookie.save();
+    },
+  };
+
+  return session;
 }
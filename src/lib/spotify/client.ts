@@ -1,6 +1,9 @@
 import { SpotifyApi } from '@spotify/web-api-ts-sdk';
+import type { MaxInt } from '@spotify/web-api-ts-sdk';
 import { SessionData } from '../session';
 import { refreshSpotifyToken } from './auth';
+import { fromSpotifyTrack } from '../matching/adapters';
+import { DEFAULT_MATCH_CONFIG } from '../matching/types';
 
 const SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID!;
 
@@ -69,17 +72,7 @@ export async function getPlaylistTracks(session: SessionData, playlistId: string
 
   return tracks
     .filter((item) => item.track && item.track.type === 'track')
-    .map((item) => ({
-      id: item.track.uri,
-      platform: 'spotify' as const,
-      title: item.track.name,
-      artist: item.track.artists[0]?.name || 'Unknown',
-      artists: item.track.artists.map((a: any) => a.name),
-      album: item.track.album?.name,
-      durationMs: item.track.duration_ms,
-      isrc: item.track.external_ids?.isrc,
-      raw: item.track,
-    }));
+    .map((item) => fromSpotifyTrack(item.track));
 }
 
 export async function getLikedSongs(session: SessionData) {
@@ -98,34 +91,18 @@ export async function getLikedSongs(session: SessionData) {
 
   return tracks
     .filter((item) => item.track && item.track.type === 'track')
-    .map((item) => ({
-      id: item.track.uri,
-      platform: 'spotify' as const,
-      title: item.track.name,
-      artist: item.track.artists[0]?.name || 'Unknown',
-      artists: item.track.artists.map((a: any) => a.name),
-      album: item.track.album?.name,
-      durationMs: item.track.duration_ms,
-      isrc: item.track.external_ids?.isrc,
-      raw: item.track,
-    }));
+    .map((item) => fromSpotifyTrack(item.track));
 }
 
-export async function searchTrack(session: SessionData, query: string) {
+export async function searchTrack(
+  session: SessionData,
+  query: string,
+  limit: number = DEFAULT_MATCH_CONFIG.maxSearchResults
+) {
   const client = await getSpotifyClient(session);
-  const response = await client.search(query, ['track'], undefined, 5);
-
-  return response.tracks.items.map((track) => ({
-    id: track.uri,
-    platform: 'spotify' as const,
-    title: track.name,
-    artist: track.artists[0]?.name || 'Unknown',
-    artists: track.artists.map((a) => a.name),
-    album: track.album?.name,
-    durationMs: track.duration_ms,
-    isrc: track.external_ids?.isrc,
-    raw: track,
-  }));
+  const response = await client.search(query, ['track'], undefined, limit as MaxInt<50>);
+
+  return response.tracks.items.map(fromSpotifyTrack);
 }
 
 export async function addToLiked(session: SessionData, trackIds: string[]) {
@@ -142,9 +119,12 @@ export async function addToLiked(session: SessionData, trackIds: string[]) {
   }
 }
 
-export async function addToPlaylist(session: SessionData, playlistId: string, trackUris: string[]) {
+export async function addToPlaylist(session: SessionData, playlistId: string, trackIds: string[]) {
   const client = await getSpotifyClient(session);
 
+  // Playlist endpoints take URIs; accept bare IDs too
+  const trackUris = trackIds.map((id) => (id.startsWith('spotify:') ? id : `spotify:track:${id}`));
+
   // Batch in groups of 100
   const batchSize = 100;
   for (let i = 0; i < trackUris.length; i += batchSize) {
@@ -172,13 +152,3 @@ export async function createPlaylist(session: SessionData, name: string, descrip
     url: playlist.external_urls.spotify,
   };
 }
-
-export async function getPlaylistTrackUris(session: SessionData, playlistId: string): Promise<Set<string>> {
-  const tracks = await getPlaylistTracks(session, playlistId);
-  return new Set(tracks.map((t) => t.id));
-}
-
-export async function getLikedTrackUris(session: SessionData): Promise<Set<string>> {
-  const tracks = await getLikedSongs(session);
-  return new Set(tracks.map((t) => t.id));
-}
@@ -0,0 +1,36 @@
+/**
+ * Storage
+ *
+ * Picks the storage adapter for this process. SQLite via Prisma by default;
+ * set STORAGE_ADAPTER=memory (or run with NODE_ENV=test) for the in-memory one.
+ */
+
+import { StorageAdapter } from './types';
+import { MemoryStorageAdapter } from './memory';
+import { PrismaStorageAdapter } from './prisma';
+
+export * from './types';
+export { MemoryStorageAdapter } from './memory';
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const adapter =
+      process.env.STORAGE_ADAPTER || (process.env.NODE_ENV === 'test' ? 'memory' : 'prisma');
+
+    if (adapter === 'memory') {
+      storage = new MemoryStorageAdapter();
+    } else {
+      storage = new PrismaStorageAdapter();
+    }
+  }
+  return storage;
+}
+
+/**
+ * Replace the active adapter (e.g. with a fresh MemoryStorageAdapter in tests)
+ */
+export function setStorage(adapter: StorageAdapter): void {
+  storage = adapter;
+}
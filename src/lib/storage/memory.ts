@@ -0,0 +1,262 @@
+/**
+ * In-memory Storage Adapter
+ *
+ * Used for tests and local experiments; everything is lost on restart.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Platform } from '../providers/base';
+import {
+  StorageAdapter,
+  UserRecord,
+  ProviderAccountRecord,
+  SubscriptionRecord,
+  UsageCounterRecord,
+  SyncJobRecord,
+  NewSyncJob,
+  MirrorRecord,
+  NewMirror,
+  RestoreRecord,
+  NewRestore,
+  MatchCacheRecord,
+  MatchCorrectionRecord,
+  NewMatchCorrection,
+} from './types';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private users = new Map<string, UserRecord>();
+  private accounts = new Map<string, ProviderAccountRecord>();
+  private subscriptions = new Map<string, SubscriptionRecord>();
+  private usage = new Map<string, UsageCounterRecord>();
+  private webhookEvents = new Map<string, string>();
+  private syncJobs = new Map<string, SyncJobRecord>();
+  private mirrors = new Map<string, MirrorRecord>();
+  private restores = new Map<string, RestoreRecord>();
+  private matchCache = new Map<string, MatchCacheRecord>();
+  private matchCorrections: MatchCorrectionRecord[] = [];
+
+  async createUser(): Promise<UserRecord> {
+    const user: UserRecord = { id: randomUUID(), createdAt: Date.now() };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async getUser(userId: string): Promise<UserRecord | null> {
+    const user = this.users.get(userId);
+    return user ? { ...user } : null;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    this.users.delete(userId);
+    this.subscriptions.delete(userId);
+    for (const [key, job] of this.syncJobs) {
+      if (job.userId === userId) this.syncJobs.delete(key);
+    }
+    for (const [key, mirror] of this.mirrors) {
+      if (mirror.userId === userId) this.mirrors.delete(key);
+    }
+    for (const [key, restore] of this.restores) {
+      if (restore.userId === userId) this.restores.delete(key);
+    }
+    for (const [key, account] of this.accounts) {
+      if (account.userId === userId) this.accounts.delete(key);
+    }
+    for (const [key, counter] of this.usage) {
+      if (counter.userId === userId) this.usage.delete(key);
+    }
+  }
+
+  async listProviderAccounts(userId: string): Promise<ProviderAccountRecord[]> {
+    return Array.from(this.accounts.values())
+      .filter((account) => account.userId === userId)
+      .map((account) => ({ ...account }));
+  }
+
+  async upsertProviderAccount(account: ProviderAccountRecord): Promise<void> {
+    this.accounts.set(`${account.userId}:${account.platform}`, { ...account });
+  }
+
+  async deleteProviderAccount(userId: string, platform: Platform): Promise<void> {
+    this.accounts.delete(`${userId}:${platform}`);
+  }
+
+  async getSubscription(userId: string): Promise<SubscriptionRecord | null> {
+    const subscription = this.subscriptions.get(userId);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async upsertSubscription(subscription: SubscriptionRecord): Promise<void> {
+    this.subscriptions.set(subscription.userId, { ...subscription });
+  }
+
+  async findUserIdByStripeCustomerId(customerId: string): Promise<string | null> {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.stripeCustomerId === customerId) return subscription.userId;
+    }
+    return null;
+  }
+
+  async claimWebhookEvent(eventId: string, type: string): Promise<boolean> {
+    if (this.webhookEvents.has(eventId)) return false;
+    this.webhookEvents.set(eventId, type);
+    return true;
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    this.webhookEvents.delete(eventId);
+  }
+
+  async getUsageCounter(userId: string, name: string): Promise<UsageCounterRecord | null> {
+    const counter = this.usage.get(`${userId}:${name}`);
+    return counter ? { ...counter } : null;
+  }
+
+  async incrementUsageCounter(
+    userId: string,
+    name: string,
+    amount: number,
+    periodStart: number
+  ): Promise<UsageCounterRecord> {
+    const key = `${userId}:${name}`;
+    const existing = this.usage.get(key);
+    const counter =
+      existing && existing.periodStart >= periodStart
+        ? { ...existing, count: existing.count + amount }
+        : { userId, name, count: amount, periodStart };
+
+    this.usage.set(key, counter);
+    return { ...counter };
+  }
+
+  async createSyncJob(job: NewSyncJob): Promise<SyncJobRecord> {
+    const record: SyncJobRecord = { ...structuredClone(job), id: randomUUID(), createdAt: Date.now() };
+    this.syncJobs.set(record.id, record);
+    return structuredClone(record);
+  }
+
+  async getSyncJob(jobId: string): Promise<SyncJobRecord | null> {
+    const job = this.syncJobs.get(jobId);
+    return job ? structuredClone(job) : null;
+  }
+
+  async listSyncJobs(userId: string): Promise<SyncJobRecord[]> {
+    return Array.from(this.syncJobs.values())
+      .filter((job) => job.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((job) => structuredClone(job));
+  }
+
+  async listDueSyncJobs(now: number): Promise<SyncJobRecord[]> {
+    return Array.from(this.syncJobs.values())
+      .filter((job) => job.status === 'active' && job.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)
+      .map((job) => structuredClone(job));
+  }
+
+  async claimSyncJob(jobId: string, now: number, nextRunAt: number): Promise<boolean> {
+    const job = this.syncJobs.get(jobId);
+    if (!job || job.status !== 'active' || job.nextRunAt > now) return false;
+    this.syncJobs.set(jobId, { ...job, nextRunAt });
+    return true;
+  }
+
+  async updateSyncJob(jobId: string, changes: Partial<NewSyncJob>): Promise<void> {
+    const job = this.syncJobs.get(jobId);
+    if (job) {
+      this.syncJobs.set(jobId, { ...job, ...structuredClone(changes) });
+    }
+  }
+
+  async deleteSyncJob(jobId: string): Promise<void> {
+    this.syncJobs.delete(jobId);
+  }
+
+  async createMirror(mirror: NewMirror): Promise<MirrorRecord> {
+    const record: MirrorRecord = { ...structuredClone(mirror), id: randomUUID(), createdAt: Date.now() };
+    this.mirrors.set(record.id, record);
+    return structuredClone(record);
+  }
+
+  async getMirror(mirrorId: string): Promise<MirrorRecord | null> {
+    const mirror = this.mirrors.get(mirrorId);
+    return mirror ? structuredClone(mirror) : null;
+  }
+
+  async listMirrors(userId: string): Promise<MirrorRecord[]> {
+    return Array.from(this.mirrors.values())
+      .filter((mirror) => mirror.userId === userId)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((mirror) => structuredClone(mirror));
+  }
+
+  async listDueMirrors(now: number): Promise<MirrorRecord[]> {
+    return Array.from(this.mirrors.values())
+      .filter((mirror) => mirror.status === 'active' && mirror.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt)
+      .map((mirror) => structuredClone(mirror));
+  }
+
+  async claimMirror(mirrorId: string, now: number, nextRunAt: number): Promise<boolean> {
+    const mirror = this.mirrors.get(mirrorId);
+    if (!mirror || mirror.status !== 'active' || mirror.nextRunAt > now) return false;
+    this.mirrors.set(mirrorId, { ...mirror, nextRunAt });
+    return true;
+  }
+
+  async updateMirror(mirrorId: string, changes: Partial<NewMirror>): Promise<void> {
+    const mirror = this.mirrors.get(mirrorId);
+    if (mirror) {
+      this.mirrors.set(mirrorId, { ...mirror, ...structuredClone(changes) });
+    }
+  }
+
+  async deleteMirror(mirrorId: string): Promise<void> {
+    this.mirrors.delete(mirrorId);
+  }
+
+  async createRestore(restore: NewRestore): Promise<RestoreRecord> {
+    for (const [key, existing] of this.restores) {
+      if (existing.userId === restore.userId) this.restores.delete(key);
+    }
+
+    const record: RestoreRecord = { ...structuredClone(restore), id: randomUUID(), createdAt: Date.now() };
+    this.restores.set(record.id, record);
+    return structuredClone(record);
+  }
+
+  async getRestore(restoreId: string): Promise<RestoreRecord | null> {
+    const restore = this.restores.get(restoreId);
+    return restore ? structuredClone(restore) : null;
+  }
+
+  async updateRestore(restoreId: string, changes: Pick<NewRestore, 'playlists'>): Promise<void> {
+    const restore = this.restores.get(restoreId);
+    if (restore) {
+      this.restores.set(restoreId, { ...restore, ...structuredClone(changes) });
+    }
+  }
+
+  async deleteRestore(restoreId: string): Promise<void> {
+    this.restores.delete(restoreId);
+  }
+
+  async findMatchCacheEntries(keys: string[], targetPlatform: Platform): Promise<MatchCacheRecord[]> {
+    return Array.from(this.matchCache.values())
+      .filter((entry) => entry.targetPlatform === targetPlatform && keys.includes(entry.key))
+      .map((entry) => structuredClone(entry));
+  }
+
+  async upsertMatchCacheEntry(entry: MatchCacheRecord): Promise<void> {
+    this.matchCache.set(`${entry.key}:${entry.targetPlatform}:${entry.userId ?? ''}`, structuredClone(entry));
+  }
+
+  async deleteMatchCacheEntry(key: string, targetPlatform: Platform, userId?: string): Promise<void> {
+    this.matchCache.delete(`${key}:${targetPlatform}:${userId ?? ''}`);
+  }
+
+  async createMatchCorrection(correction: NewMatchCorrection): Promise<MatchCorrectionRecord> {
+    const record: MatchCorrectionRecord = { ...structuredClone(correction), id: randomUUID(), createdAt: Date.now() };
+    this.matchCorrections.push(record);
+    return structuredClone(record);
+  }
+}
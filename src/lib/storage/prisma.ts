@@ -0,0 +1,573 @@
+/**
+ * Prisma Storage Adapter
+ *
+ * Default adapter, backed by SQLite (see prisma/schema.prisma).
+ * Run `npm run db:push` once to create the database.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { Platform } from '../providers/base';
+import {
+  StorageAdapter,
+  UserRecord,
+  ProviderAccountRecord,
+  SubscriptionRecord,
+  SubscriptionTier,
+  UsageCounterRecord,
+  SyncJobPendingTrack,
+  SyncJobRecord,
+  SyncJobSchedule,
+  SyncJobStatus,
+  NewSyncJob,
+  MirrorRecord,
+  MirrorConflictPolicy,
+  NewMirror,
+  RestorePlaylistProgress,
+  RestoreRecord,
+  NewRestore,
+  MatchCacheRecord,
+  MatchCorrectionRecord,
+  NewMatchCorrection,
+} from './types';
+
+// Reuse one client across hot reloads in development
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+function getPrismaClient(): PrismaClient {
+  if (!globalForPrisma.prisma) {
+    globalForPrisma.prisma = new PrismaClient({
+      datasourceUrl: process.env.DATABASE_URL || 'file:./spotifyt.db',
+    });
+  }
+  return globalForPrisma.prisma;
+}
+
+const toDate = (ms?: number) => (ms === undefined ? null : new Date(ms));
+const fromDate = (date: Date | null) => (date ? date.getTime() : undefined);
+
+function fromAccountRow(account: {
+  userId: string;
+  platform: string;
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+  externalUserId: string | null;
+  displayName: string | null;
+}): ProviderAccountRecord {
+  return {
+    userId: account.userId,
+    platform: account.platform as Platform,
+    accessToken: account.accessToken,
+    refreshToken: account.refreshToken ?? undefined,
+    expiresAt: fromDate(account.expiresAt),
+    externalUserId: account.externalUserId ?? undefined,
+    displayName: account.displayName ?? undefined,
+  };
+}
+
+const fromJson = <T>(value: string | null): T | undefined =>
+  value ? (JSON.parse(value) as T) : undefined;
+
+function fromSyncJobRow(job: {
+  id: string;
+  userId: string;
+  sourcePlatform: string;
+  sourcePlaylistId: string;
+  sourcePlaylistName: string | null;
+  targetPlatform: string;
+  targetPlaylistId: string;
+  targetPlaylistName: string | null;
+  schedule: string;
+  matchConfig: string | null;
+  status: string;
+  processedSourceIds: string;
+  pendingTracks: string;
+  createdAt: Date;
+  lastRunAt: Date | null;
+  nextRunAt: Date;
+  lastResult: string | null;
+}): SyncJobRecord {
+  return {
+    id: job.id,
+    userId: job.userId,
+    sourcePlatform: job.sourcePlatform as Platform,
+    sourcePlaylistId: job.sourcePlaylistId,
+    sourcePlaylistName: job.sourcePlaylistName ?? undefined,
+    targetPlatform: job.targetPlatform as Platform,
+    targetPlaylistId: job.targetPlaylistId,
+    targetPlaylistName: job.targetPlaylistName ?? undefined,
+    schedule: job.schedule as SyncJobSchedule,
+    matchConfig: fromJson(job.matchConfig),
+    status: job.status as SyncJobStatus,
+    processedSourceIds: fromJson<string[]>(job.processedSourceIds) ?? [],
+    pendingTracks: fromJson<SyncJobPendingTrack[]>(job.pendingTracks) ?? [],
+    createdAt: job.createdAt.getTime(),
+    lastRunAt: fromDate(job.lastRunAt),
+    nextRunAt: job.nextRunAt.getTime(),
+    lastResult: fromJson(job.lastResult),
+  };
+}
+
+function toSyncJobData(job: Partial<NewSyncJob>) {
+  const has = (key: keyof NewSyncJob) => key in job;
+
+  return {
+    ...job,
+    matchConfig: has('matchConfig') ? (job.matchConfig ? JSON.stringify(job.matchConfig) : null) : undefined,
+    processedSourceIds: job.processedSourceIds && JSON.stringify(job.processedSourceIds),
+    pendingTracks: job.pendingTracks && JSON.stringify(job.pendingTracks),
+    lastResult: has('lastResult') ? (job.lastResult ? JSON.stringify(job.lastResult) : null) : undefined,
+    lastRunAt: has('lastRunAt') ? toDate(job.lastRunAt) : undefined,
+    nextRunAt: job.nextRunAt === undefined ? undefined : new Date(job.nextRunAt),
+  };
+}
+
+const MIRROR_JSON_FIELDS = ['sideA', 'sideB', 'snapshotA', 'snapshotB', 'pairs', 'pendingReview'] as const;
+
+function fromMirrorRow(mirror: {
+  id: string;
+  userId: string;
+  sideA: string;
+  sideB: string;
+  conflictPolicy: string;
+  propagateRemovals: boolean;
+  schedule: string;
+  status: string;
+  snapshotA: string;
+  snapshotB: string;
+  pairs: string;
+  pendingReview: string;
+  createdAt: Date;
+  lastRunAt: Date | null;
+  nextRunAt: Date;
+  lastResult: string | null;
+}): MirrorRecord {
+  return {
+    id: mirror.id,
+    userId: mirror.userId,
+    sideA: JSON.parse(mirror.sideA),
+    sideB: JSON.parse(mirror.sideB),
+    conflictPolicy: mirror.conflictPolicy as MirrorConflictPolicy,
+    propagateRemovals: mirror.propagateRemovals,
+    schedule: mirror.schedule as SyncJobSchedule,
+    status: mirror.status as SyncJobStatus,
+    snapshotA: JSON.parse(mirror.snapshotA),
+    snapshotB: JSON.parse(mirror.snapshotB),
+    pairs: JSON.parse(mirror.pairs),
+    pendingReview: JSON.parse(mirror.pendingReview),
+    createdAt: mirror.createdAt.getTime(),
+    lastRunAt: fromDate(mirror.lastRunAt),
+    nextRunAt: mirror.nextRunAt.getTime(),
+    lastResult: fromJson(mirror.lastResult),
+  };
+}
+
+function toMirrorData(mirror: Partial<NewMirror>) {
+  const json: Partial<Record<(typeof MIRROR_JSON_FIELDS)[number], string>> = {};
+  for (const field of MIRROR_JSON_FIELDS) {
+    if (mirror[field] !== undefined) json[field] = JSON.stringify(mirror[field]);
+  }
+
+  return {
+    ...mirror,
+    ...json,
+    lastResult: 'lastResult' in mirror ? (mirror.lastResult ? JSON.stringify(mirror.lastResult) : null) : undefined,
+    lastRunAt: 'lastRunAt' in mirror ? toDate(mirror.lastRunAt) : undefined,
+    nextRunAt: mirror.nextRunAt === undefined ? undefined : new Date(mirror.nextRunAt),
+  };
+}
+
+function fromRestoreRow(restore: {
+  id: string;
+  userId: string;
+  sourcePlatform: string;
+  targetPlatform: string;
+  backupCreatedAt: string;
+  playlists: string;
+  tracks: string;
+  createdAt: Date;
+}): RestoreRecord {
+  return {
+    id: restore.id,
+    userId: restore.userId,
+    sourcePlatform: restore.sourcePlatform as Platform,
+    targetPlatform: restore.targetPlatform as Platform,
+    backupCreatedAt: restore.backupCreatedAt,
+    playlists: fromJson<RestorePlaylistProgress[]>(restore.playlists) ?? [],
+    tracks: fromJson<RestoreRecord['tracks']>(restore.tracks) ?? {},
+    createdAt: restore.createdAt.getTime(),
+  };
+}
+
+function fromMatchCacheRow(entry: {
+  key: string;
+  targetPlatform: string;
+  target: string;
+  confidence: number;
+  userId: string;
+  automatic: boolean;
+  rejected: boolean;
+  updatedAt: Date;
+}): MatchCacheRecord {
+  return {
+    key: entry.key,
+    targetPlatform: entry.targetPlatform as Platform,
+    target: JSON.parse(entry.target),
+    confidence: entry.confidence,
+    userId: entry.userId || undefined,
+    automatic: entry.automatic || undefined,
+    rejected: entry.rejected || undefined,
+    updatedAt: entry.updatedAt.getTime(),
+  };
+}
+
+function fromMatchCorrectionRow(correction: {
+  id: string;
+  targetPlatform: string;
+  source: string;
+  chosen: string | null;
+  rejected: string;
+  configVersion: number;
+  createdAt: Date;
+}): MatchCorrectionRecord {
+  return {
+    id: correction.id,
+    targetPlatform: correction.targetPlatform as Platform,
+    source: JSON.parse(correction.source),
+    chosen: correction.chosen ? JSON.parse(correction.chosen) : null,
+    rejected: JSON.parse(correction.rejected),
+    configVersion: correction.configVersion,
+    createdAt: correction.createdAt.getTime(),
+  };
+}
+
+export class PrismaStorageAdapter implements StorageAdapter {
+  private db = getPrismaClient();
+
+  async createUser(): Promise<UserRecord> {
+    const user = await this.db.user.create({ data: {} });
+    return { id: user.id, createdAt: user.createdAt.getTime() };
+  }
+
+  async getUser(userId: string): Promise<UserRecord | null> {
+    const user = await this.db.user.findUnique({ where: { id: userId } });
+    return user ? { id: user.id, createdAt: user.createdAt.getTime() } : null;
+  }
+
+  async deleteUser(userId: string): Promise<void> {
+    await this.db.user.deleteMany({ where: { id: userId } });
+  }
+
+  async listProviderAccounts(userId: string): Promise<ProviderAccountRecord[]> {
+    const accounts = await this.db.providerAccount.findMany({ where: { userId } });
+
+    return accounts.map(fromAccountRow);
+  }
+
+  async upsertProviderAccount(account: ProviderAccountRecord): Promise<void> {
+    const data = {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken ?? null,
+      expiresAt: toDate(account.expiresAt),
+      externalUserId: account.externalUserId ?? null,
+      displayName: account.displayName ?? null,
+    };
+
+    await this.db.providerAccount.upsert({
+      where: { userId_platform: { userId: account.userId, platform: account.platform } },
+      create: { userId: account.userId, platform: account.platform, ...data },
+      update: data,
+    });
+  }
+
+  async deleteProviderAccount(userId: string, platform: Platform): Promise<void> {
+    await this.db.providerAccount.deleteMany({ where: { userId, platform } });
+  }
+
+  async getSubscription(userId: string): Promise<SubscriptionRecord | null> {
+    const subscription = await this.db.subscription.findUnique({ where: { userId } });
+    if (!subscription) return null;
+
+    return {
+      userId: subscription.userId,
+      tier: subscription.tier as SubscriptionTier,
+      status: subscription.status ?? undefined,
+      stripeCustomerId: subscription.stripeCustomerId ?? undefined,
+      stripeSubscriptionId: subscription.stripeSubscriptionId ?? undefined,
+      currentPeriodEnd: fromDate(subscription.currentPeriodEnd),
+      graceUntil: fromDate(subscription.graceUntil),
+      lastEventAt: fromDate(subscription.lastEventAt),
+    };
+  }
+
+  async upsertSubscription(subscription: SubscriptionRecord): Promise<void> {
+    const data = {
+      tier: subscription.tier,
+      status: subscription.status ?? null,
+      stripeCustomerId: subscription.stripeCustomerId ?? null,
+      stripeSubscriptionId: subscription.stripeSubscriptionId ?? null,
+      currentPeriodEnd: toDate(subscription.currentPeriodEnd),
+      graceUntil: toDate(subscription.graceUntil),
+      lastEventAt: toDate(subscription.lastEventAt),
+    };
+
+    await this.db.subscription.upsert({
+      where: { userId: subscription.userId },
+      create: { userId: subscription.userId, ...data },
+      update: data,
+    });
+  }
+
+  async findUserIdByStripeCustomerId(customerId: string): Promise<string | null> {
+    const subscription = await this.db.subscription.findUnique({
+      where: { stripeCustomerId: customerId },
+    });
+    return subscription?.userId ?? null;
+  }
+
+  async claimWebhookEvent(eventId: string, type: string): Promise<boolean> {
+    try {
+      await this.db.webhookEvent.create({ data: { id: eventId, type } });
+      return true;
+    } catch (error: any) {
+      if (error?.code === 'P2002') return false; // Already claimed
+      throw error;
+    }
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    await this.db.webhookEvent.deleteMany({ where: { id: eventId } });
+  }
+
+  async getUsageCounter(userId: string, name: string): Promise<UsageCounterRecord | null> {
+    const counter = await this.db.usageCounter.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    if (!counter) return null;
+
+    return {
+      userId: counter.userId,
+      name: counter.name,
+      count: counter.count,
+      periodStart: counter.periodStart.getTime(),
+    };
+  }
+
+  async incrementUsageCounter(
+    userId: string,
+    name: string,
+    amount: number,
+    periodStart: number
+  ): Promise<UsageCounterRecord> {
+    const start = new Date(periodStart);
+
+    // Only a counter from an earlier period matches, so concurrent callers
+    // reset it once and every increment lands in the new period
+    await this.db.usageCounter.updateMany({
+      where: { userId, name, periodStart: { lt: start } },
+      data: { count: 0, periodStart: start },
+    });
+
+    const upsert = () =>
+      this.db.usageCounter.upsert({
+        where: { userId_name: { userId, name } },
+        create: { userId, name, count: amount, periodStart: start },
+        update: { count: { increment: amount } },
+      });
+
+    let counter;
+    try {
+      counter = await upsert();
+    } catch (error: any) {
+      // Two first increments raced to create the row; the loser updates it
+      if (error?.code !== 'P2002') throw error;
+      counter = await upsert();
+    }
+
+    return {
+      userId: counter.userId,
+      name: counter.name,
+      count: counter.count,
+      periodStart: counter.periodStart.getTime(),
+    };
+  }
+
+  async createSyncJob(job: NewSyncJob): Promise<SyncJobRecord> {
+    const created = await this.db.syncJob.create({
+      data: {
+        ...toSyncJobData(job),
+        userId: job.userId,
+        sourcePlatform: job.sourcePlatform,
+        sourcePlaylistId: job.sourcePlaylistId,
+        targetPlatform: job.targetPlatform,
+        targetPlaylistId: job.targetPlaylistId,
+        schedule: job.schedule,
+        nextRunAt: new Date(job.nextRunAt),
+      },
+    });
+    return fromSyncJobRow(created);
+  }
+
+  async getSyncJob(jobId: string): Promise<SyncJobRecord | null> {
+    const job = await this.db.syncJob.findUnique({ where: { id: jobId } });
+    return job ? fromSyncJobRow(job) : null;
+  }
+
+  async listSyncJobs(userId: string): Promise<SyncJobRecord[]> {
+    const jobs = await this.db.syncJob.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return jobs.map(fromSyncJobRow);
+  }
+
+  async listDueSyncJobs(now: number): Promise<SyncJobRecord[]> {
+    const jobs = await this.db.syncJob.findMany({
+      where: { status: 'active', nextRunAt: { lte: new Date(now) } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+    return jobs.map(fromSyncJobRow);
+  }
+
+  async claimSyncJob(jobId: string, now: number, nextRunAt: number): Promise<boolean> {
+    const { count } = await this.db.syncJob.updateMany({
+      where: { id: jobId, status: 'active', nextRunAt: { lte: new Date(now) } },
+      data: { nextRunAt: new Date(nextRunAt) },
+    });
+    return count === 1;
+  }
+
+  async updateSyncJob(jobId: string, changes: Partial<NewSyncJob>): Promise<void> {
+    await this.db.syncJob.updateMany({ where: { id: jobId }, data: toSyncJobData(changes) });
+  }
+
+  async deleteSyncJob(jobId: string): Promise<void> {
+    await this.db.syncJob.deleteMany({ where: { id: jobId } });
+  }
+
+  async createMirror(mirror: NewMirror): Promise<MirrorRecord> {
+    const created = await this.db.mirror.create({
+      data: {
+        ...toMirrorData(mirror),
+        userId: mirror.userId,
+        sideA: JSON.stringify(mirror.sideA),
+        sideB: JSON.stringify(mirror.sideB),
+        schedule: mirror.schedule,
+        nextRunAt: new Date(mirror.nextRunAt),
+      },
+    });
+    return fromMirrorRow(created);
+  }
+
+  async getMirror(mirrorId: string): Promise<MirrorRecord | null> {
+    const mirror = await this.db.mirror.findUnique({ where: { id: mirrorId } });
+    return mirror ? fromMirrorRow(mirror) : null;
+  }
+
+  async listMirrors(userId: string): Promise<MirrorRecord[]> {
+    const mirrors = await this.db.mirror.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return mirrors.map(fromMirrorRow);
+  }
+
+  async listDueMirrors(now: number): Promise<MirrorRecord[]> {
+    const mirrors = await this.db.mirror.findMany({
+      where: { status: 'active', nextRunAt: { lte: new Date(now) } },
+      orderBy: { nextRunAt: 'asc' },
+    });
+    return mirrors.map(fromMirrorRow);
+  }
+
+  async claimMirror(mirrorId: string, now: number, nextRunAt: number): Promise<boolean> {
+    const { count } = await this.db.mirror.updateMany({
+      where: { id: mirrorId, status: 'active', nextRunAt: { lte: new Date(now) } },
+      data: { nextRunAt: new Date(nextRunAt) },
+    });
+    return count === 1;
+  }
+
+  async updateMirror(mirrorId: string, changes: Partial<NewMirror>): Promise<void> {
+    await this.db.mirror.updateMany({ where: { id: mirrorId }, data: toMirrorData(changes) });
+  }
+
+  async deleteMirror(mirrorId: string): Promise<void> {
+    await this.db.mirror.deleteMany({ where: { id: mirrorId } });
+  }
+
+  async createRestore(restore: NewRestore): Promise<RestoreRecord> {
+    const [, created] = await this.db.$transaction([
+      this.db.restore.deleteMany({ where: { userId: restore.userId } }),
+      this.db.restore.create({
+        data: {
+          userId: restore.userId,
+          sourcePlatform: restore.sourcePlatform,
+          targetPlatform: restore.targetPlatform,
+          backupCreatedAt: restore.backupCreatedAt,
+          playlists: JSON.stringify(restore.playlists),
+          tracks: JSON.stringify(restore.tracks),
+        },
+      }),
+    ]);
+    return fromRestoreRow(created);
+  }
+
+  async getRestore(restoreId: string): Promise<RestoreRecord | null> {
+    const restore = await this.db.restore.findUnique({ where: { id: restoreId } });
+    return restore ? fromRestoreRow(restore) : null;
+  }
+
+  async updateRestore(restoreId: string, changes: Pick<NewRestore, 'playlists'>): Promise<void> {
+    await this.db.restore.updateMany({
+      where: { id: restoreId },
+      data: { playlists: JSON.stringify(changes.playlists) },
+    });
+  }
+
+  async deleteRestore(restoreId: string): Promise<void> {
+    await this.db.restore.deleteMany({ where: { id: restoreId } });
+  }
+
+  async findMatchCacheEntries(keys: string[], targetPlatform: Platform): Promise<MatchCacheRecord[]> {
+    const entries = await this.db.matchCacheEntry.findMany({
+      where: { key: { in: keys }, targetPlatform },
+    });
+
+    return entries.map(fromMatchCacheRow);
+  }
+
+  async upsertMatchCacheEntry(entry: MatchCacheRecord): Promise<void> {
+    const id = { key: entry.key, targetPlatform: entry.targetPlatform, userId: entry.userId ?? '' };
+    const data = {
+      target: JSON.stringify(entry.target),
+      confidence: entry.confidence,
+      automatic: entry.automatic ?? false,
+      rejected: entry.rejected ?? false,
+      updatedAt: new Date(entry.updatedAt),
+    };
+
+    await this.db.matchCacheEntry.upsert({
+      where: { key_targetPlatform_userId: id },
+      create: { ...id, ...data },
+      update: data,
+    });
+  }
+
+  async deleteMatchCacheEntry(key: string, targetPlatform: Platform, userId?: string): Promise<void> {
+    await this.db.matchCacheEntry.deleteMany({ where: { key, targetPlatform, userId: userId ?? '' } });
+  }
+
+  async createMatchCorrection(correction: NewMatchCorrection): Promise<MatchCorrectionRecord> {
+    const created = await this.db.matchCorrection.create({
+      data: {
+        targetPlatform: correction.targetPlatform,
+        source: JSON.stringify(correction.source),
+        chosen: correction.chosen ? JSON.stringify(correction.chosen) : null,
+        rejected: JSON.stringify(correction.rejected),
+        configVersion: correction.configVersion,
+      },
+    });
+    return fromMatchCorrectionRow(created);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Session Data Mapping
+ *
+ * Converts between the SessionData shape the routes work with and the
+ * records kept in storage. getSession() loads a user's data through here and
+ * writes changes back on save().
+ */
+
+import type { SessionData } from '../session';
+import type { Platform } from '../providers/base';
+import { PLATFORMS } from '../sync/platforms';
+import { getStorage } from './index';
+import { ProviderAccountRecord } from './types';
+
+export type UserData = Pick<SessionData, Platform | 'subscription'>;
+
+export const MONTHLY_SYNCS_COUNTER = 'monthly_syncs';
+
+function toConnection(account: ProviderAccountRecord): UserData[Platform] {
+  const { accessToken, refreshToken, expiresAt, externalUserId, displayName } = account;
+
+  switch (account.platform) {
+    case 'spotify':
+      return {
+        accessToken,
+        refreshToken: refreshToken ?? '',
+        expiresAt: expiresAt ?? 0,
+        userId: externalUserId ?? '',
+        displayName: displayName ?? '',
+      };
+    case 'youtube':
+      return {
+        accessToken,
+        refreshToken: refreshToken ?? '',
+        expiresAt: expiresAt ?? 0,
+        channelId: externalUserId ?? '',
+        displayName: displayName ?? '',
+      };
+    case 'apple':
+      return { accessToken, expiresAt, displayName };
+    default:
+      return { accessToken, refreshToken, expiresAt, displayName };
+  }
+}
+
+function toAccountRecord(
+  userId: string,
+  platform: Platform,
+  connection: NonNullable<UserData[Platform]>
+): ProviderAccountRecord {
+  return {
+    userId,
+    platform,
+    accessToken: connection.accessToken,
+    refreshToken: 'refreshToken' in connection ? connection.refreshToken : undefined,
+    expiresAt: connection.expiresAt,
+    externalUserId:
+      'userId' in connection
+        ? connection.userId
+        : 'channelId' in connection
+          ? connection.channelId
+          : undefined,
+    displayName: connection.displayName,
+  };
+}
+
+/**
+ * Load a user's provider connections and subscription from storage
+ */
+export async function loadUserData(userId: string): Promise<UserData> {
+  const storage = getStorage();
+  const [accounts, subscription, usage] = await Promise.all([
+    storage.listProviderAccounts(userId),
+    storage.getSubscription(userId),
+    storage.getUsageCounter(userId, MONTHLY_SYNCS_COUNTER),
+  ]);
+
+  const data: UserData = {};
+
+  for (const account of accounts) {
+    (data as Record<Platform, UserData[Platform]>)[account.platform] = toConnection(account);
+  }
+
+  if (subscription || usage) {
+    data.subscription = {
+      tier: subscription?.tier ?? 'free',
+      stripeCustomerId: subscription?.stripeCustomerId,
+      stripeSubscriptionId: subscription?.stripeSubscriptionId,
+      currentPeriodEnd: subscription?.currentPeriodEnd,
+      graceUntil: subscription?.graceUntil,
+      monthlySyncs: usage?.count,
+      lastResetDate: usage?.periodStart,
+    };
+  }
+
+  return data;
+}
+
+/**
+ * Write whatever changed between `previous` and `next` back to storage:
+ * provider connections and usage. Connections that were removed from the
+ * session are unlinked.
+ */
+export async function saveUserData(
+  userId: string,
+  next: UserData,
+  previous: UserData
+): Promise<void> {
+  const storage = getStorage();
+  const changed = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+
+  for (const platform of PLATFORMS) {
+    const connection = next[platform];
+    if (!changed(connection, previous[platform])) continue;
+
+    if (connection?.accessToken) {
+      await storage.upsertProviderAccount(toAccountRecord(userId, platform, connection));
+    } else {
+      await storage.deleteProviderAccount(userId, platform);
+    }
+  }
+
+  // The subscription itself is only written by Stripe webhooks: a session's
+  // copy is a snapshot from the start of the request and would roll back
+  // whatever a webhook changed since
+  const subscription = next.subscription;
+  if (subscription && changed(subscription, previous.subscription)) {
+    const before = previous.subscription;
+
+    // Usage is written as the increment since `previous`, never as an
+    // absolute count, so overlapping requests and sync jobs don't overwrite
+    // each other's transfers
+    const samePeriod = subscription.lastResetDate === before?.lastResetDate;
+    const added = (subscription.monthlySyncs ?? 0) - (samePeriod ? (before?.monthlySyncs ?? 0) : 0);
+
+    if (added !== 0 || !samePeriod) {
+      const counter = await storage.incrementUsageCounter(
+        userId,
+        MONTHLY_SYNCS_COUNTER,
+        added,
+        subscription.lastResetDate ?? Date.now()
+      );
+      subscription.monthlySyncs = counter.count;
+      subscription.lastResetDate = counter.periodStart;
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Storage Types
+ *
+ * Records persisted server-side, keyed by our own user ID. The session cookie
+ * only carries that ID; everything else is loaded from a StorageAdapter.
+ */
+
+import type { Platform } from '../providers/base';
+import type { MatchConfig, UnifiedTrack } from '../matching/types';
+import type { MatchFeatures } from '../matching/scoring';
+
+export type SubscriptionTier = 'free' | 'pro';
+
+export interface UserRecord {
+  id: string;
+  createdAt: number; // Unix timestamp (ms)
+}
+
+export interface ProviderAccountRecord {
+  userId: string;
+  platform: Platform;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Unix timestamp (ms)
+  externalUserId?: string; // Spotify user ID, YouTube channel ID, ...
+  displayName?: string;
+}
+
+export interface SubscriptionRecord {
+  userId: string;
+  tier: SubscriptionTier;
+  status?: string; // Stripe subscription status
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  currentPeriodEnd?: number; // Unix timestamp (ms)
+  graceUntil?: number; // Unix timestamp (ms) Pro stays active after a failed payment
+  lastEventAt?: number; // Unix timestamp (ms) the last applied Stripe event was created
+}
+
+export interface UsageCounterRecord {
+  userId: string;
+  name: string;
+  count: number;
+  periodStart: number; // Unix timestamp (ms) the counter was last reset
+}
+
+export type SyncJobSchedule = 'hourly' | 'daily' | 'weekly';
+export type SyncJobStatus = 'active' | 'paused';
+
+export interface SyncJobRunResult {
+  added: number;
+  alreadyExists: number;
+  lowConfidence: number; // Held for review; unattended runs only add confident matches
+  notFound: number;
+  error?: string;
+}
+
+/**
+ * A source track a job couldn't add yet. Runs retry it until it has been
+ * tried SYNC_JOB_MAX_ATTEMPTS times; a low-confidence candidate waits for
+ * the user to add or skip it.
+ */
+export interface SyncJobPendingTrack {
+  sourceId: string;
+  title: string;
+  artist: string;
+  sourcePosition: number; // Index in the source playlist when last tried
+  status: 'low_confidence' | 'not_found';
+  candidateId?: string; // Best target track, for low_confidence
+  candidateTitle?: string;
+  candidateArtist?: string;
+  confidence?: number;
+  attempts: number;
+  lastTriedAt: number; // Unix timestamp (ms)
+}
+
+/**
+ * A source -> target playlist pair kept in sync on a schedule
+ */
+export interface SyncJobRecord {
+  id: string;
+  userId: string;
+  sourcePlatform: Platform;
+  sourcePlaylistId: string;
+  sourcePlaylistName?: string;
+  targetPlatform: Platform;
+  targetPlaylistId: string; // 'liked' for the target's liked tracks
+  targetPlaylistName?: string;
+  schedule: SyncJobSchedule;
+  matchConfig?: Partial<MatchConfig>;
+  status: SyncJobStatus;
+  processedSourceIds: string[]; // Source tracks added or already on the target
+  pendingTracks: SyncJobPendingTrack[];
+  createdAt: number; // Unix timestamp (ms)
+  lastRunAt?: number;
+  nextRunAt: number;
+  lastResult?: SyncJobRunResult;
+}
+
+export type NewSyncJob = Omit<SyncJobRecord, 'id' | 'createdAt'>;
+
+/**
+ * How a mirror resolves a track removed on one side but still on the other:
+ * - union: keep it; removals are never propagated
+ * - source_wins: side A decides (removed on A -> removed on B, removed on B -> re-added)
+ * - manual: queue the removal for the user to review
+ */
+export type MirrorConflictPolicy = 'union' | 'source_wins' | 'manual';
+
+export interface MirrorSide {
+  platform: Platform;
+  playlistId: string;
+  playlistName?: string;
+}
+
+/**
+ * The same song on both sides of a mirror
+ */
+export interface MirrorTrackPair {
+  a: string; // Track ID on side A
+  b: string; // Track ID on side B
+}
+
+export interface MirrorReviewItem {
+  id: string;
+  removedFrom: 'a' | 'b';
+  trackId: string; // ID on the side it was removed from
+  counterpartId: string; // ID on the other side, still present
+  title: string;
+  artist: string;
+  detectedAt: number; // Unix timestamp (ms)
+}
+
+export interface MirrorRunResult {
+  addedToA: number;
+  addedToB: number;
+  removedFromA: number;
+  removedFromB: number;
+  queuedForReview: number;
+  unmatched: number; // Additions with no confident match on the other side
+  error?: string;
+}
+
+/**
+ * Two playlists kept identical in both directions. Snapshots hold the track
+ * IDs each side had after the last run, so the next run can tell additions
+ * from removals.
+ */
+export interface MirrorRecord {
+  id: string;
+  userId: string;
+  sideA: MirrorSide;
+  sideB: MirrorSide;
+  conflictPolicy: MirrorConflictPolicy;
+  propagateRemovals: boolean;
+  schedule: SyncJobSchedule;
+  status: SyncJobStatus;
+  snapshotA: string[];
+  snapshotB: string[];
+  pairs: MirrorTrackPair[];
+  pendingReview: MirrorReviewItem[];
+  createdAt: number; // Unix timestamp (ms)
+  lastRunAt?: number;
+  nextRunAt: number;
+  lastResult?: MirrorRunResult;
+}
+
+export type NewMirror = Omit<MirrorRecord, 'id' | 'createdAt'>;
+
+/**
+ * One playlist of a restore and how far it got. A playlist is done once it
+ * exists on the target and every track was tried, or when it failed.
+ */
+export interface RestorePlaylistProgress {
+  file: string; // Path inside the backup archive
+  sourceId: string; // Playlist ID on the backed-up platform, or 'liked'
+  name: string;
+  description?: string;
+  trackCount: number;
+  offset: number; // Tracks before this one have been restored
+  addedIds: string[]; // Target track IDs added so far, so later batches skip them
+  playlistId?: string; // Set once the playlist exists on the target
+  playlistUrl?: string;
+  added: number;
+  lowConfidence: number; // Left out: restores run unattended
+  notFound: number;
+  error?: string;
+}
+
+/**
+ * A backup being restored onto a platform, one batch of tracks per request.
+ * The tracks are read from the archive once and never change; only
+ * `playlists` is updated as batches complete.
+ */
+export interface RestoreRecord {
+  id: string;
+  userId: string;
+  sourcePlatform: Platform;
+  targetPlatform: Platform;
+  backupCreatedAt: string; // From the backup manifest
+  playlists: RestorePlaylistProgress[];
+  tracks: Record<string, UnifiedTrack[]>; // By playlist file
+  createdAt: number; // Unix timestamp (ms)
+}
+
+export type NewRestore = Omit<RestoreRecord, 'id' | 'createdAt'>;
+
+/**
+ * A known source -> target match. `key` is one of the source track's
+ * identities (see lib/matching/cache.ts), so one match is stored under
+ * several keys. Every entry belongs to one user: matches the matcher found
+ * for them, and what they confirmed or rejected in the preview.
+ */
+export interface MatchCacheRecord {
+  key: string;
+  targetPlatform: Platform;
+  target: UnifiedTrack;
+  confidence: number;
+  userId?: string; // Unset only on entries from before matches were per user, which are ignored
+  automatic?: boolean; // Found by the matcher rather than confirmed by the user
+  rejected?: boolean; // The user turned this target down
+  updatedAt: number; // Unix timestamp (ms)
+}
+
+/**
+ * A candidate the user picked or turned down, with the features it was
+ * scored on (see extractMatchFeatures in lib/matching/scoring.ts)
+ */
+export interface LabeledCandidate {
+  track: UnifiedTrack;
+  features: MatchFeatures;
+}
+
+/**
+ * A user's correction to an automatic match: the calibration dataset for
+ * scripts/calibrate-matching.ts. Not tied to a user.
+ */
+export interface MatchCorrectionRecord {
+  id: string;
+  targetPlatform: Platform;
+  source: UnifiedTrack;
+  chosen: LabeledCandidate | null; // null when the user rejected the match outright
+  rejected: LabeledCandidate[];
+  configVersion: number; // MATCH_CONFIG_VERSION the automatic match was made with
+  createdAt: number; // Unix timestamp (ms)
+}
+
+export type NewMatchCorrection = Omit<MatchCorrectionRecord, 'id' | 'createdAt'>;
+
+export interface StorageAdapter {
+  // Users
+  createUser(): Promise<UserRecord>;
+  getUser(userId: string): Promise<UserRecord | null>;
+  deleteUser(userId: string): Promise<void>;
+
+  // Linked provider accounts
+  listProviderAccounts(userId: string): Promise<ProviderAccountRecord[]>;
+  upsertProviderAccount(account: ProviderAccountRecord): Promise<void>;
+  deleteProviderAccount(userId: string, platform: Platform): Promise<void>;
+
+  // Subscriptions and Stripe customer mapping
+  getSubscription(userId: string): Promise<SubscriptionRecord | null>;
+  upsertSubscription(subscription: SubscriptionRecord): Promise<void>;
+  findUserIdByStripeCustomerId(customerId: string): Promise<string | null>;
+
+  // Stripe webhook events, claimed before processing so redeliveries and
+  // concurrent retries run once. Claiming returns false if already claimed;
+  // a failed event is released so Stripe's next retry can process it.
+  claimWebhookEvent(eventId: string, type: string): Promise<boolean>;
+  releaseWebhookEvent(eventId: string): Promise<void>;
+
+  // Usage counters
+  getUsageCounter(userId: string, name: string): Promise<UsageCounterRecord | null>;
+  // Atomically add `amount` to the counter's period starting at
+  // `periodStart`, first resetting a counter left from an earlier period
+  incrementUsageCounter(userId: string, name: string, amount: number, periodStart: number): Promise<UsageCounterRecord>;
+
+  // Scheduled sync jobs
+  createSyncJob(job: NewSyncJob): Promise<SyncJobRecord>;
+  getSyncJob(jobId: string): Promise<SyncJobRecord | null>;
+  listSyncJobs(userId: string): Promise<SyncJobRecord[]>;
+  listDueSyncJobs(now: number): Promise<SyncJobRecord[]>;
+  // Move a due job's next run to `nextRunAt`. Only one of several
+  // overlapping callers gets true; the others must leave the job alone.
+  claimSyncJob(jobId: string, now: number, nextRunAt: number): Promise<boolean>;
+  updateSyncJob(jobId: string, changes: Partial<NewSyncJob>): Promise<void>;
+  deleteSyncJob(jobId: string): Promise<void>;
+
+  // Two-way playlist mirrors
+  createMirror(mirror: NewMirror): Promise<MirrorRecord>;
+  getMirror(mirrorId: string): Promise<MirrorRecord | null>;
+  listMirrors(userId: string): Promise<MirrorRecord[]>;
+  listDueMirrors(now: number): Promise<MirrorRecord[]>;
+  // Like claimSyncJob: true for the one caller that moved the next run
+  claimMirror(mirrorId: string, now: number, nextRunAt: number): Promise<boolean>;
+  updateMirror(mirrorId: string, changes: Partial<NewMirror>): Promise<void>;
+  deleteMirror(mirrorId: string): Promise<void>;
+
+  // Backup restores in progress. Creating one replaces any restore the
+  // user left unfinished.
+  createRestore(restore: NewRestore): Promise<RestoreRecord>;
+  getRestore(restoreId: string): Promise<RestoreRecord | null>;
+  updateRestore(restoreId: string, changes: Pick<NewRestore, 'playlists'>): Promise<void>;
+  deleteRestore(restoreId: string): Promise<void>;
+
+  // Match cache; lookups return every user's entries for the keys
+  findMatchCacheEntries(keys: string[], targetPlatform: Platform): Promise<MatchCacheRecord[]>;
+  upsertMatchCacheEntry(entry: MatchCacheRecord): Promise<void>;
+  deleteMatchCacheEntry(key: string, targetPlatform: Platform, userId?: string): Promise<void>;
+
+  // Match corrections, for calibrating the match config
+  createMatchCorrection(correction: NewMatchCorrection): Promise<MatchCorrectionRecord>;
+}
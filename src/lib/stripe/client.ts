@@ -24,6 +24,7 @@ export async function createCheckoutSession(params: {
   customerEmail?: string;
   successUrl: string;
   cancelUrl: string;
+  clientReferenceId?: string;
   metadata?: Record<string, string>;
 }): Promise<Stripe.Checkout.Session> {
   const session = await stripe.checkout.sessions.create({
@@ -39,7 +40,10 @@ export async function createCheckoutSession(params: {
     customer_email: params.customerId ? undefined : params.customerEmail,
     success_url: params.successUrl,
     cancel_url: params.cancelUrl,
+    client_reference_id: params.clientReferenceId,
     metadata: params.metadata,
+    // Copied onto the subscription so its webhook events carry our user ID
+    subscription_data: { metadata: params.metadata },
     allow_promotion_codes: true,
   });
 
@@ -0,0 +1,295 @@
+/**
+ * Stripe Webhook Processing
+ *
+ * Applies verified Stripe events to the subscriptions in storage. Kept apart
+ * from the route (and from ./client, which needs STRIPE_SECRET_KEY) so events
+ * can be replayed from fixtures without calling the Stripe API.
+ */
+
+import type Stripe from 'stripe';
+import { getStorage } from '../storage';
+import type { SubscriptionRecord, SubscriptionTier } from '../storage';
+
+// How long Pro stays active after a failed renewal payment
+export const PAYMENT_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stripe statuses that keep (or grant) Pro; past_due is covered by the grace period
+const ACTIVE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+export interface WebhookResult {
+  duplicate: boolean;
+  userId?: string | null;
+}
+
+/**
+ * Process a verified Stripe event. The event ID is claimed before anything
+ * runs, so redeliveries and concurrent retries of the same event are
+ * acknowledged without side effects; a failed event is released again.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+  const storage = getStorage();
+
+  if (!(await storage.claimWebhookEvent(event.id, event.type))) {
+    console.log('[Stripe Webhook] Skipping duplicate event:', event.id);
+    return { duplicate: true };
+  }
+
+  const eventAt = event.created * 1000;
+  let userId: string | null = null;
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        userId = await handleCheckoutCompleted(event.data.object, eventAt);
+        break;
+
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+        userId = await handleSubscriptionUpdated(event.data.object, eventAt);
+        break;
+
+      case 'customer.subscription.deleted':
+        userId = await handleSubscriptionDeleted(event.data.object, eventAt);
+        break;
+
+      case 'invoice.payment_succeeded':
+        userId = await handlePaymentSucceeded(event.data.object, eventAt);
+        break;
+
+      case 'invoice.payment_failed':
+        userId = await handlePaymentFailed(event.data.object, eventAt);
+        break;
+
+      default:
+        console.log('[Stripe Webhook] Unhandled event type:', event.type);
+    }
+  } catch (error) {
+    await storage.releaseWebhookEvent(event.id);
+    throw error;
+  }
+
+  return { duplicate: false, userId };
+}
+
+// ==================== Helpers ====================
+
+function getId(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Find our user for a Stripe object: explicit metadata first (set at
+ * checkout), then the stored Stripe customer mapping
+ */
+async function resolveUserId(
+  customerId: string | undefined,
+  metadata?: Stripe.Metadata | null
+): Promise<string | null> {
+  const storage = getStorage();
+
+  const metadataUserId = metadata?.userId;
+  if (metadataUserId && (await storage.getUser(metadataUserId))) {
+    return metadataUserId;
+  }
+
+  if (customerId) {
+    return storage.findUserIdByStripeCustomerId(customerId);
+  }
+
+  return null;
+}
+
+/**
+ * Apply an event created at `eventAt`, unless a later event already changed
+ * the subscription. Stripe doesn't deliver events in order: a renewal's
+ * payment_succeeded can arrive after the cancellation. Within the same
+ * second a cancellation wins over anything granting Pro.
+ */
+async function updateSubscription(
+  userId: string,
+  changes: Partial<Omit<SubscriptionRecord, 'userId'>>,
+  eventAt: number
+): Promise<void> {
+  const storage = getStorage();
+  const existing = await storage.getSubscription(userId);
+  const lastEventAt = existing?.lastEventAt;
+
+  if (
+    lastEventAt !== undefined &&
+    (eventAt < lastEventAt || (eventAt === lastEventAt && changes.tier === 'pro' && existing?.status === 'canceled'))
+  ) {
+    console.log('[Stripe] Ignoring event older than the stored subscription:', { userId, eventAt, lastEventAt });
+    return;
+  }
+
+  await storage.upsertSubscription({
+    tier: 'free',
+    ...existing,
+    ...changes,
+    userId,
+    lastEventAt: Math.max(eventAt, lastEventAt ?? 0),
+  });
+}
+
+function getCurrentPeriodEnd(subscription: Stripe.Subscription): number | undefined {
+  // Billing periods live on subscription items in current API versions
+  const periodEnds = subscription.items?.data?.map((item) => item.current_period_end) ?? [];
+  return periodEnds.length > 0 ? Math.max(...periodEnds) * 1000 : undefined;
+}
+
+function getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | undefined {
+  return getId(invoice.parent?.subscription_details?.subscription);
+}
+
+// ==================== Handlers ====================
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session, eventAt: number): Promise<string | null> {
+  const customerId = getId(session.customer);
+  const userId = await resolveUserId(customerId, {
+    ...session.metadata,
+    userId: session.metadata?.userId || session.client_reference_id || '',
+  });
+
+  console.log('[Stripe] Checkout completed:', {
+    customer: customerId,
+    subscription: getId(session.subscription),
+    userId,
+  });
+
+  if (!userId) {
+    console.warn('[Stripe] Checkout completed for unknown user:', session.id);
+    return null;
+  }
+
+  await updateSubscription(userId, {
+    tier: 'pro',
+    status: 'active',
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: getId(session.subscription),
+    graceUntil: undefined,
+  }, eventAt);
+
+  return userId;
+}
+
+async function handleSubscriptionUpdated(subscription: Stripe.Subscription, eventAt: number): Promise<string | null> {
+  const customerId = getId(subscription.customer);
+  const userId = await resolveUserId(customerId, subscription.metadata);
+
+  console.log('[Stripe] Subscription updated:', {
+    id: subscription.id,
+    status: subscription.status,
+    customer: customerId,
+    userId,
+  });
+
+  if (!userId) return null;
+
+  const tier: SubscriptionTier = ACTIVE_STATUSES.includes(subscription.status) ? 'pro' : 'free';
+
+  // Only a past_due subscription can be in its grace period. It starts here
+  // when this event arrives before the invoice's payment_failed.
+  let graceUntil: number | undefined;
+  if (subscription.status === 'past_due') {
+    const existing = await getStorage().getSubscription(userId);
+    graceUntil = existing?.graceUntil ?? Date.now() + PAYMENT_GRACE_PERIOD_MS;
+  }
+
+  await updateSubscription(userId, {
+    tier,
+    status: subscription.status,
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscription.id,
+    currentPeriodEnd: getCurrentPeriodEnd(subscription),
+    graceUntil,
+  }, eventAt);
+
+  return userId;
+}
+
+async function handleSubscriptionDeleted(subscription: Stripe.Subscription, eventAt: number): Promise<string | null> {
+  const customerId = getId(subscription.customer);
+  const userId = await resolveUserId(customerId, subscription.metadata);
+
+  console.log('[Stripe] Subscription deleted:', {
+    id: subscription.id,
+    customer: customerId,
+    userId,
+  });
+
+  if (!userId) return null;
+
+  // Keep the customer ID so a later checkout reuses the same Stripe customer
+  await updateSubscription(userId, {
+    tier: 'free',
+    status: subscription.status,
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: undefined,
+    currentPeriodEnd: undefined,
+    graceUntil: undefined,
+  }, eventAt);
+
+  return userId;
+}
+
+async function handlePaymentSucceeded(invoice: Stripe.Invoice, eventAt: number): Promise<string | null> {
+  const customerId = getId(invoice.customer);
+  const userId = await resolveUserId(
+    customerId,
+    invoice.parent?.subscription_details?.metadata
+  );
+
+  console.log('[Stripe] Payment succeeded:', {
+    customer: customerId,
+    amount: invoice.amount_paid,
+    userId,
+  });
+
+  const subscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!userId || !subscriptionId) return userId;
+
+  const periodEnd = invoice.lines?.data?.reduce(
+    (latest, line) => Math.max(latest, line.period?.end ?? 0),
+    0
+  );
+
+  await updateSubscription(userId, {
+    tier: 'pro',
+    status: 'active',
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscriptionId,
+    ...(periodEnd && { currentPeriodEnd: periodEnd * 1000 }),
+    graceUntil: undefined,
+  }, eventAt);
+
+  return userId;
+}
+
+async function handlePaymentFailed(invoice: Stripe.Invoice, eventAt: number): Promise<string | null> {
+  const customerId = getId(invoice.customer);
+  const userId = await resolveUserId(
+    customerId,
+    invoice.parent?.subscription_details?.metadata
+  );
+
+  console.log('[Stripe] Payment failed:', {
+    customer: customerId,
+    attempt: invoice.attempt_count,
+    userId,
+  });
+
+  if (!userId || !getInvoiceSubscriptionId(invoice)) return userId;
+
+  // Start the grace period on the first failure; retries don't extend it
+  const existing = await getStorage().getSubscription(userId);
+  const graceUntil = existing?.graceUntil ?? Date.now() + PAYMENT_GRACE_PERIOD_MS;
+
+  await updateSubscription(userId, {
+    status: 'past_due',
+    stripeCustomerId: customerId,
+    graceUntil,
+  }, eventAt);
+
+  return userId;
+}
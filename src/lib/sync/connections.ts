@@ -0,0 +1,65 @@
+import { SessionData } from '../session';
+import { refreshSpotifyToken } from '../spotify/auth';
+import { refreshYouTubeToken } from '../youtube/auth';
+import { getProvider } from '../providers';
+import type { Platform } from '../providers/base';
+import { PLATFORM_NAMES } from './platforms';
+
+// Refresh tokens that expire within the next 5 minutes
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export function isPlatformConnected(session: SessionData, platform: Platform): boolean {
+  return !!session[platform]?.accessToken;
+}
+
+/**
+ * Get a valid access token for a connected platform, refreshing it if needed.
+ * Refreshed tokens are written back onto the session; callers should
+ * `session.save()` afterwards to persist them.
+ */
+export async function getPlatformAccessToken(
+  session: SessionData,
+  platform: Platform
+): Promise<string> {
+  const connection = session[platform];
+  if (!connection?.accessToken) {
+    throw new Error(`${PLATFORM_NAMES[platform]} not connected`);
+  }
+
+  const expiresAt = connection.expiresAt;
+  if (!expiresAt || Date.now() < expiresAt - REFRESH_MARGIN_MS) {
+    return connection.accessToken;
+  }
+
+  // Deezer (offline_access) and Apple Music tokens can't be refreshed server-side
+  if (!getProvider(platform).capabilities.refreshableTokens) {
+    return connection.accessToken;
+  }
+
+  switch (platform) {
+    case 'spotify':
+      session.spotify = await refreshSpotifyToken(session);
+      return session.spotify.accessToken;
+
+    case 'youtube':
+      session.youtube = await refreshYouTubeToken(session);
+      return session.youtube.accessToken;
+
+    case 'tidal': {
+      if (!session.tidal?.refreshToken) {
+        return connection.accessToken;
+      }
+      const tokens = await getProvider('tidal').refreshToken(session.tidal.refreshToken);
+      session.tidal = {
+        ...session.tidal,
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresAt,
+      };
+      return tokens.accessToken;
+    }
+
+    default:
+      return connection.accessToken;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Match Corrections
+ *
+ * Records what users pick, confirm or reject in the preview as labeled
+ * candidates, each with the features it was scored on. Offline,
+ * scripts/calibrate-matching.ts fits the match config's weights and
+ * thresholds on them.
+ */
+
+import type { Platform } from '../providers/base';
+import { extractMatchFeatures } from '../matching/scoring';
+import { MATCH_CONFIG_VERSION, UnifiedTrack } from '../matching/types';
+import { getStorage } from '../storage';
+import type { LabeledCandidate } from '../storage';
+
+function label(source: UnifiedTrack, track: UnifiedTrack): LabeledCandidate {
+  return {
+    track: { ...track, raw: undefined }, // Raw payloads are only for debugging
+    features: extractMatchFeatures(source, track),
+  };
+}
+
+/**
+ * Store one correction. `chosen` is null when the user turned the match
+ * down without picking another track.
+ */
+export async function recordCorrection(
+  source: UnifiedTrack,
+  targetPlatform: Platform,
+  chosen: UnifiedTrack | null,
+  rejected: UnifiedTrack[]
+): Promise<void> {
+  const cleanSource = { ...source, raw: undefined };
+
+  await getStorage().createMatchCorrection({
+    targetPlatform,
+    source: cleanSource,
+    chosen: chosen ? label(cleanSource, chosen) : null,
+    rejected: rejected
+      .filter((track) => track.id !== chosen?.id)
+      .map((track) => label(cleanSource, track)),
+    configVersion: MATCH_CONFIG_VERSION,
+  });
+}
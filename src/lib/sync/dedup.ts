@@ -1,21 +1,46 @@
 import { SessionData } from '../session';
-import { getPlaylistTrackUris, getLikedTrackUris } from '../spotify/client';
-import { getPlaylistVideoIds } from '../youtube/client';
+import { getProvider } from '../providers';
+import type { Platform, Track } from '../providers/base';
+import { getPlatformAccessToken } from './connections';
+
+// Upper bound when scanning a whole library for existing tracks
+export const LIBRARY_SCAN_LIMIT = 10000;
 
 export async function getExistingTrackIds(
   session: SessionData,
-  platform: 'spotify' | 'youtube',
+  platform: Platform,
   playlistId: string | null
 ): Promise<Set<string>> {
-  if (platform === 'spotify') {
-    if (playlistId === 'liked' || !playlistId) {
-      return getLikedTrackUris(session);
-    }
-    return getPlaylistTrackUris(session, playlistId);
-  } else {
-    if (!playlistId) {
-      return new Set(); // YouTube doesn't have a "liked" endpoint
+  const provider = getProvider(platform);
+  const accessToken = await getPlatformAccessToken(session, platform);
+
+  if (playlistId === 'liked' || !playlistId) {
+    if (!provider.capabilities.likedTracks.read) {
+      return new Set(); // Can't list the whole liked library (e.g. YouTube)
     }
-    return getPlaylistVideoIds(session, playlistId);
+    const tracks = await provider.getLikedTracks(accessToken, LIBRARY_SCAN_LIMIT);
+    return new Set(tracks.map((t) => t.id));
+  }
+
+  const playlist = await provider.getPlaylist(accessToken, playlistId);
+  return new Set((playlist.tracks || []).map((t) => t.id));
+}
+
+/**
+ * Fetch every track of a playlist, or of the liked tracks for 'liked'
+ */
+export async function getPlaylistTracks(
+  session: SessionData,
+  platform: Platform,
+  playlistId: string
+): Promise<Track[]> {
+  const provider = getProvider(platform);
+  const accessToken = await getPlatformAccessToken(session, platform);
+
+  if (playlistId === 'liked') {
+    return provider.getLikedTracks(accessToken, LIBRARY_SCAN_LIMIT);
   }
+
+  const playlist = await provider.getPlaylist(accessToken, playlistId);
+  return playlist.tracks || [];
 }
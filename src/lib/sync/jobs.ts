@@ -0,0 +1,277 @@
+/**
+ * Scheduled Sync Jobs
+ *
+ * Runs stored source -> target playlist jobs without a browser session. Each
+ * run only looks at source tracks earlier runs haven't added, matches them
+ * with the regular matcher and adds confident matches that the target doesn't
+ * already have. Low-confidence and unfound tracks are kept on the job and
+ * retried on later runs; the user can add or skip low-confidence ones.
+ */
+
+import { getProvider, MusicProvider } from '../providers';
+import { matchTracks, deduplicateResults } from '../matching/matcher';
+import { DEFAULT_MATCH_CONFIG, MatchConfig } from '../matching/types';
+import { getStorage } from '../storage';
+import type {
+  NewSyncJob,
+  SyncJobPendingTrack,
+  SyncJobRecord,
+  SyncJobRunResult,
+  SyncJobSchedule,
+} from '../storage';
+import { loadUserData, saveUserData, UserData } from '../storage/session-data';
+import { checkEntitlement, recordTracksTransferred } from '../entitlements';
+import { getExistingTrackIds, getPlaylistTracks } from './dedup';
+import { getPlatformAccessToken, isPlatformConnected } from './connections';
+import { sortBySourcePosition } from './ordering';
+import { PLATFORM_NAMES } from './platforms';
+import { getPlatformSearch } from './search';
+
+export const SYNC_JOB_SCHEDULES: Record<SyncJobSchedule, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Runs that try a low-confidence or unfound track before it's left to the user
+ */
+export const SYNC_JOB_MAX_ATTEMPTS = 5;
+
+export function isSyncJobSchedule(value: unknown): value is SyncJobSchedule {
+  return typeof value === 'string' && value in SYNC_JOB_SCHEDULES;
+}
+
+export function getNextRunAt(schedule: SyncJobSchedule, from: number = Date.now()): number {
+  return from + SYNC_JOB_SCHEDULES[schedule];
+}
+
+const NUMERIC_CONFIG_KEYS: (keyof MatchConfig)[] = [
+  'highConfidenceThreshold',
+  'lowConfidenceThreshold',
+  'durationToleranceMs',
+  'durationWeight',
+  'titleWeight',
+  'artistWeight',
+  'albumWeight',
+  'versionMismatchPenalty',
+  'maxSearchResults',
+  'maxAlternatives',
+];
+
+/**
+ * Keep only known, numeric MatchConfig overrides from a request body
+ */
+export function parseMatchConfig(value: unknown): Partial<MatchConfig> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const config: Partial<MatchConfig> = {};
+  for (const key of NUMERIC_CONFIG_KEYS) {
+    const option = (value as Record<string, unknown>)[key];
+    if (typeof option === 'number' && Number.isFinite(option) && option >= 0) {
+      config[key] = option;
+    }
+  }
+
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
+async function addToTarget(
+  provider: MusicProvider,
+  accessToken: string,
+  playlistId: string,
+  trackIds: string[]
+): Promise<void> {
+  if (playlistId === 'liked') {
+    await provider.addToLikedTracks(accessToken, trackIds);
+  } else {
+    await provider.addTracksToPlaylist(accessToken, playlistId, trackIds);
+  }
+}
+
+/**
+ * Run one job now. Throws if the job can't run at all (disconnected
+ * platform, plan limits); the caller records the error on the job.
+ */
+export async function runSyncJob(job: SyncJobRecord): Promise<SyncJobRunResult> {
+  const storage = getStorage();
+  const { sourcePlatform, targetPlatform } = job;
+
+  // Work on a copy of the owner's stored data so refreshed tokens and usage
+  // can be written back the same way a browser session would
+  const stored = await loadUserData(job.userId);
+  const session: UserData = structuredClone(stored);
+
+  for (const platform of [sourcePlatform, targetPlatform]) {
+    if (!isPlatformConnected(session, platform)) {
+      throw new Error(`${PLATFORM_NAMES[platform]} not connected`);
+    }
+
+    const denial = checkEntitlement(session, { feature: 'platform', platform });
+    if (denial) throw new Error(denial.error);
+  }
+
+  const result: SyncJobRunResult = { added: 0, alreadyExists: 0, lowConfidence: 0, notFound: 0 };
+
+  const processed = new Set(job.processedSourceIds);
+  const sourceTracks = await getPlaylistTracks(session, sourcePlatform, job.sourcePlaylistId);
+  const positions = new Map(sourceTracks.map((track, index) => [track.id, index]));
+
+  // Forget pending tracks that left the source; retry the rest until they run out of attempts
+  const pending = new Map(
+    job.pendingTracks.filter((p) => positions.has(p.sourceId)).map((p) => [p.sourceId, p])
+  );
+  const toMatch = sourceTracks.filter(
+    (track) =>
+      !processed.has(track.id) && (pending.get(track.id)?.attempts ?? 0) < SYNC_JOB_MAX_ATTEMPTS
+  );
+
+  if (toMatch.length === 0) {
+    await saveUserData(job.userId, session, stored);
+    await storage.updateSyncJob(job.id, { pendingTracks: Array.from(pending.values()) });
+    return result;
+  }
+
+  const config: MatchConfig = { ...DEFAULT_MATCH_CONFIG, ...job.matchConfig };
+  const provider = getProvider(targetPlatform);
+  const accessToken = await getPlatformAccessToken(session, targetPlatform);
+  const search = await getPlatformSearch(session, targetPlatform, {
+    limit: config.maxSearchResults,
+    userId: job.userId,
+  });
+
+  const existingIds = await getExistingTrackIds(session, targetPlatform, job.targetPlaylistId);
+  const results = deduplicateResults(
+    await matchTracks(toMatch, search.searchFn, existingIds, config, undefined, search)
+  );
+
+  // The matcher numbers the tracks it was given; point back into the source playlist
+  for (const r of results) {
+    r.sourcePosition = positions.get(r.source.id);
+  }
+
+  const toAdd = sortBySourcePosition(results.filter((r) => r.status === 'matched' && r.target));
+  result.alreadyExists = results.filter((r) => r.status === 'already_exists').length;
+  result.lowConfidence = results.filter((r) => r.status === 'low_confidence').length;
+  result.notFound = results.filter((r) => r.status === 'not_found').length;
+
+  let addedMatches = true;
+  if (toAdd.length > 0) {
+    const denial = checkEntitlement(session, { feature: 'tracks', count: toAdd.length });
+
+    if (denial) {
+      // Leave the matched tracks unprocessed so a later run picks them up
+      result.error = denial.error;
+      addedMatches = false;
+    } else {
+      const trackIds = toAdd.map((r) => r.target!.id);
+      await addToTarget(provider, accessToken, job.targetPlaylistId, trackIds);
+
+      result.added = trackIds.length;
+      recordTracksTransferred(session, trackIds.length);
+    }
+  }
+
+  await saveUserData(job.userId, session, stored);
+
+  const now = Date.now();
+  for (const r of results) {
+    if (r.status === 'already_exists' || (r.status === 'matched' && addedMatches)) {
+      processed.add(r.source.id);
+      pending.delete(r.source.id);
+    } else if (r.status === 'low_confidence' || r.status === 'not_found') {
+      const candidate = r.status === 'low_confidence' ? r.target : null;
+      pending.set(r.source.id, {
+        sourceId: r.source.id,
+        title: r.source.title,
+        artist: r.source.artist,
+        sourcePosition: r.sourcePosition ?? 0,
+        status: r.status,
+        candidateId: candidate?.id,
+        candidateTitle: candidate?.title,
+        candidateArtist: candidate?.artist,
+        confidence: candidate ? r.confidence : undefined,
+        attempts: (pending.get(r.source.id)?.attempts ?? 0) + 1,
+        lastTriedAt: now,
+      });
+    }
+  }
+  await storage.updateSyncJob(job.id, {
+    processedSourceIds: Array.from(processed),
+    pendingTracks: Array.from(pending.values()),
+  });
+
+  return result;
+}
+
+/**
+ * Add a pending track's candidate to the target and return the changes to
+ * store on the job. Throws if there's no candidate, the target isn't
+ * connected or the plan's track limit is reached.
+ */
+export async function addPendingTrack(
+  job: SyncJobRecord,
+  item: SyncJobPendingTrack
+): Promise<Partial<NewSyncJob>> {
+  if (!item.candidateId) {
+    throw new Error('No candidate to add for this track');
+  }
+
+  const stored = await loadUserData(job.userId);
+  const session: UserData = structuredClone(stored);
+
+  if (!isPlatformConnected(session, job.targetPlatform)) {
+    throw new Error(`${PLATFORM_NAMES[job.targetPlatform]} not connected`);
+  }
+
+  const denial = checkEntitlement(session, { feature: 'tracks', count: 1 });
+  if (denial) throw new Error(denial.error);
+
+  const accessToken = await getPlatformAccessToken(session, job.targetPlatform);
+  await addToTarget(getProvider(job.targetPlatform), accessToken, job.targetPlaylistId, [item.candidateId]);
+  recordTracksTransferred(session, 1);
+  await saveUserData(job.userId, session, stored);
+
+  return skipPendingTrack(job, item);
+}
+
+/**
+ * Stop retrying a pending track; later runs treat it as handled
+ */
+export function skipPendingTrack(job: SyncJobRecord, item: SyncJobPendingTrack): Partial<NewSyncJob> {
+  return {
+    processedSourceIds: [...job.processedSourceIds, item.sourceId],
+    pendingTracks: job.pendingTracks.filter((p) => p.sourceId !== item.sourceId),
+  };
+}
+
+/**
+ * Run every active job whose next run is due. Jobs run one after another;
+ * a failing job records its error and doesn't stop the others.
+ */
+export async function runDueSyncJobs(
+  now: number = Date.now()
+): Promise<{ jobId: string; result: SyncJobRunResult }[]> {
+  const storage = getStorage();
+  const jobs = await storage.listDueSyncJobs(now);
+  const summary: { jobId: string; result: SyncJobRunResult }[] = [];
+
+  for (const job of jobs) {
+    // Moving nextRunAt only succeeds while the job is still due, so an
+    // overlapping cron call that listed it too skips it here
+    if (!(await storage.claimSyncJob(job.id, now, getNextRunAt(job.schedule, now)))) continue;
+
+    let result: SyncJobRunResult;
+    try {
+      result = await runSyncJob(job);
+    } catch (error: any) {
+      console.error(`[Sync Jobs] Job ${job.id} failed:`, error);
+      result = { added: 0, alreadyExists: 0, lowConfidence: 0, notFound: 0, error: error.message };
+    }
+
+    await storage.updateSyncJob(job.id, { lastRunAt: Date.now(), lastResult: result });
+    summary.push({ jobId: job.id, result });
+  }
+
+  return summary;
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryStorageAdapter, setStorage } from '../storage';
+import type { Platform } from '../providers/base';
+import type { UnifiedTrack } from '../matching/types';
+import { matchTrack } from '../matching/matcher';
+import {
+  findCachedMatch,
+  forgetMatch,
+  getMatchCache,
+  recordAutomaticMatch,
+  recordMatch,
+  SHARED_CONFIRMATIONS,
+} from './match-cache';
+
+function track(id: string, title: string, artist: string, platform: Platform = 'spotify'): UnifiedTrack {
+  return { id, platform, title, artist, artists: [artist], durationMs: 200000 };
+}
+
+const source = track('yt-1', 'Song', 'Band', 'youtube');
+const right = track('right', 'Song', 'Band');
+const wrong = track('wrong', 'Never Gonna Give You Up', 'Rick Astley');
+
+async function confirmByUsers(target: UnifiedTrack, count: number) {
+  for (let i = 0; i < count; i++) {
+    await recordMatch(source, target, 0.99, `other-${i}`);
+  }
+}
+
+describe('match cache', () => {
+  beforeEach(() => setStorage(new MemoryStorageAdapter()));
+
+  it("uses a user's own confirmation as theirs", async () => {
+    await recordMatch(source, wrong, 0.99, 'user');
+
+    assert.equal((await findCachedMatch(source, 'spotify', 'user'))?.userConfirmed, true);
+  });
+
+  it("ignores another user's confirmation", async () => {
+    await confirmByUsers(wrong, SHARED_CONFIRMATIONS - 1);
+
+    assert.equal(await findCachedMatch(source, 'spotify', 'user'), null);
+  });
+
+  it('only suggests a target enough other users confirmed', async () => {
+    await confirmByUsers(wrong, SHARED_CONFIRMATIONS);
+
+    const cached = await findCachedMatch(source, 'spotify', 'user');
+    assert.equal(cached?.userConfirmed, false);
+    assert.equal(cached?.confirmedByOthers, SHARED_CONFIRMATIONS);
+
+    const result = await matchTrack(source, async () => [], undefined, {
+      cache: getMatchCache('spotify', 'user'),
+    });
+    assert.equal(result.status, 'low_confidence');
+    assert.equal(result.target?.id, 'wrong');
+  });
+
+  it("prefers a confident search over other users' confirmations", async () => {
+    await confirmByUsers(wrong, SHARED_CONFIRMATIONS);
+
+    const result = await matchTrack(source, async () => [right], undefined, {
+      cache: getMatchCache('spotify', 'user'),
+    });
+    assert.equal(result.status, 'matched');
+    assert.equal(result.target?.id, 'right');
+  });
+
+  it('keeps an automatic match to the user it was found for', async () => {
+    await recordAutomaticMatch(source, wrong, 0.95, 'other');
+
+    assert.equal((await findCachedMatch(source, 'spotify', 'other'))?.target.id, 'wrong');
+    assert.equal(await findCachedMatch(source, 'spotify', 'user'), null);
+  });
+
+  it("doesn't count automatic matches as confirmations", async () => {
+    for (let i = 0; i < SHARED_CONFIRMATIONS; i++) {
+      await recordAutomaticMatch(source, wrong, 0.95, `other-${i}`);
+    }
+
+    assert.equal(await findCachedMatch(source, 'spotify', 'user'), null);
+  });
+
+  it("doesn't let an automatic match replace the user's choice", async () => {
+    await recordMatch(source, right, 0.99, 'user');
+    await recordAutomaticMatch(source, wrong, 0.95, 'user');
+    assert.equal((await findCachedMatch(source, 'spotify', 'user'))?.target.id, 'right');
+
+    await forgetMatch(source, right, 'user');
+    await recordAutomaticMatch(source, right, 0.95, 'user');
+    assert.equal(await findCachedMatch(source, 'spotify', 'user'), null);
+  });
+
+  it('records nothing without a user', async () => {
+    await matchTrack(source, async () => [right], undefined, { cache: getMatchCache('spotify') });
+    await matchTrack(source, async () => [right], undefined, { cache: getMatchCache('spotify', 'user') });
+
+    assert.equal(await findCachedMatch(source, 'spotify', 'someone'), null);
+    assert.equal((await findCachedMatch(source, 'spotify', 'user'))?.target.id, 'right');
+  });
+
+  it('hides a rejected target from the user who rejected it only', async () => {
+    await confirmByUsers(right, SHARED_CONFIRMATIONS);
+    await forgetMatch(source, right, 'user');
+
+    assert.equal(await findCachedMatch(source, 'spotify', 'user'), null);
+    assert.equal((await findCachedMatch(source, 'spotify', 'someone'))?.target.id, 'right');
+  });
+});
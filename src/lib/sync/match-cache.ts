@@ -0,0 +1,171 @@
+/**
+ * Match Cache
+ *
+ * Storage-backed MatchCache, so a song matched once isn't searched for
+ * again. Every entry is the user's own: source tracks come from the
+ * browser, so a match one user's request produced can't be trusted for
+ * anyone else. Automatic matches expire after a while (tracks get pulled
+ * from catalogs). Another user's confirmation is never taken as a match,
+ * only suggested for review once several users agree on it.
+ */
+
+import type { Platform } from '../providers/base';
+import { getMatchCacheKeys } from '../matching/cache';
+import type { CachedMatch, MatchCache, UnifiedTrack } from '../matching/types';
+import { getStorage } from '../storage';
+import type { MatchCacheRecord } from '../storage';
+
+const AUTOMATIC_MATCH_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Distinct users who must confirm the same target before others see it
+export const SHARED_CONFIRMATIONS = 3;
+
+export async function findCachedMatch(
+  source: UnifiedTrack,
+  targetPlatform: Platform,
+  userId?: string,
+  now: number = Date.now()
+): Promise<CachedMatch | null> {
+  const keys = getMatchCacheKeys(source);
+  const entries = await getStorage().findMatchCacheEntries(keys, targetPlatform);
+  const bySpecificity = (a: MatchCacheRecord, b: MatchCacheRecord) => keys.indexOf(a.key) - keys.indexOf(b.key);
+
+  const own = entries.filter((entry) => userId && entry.userId === userId);
+  const rejectedIds = new Set(own.filter((entry) => entry.rejected).map((entry) => entry.target.id));
+
+  // The user's own choice first, then the most specific match found for them
+  const [confirmed] = own.filter((entry) => !entry.rejected && !entry.automatic).sort(bySpecificity);
+  if (confirmed) {
+    return { target: confirmed.target, confidence: confirmed.confidence, userConfirmed: true };
+  }
+
+  const [automatic] = own
+    .filter((entry) => entry.automatic && now - entry.updatedAt < AUTOMATIC_MATCH_TTL_MS)
+    .sort(bySpecificity);
+  if (automatic) {
+    return { target: automatic.target, confidence: automatic.confidence, userConfirmed: false };
+  }
+
+  // Other users' confirmations, counted per target
+  const confirmers = new Map<string, { entry: MatchCacheRecord; users: Set<string> }>();
+  for (const entry of entries) {
+    if (!entry.userId || entry.userId === userId || entry.automatic || entry.rejected) continue;
+    if (rejectedIds.has(entry.target.id)) continue;
+
+    const pick = confirmers.get(entry.target.id) ?? { entry, users: new Set<string>() };
+    pick.users.add(entry.userId);
+    confirmers.set(entry.target.id, pick);
+  }
+
+  const [shared] = Array.from(confirmers.values())
+    .filter((pick) => pick.users.size >= SHARED_CONFIRMATIONS)
+    .sort((a, b) => b.users.size - a.users.size);
+
+  return shared
+    ? {
+        target: shared.entry.target,
+        confidence: shared.entry.confidence,
+        userConfirmed: false,
+        confirmedByOthers: shared.users.size,
+      }
+    : null;
+}
+
+/**
+ * Store `userId`'s confirmation of a match under every identity of the source
+ */
+export async function recordMatch(
+  source: UnifiedTrack,
+  target: UnifiedTrack,
+  confidence: number,
+  userId: string
+): Promise<void> {
+  const storage = getStorage();
+
+  for (const key of getMatchCacheKeys(source)) {
+    await storage.upsertMatchCacheEntry({
+      key,
+      targetPlatform: target.platform,
+      target: { ...target, raw: undefined }, // Raw payloads are only for debugging
+      confidence,
+      userId,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Store a match the matcher found for `userId`. Keys where they already
+ * confirmed or rejected something keep their choice.
+ */
+export async function recordAutomaticMatch(
+  source: UnifiedTrack,
+  target: UnifiedTrack,
+  confidence: number,
+  userId: string
+): Promise<void> {
+  const storage = getStorage();
+  const keys = getMatchCacheKeys(source);
+  const chosen = new Set(
+    (await storage.findMatchCacheEntries(keys, target.platform))
+      .filter((entry) => entry.userId === userId && !entry.automatic)
+      .map((entry) => entry.key)
+  );
+
+  for (const key of keys) {
+    if (chosen.has(key)) continue;
+
+    await storage.upsertMatchCacheEntry({
+      key,
+      targetPlatform: target.platform,
+      target: { ...target, raw: undefined },
+      confidence,
+      userId,
+      automatic: true,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * Remember that a user rejected this target for the source. Only their own
+ * entries change; everyone else keeps theirs.
+ */
+export async function forgetMatch(
+  source: UnifiedTrack,
+  target: UnifiedTrack,
+  userId: string
+): Promise<void> {
+  const storage = getStorage();
+  const keys = getMatchCacheKeys(source);
+  const entries = await storage.findMatchCacheEntries(keys, target.platform);
+
+  for (const key of keys) {
+    // A confirmation of some other target under this key stays
+    const own = entries.find((entry) => entry.key === key && entry.userId === userId);
+    if (own && !own.rejected && !own.automatic && own.target.id !== target.id) continue;
+
+    await storage.upsertMatchCacheEntry({
+      key,
+      targetPlatform: target.platform,
+      target: { ...target, raw: undefined },
+      confidence: 0,
+      userId,
+      rejected: true,
+      updatedAt: Date.now(),
+    });
+  }
+}
+
+/**
+ * The cache as `userId` sees it. Without a user there's nothing of theirs to
+ * find and nothing is recorded.
+ */
+export function getMatchCache(targetPlatform: Platform, userId?: string): MatchCache {
+  return {
+    lookup: (source) => findCachedMatch(source, targetPlatform, userId),
+    record: async (source, target, confidence) => {
+      if (userId) await recordAutomaticMatch(source, target, confidence, userId);
+    },
+  };
+}
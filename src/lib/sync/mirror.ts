@@ -0,0 +1,345 @@
+/**
+ * Two-way Playlist Mirrors
+ *
+ * Keeps two playlists (possibly on different platforms) in step. Each run
+ * compares both sides with the snapshots stored by the previous run:
+ * additions on either side are matched and pushed to the other, and removals
+ * are handled according to the mirror's conflict policy.
+ */
+
+import { randomUUID } from 'crypto';
+import { getProvider, UnsupportedOperationError } from '../providers';
+import type { Track } from '../providers/base';
+import { matchTracks } from '../matching/matcher';
+import { DEFAULT_MATCH_CONFIG } from '../matching/types';
+import { getStorage } from '../storage';
+import type {
+  MirrorConflictPolicy,
+  MirrorRecord,
+  MirrorReviewItem,
+  MirrorRunResult,
+  MirrorSide,
+  MirrorTrackPair,
+  NewMirror,
+} from '../storage';
+import { loadUserData, saveUserData, UserData } from '../storage/session-data';
+import { checkEntitlement, recordTracksTransferred } from '../entitlements';
+import { getPlaylistTracks } from './dedup';
+import { getPlatformAccessToken, isPlatformConnected } from './connections';
+import { PLATFORM_NAMES } from './platforms';
+import { getNextRunAt } from './jobs';
+import { getPlatformSearch } from './search';
+
+export const MIRROR_CONFLICT_POLICIES: MirrorConflictPolicy[] = ['union', 'source_wins', 'manual'];
+
+export function isMirrorConflictPolicy(value: unknown): value is MirrorConflictPolicy {
+  return MIRROR_CONFLICT_POLICIES.includes(value as MirrorConflictPolicy);
+}
+
+type SideKey = 'a' | 'b';
+
+const other = (side: SideKey): SideKey => (side === 'a' ? 'b' : 'a');
+
+interface SideState {
+  side: MirrorSide;
+  tracks: Track[];
+  ids: Set<string>;
+  added: Track[]; // On this side now, not in the last snapshot
+  removed: string[]; // In the last snapshot, gone now
+  toAdd: string[]; // Track IDs to add to this side in this run
+  toRemove: string[]; // Track IDs to remove from this side in this run
+}
+
+function emptyResult(): MirrorRunResult {
+  return {
+    addedToA: 0,
+    addedToB: 0,
+    removedFromA: 0,
+    removedFromB: 0,
+    queuedForReview: 0,
+    unmatched: 0,
+  };
+}
+
+async function loadSide(session: UserData, side: MirrorSide, snapshot: string[]): Promise<SideState> {
+  const tracks = await getPlaylistTracks(session, side.platform, side.playlistId);
+  const ids = new Set(tracks.map((t) => t.id));
+  const previous = new Set(snapshot);
+
+  return {
+    side,
+    tracks,
+    ids,
+    added: tracks.filter((t) => !previous.has(t.id)),
+    removed: snapshot.filter((id) => !ids.has(id)),
+    toAdd: [],
+    toRemove: [],
+  };
+}
+
+async function addToSide(session: UserData, state: SideState, trackIds: string[]): Promise<void> {
+  if (trackIds.length === 0) return;
+
+  const { platform, playlistId } = state.side;
+  const provider = getProvider(platform);
+  const accessToken = await getPlatformAccessToken(session, platform);
+
+  if (playlistId === 'liked') {
+    await provider.addToLikedTracks(accessToken, trackIds);
+  } else {
+    await provider.addTracksToPlaylist(accessToken, playlistId, trackIds);
+  }
+}
+
+function canRemoveFrom(side: MirrorSide): boolean {
+  return getProvider(side.platform).supportsOperation(
+    side.playlistId === 'liked' ? 'removeLiked' : 'removeTracks'
+  );
+}
+
+async function removeFromSide(session: UserData, side: MirrorSide, trackIds: string[]): Promise<void> {
+  if (trackIds.length === 0) return;
+
+  const provider = getProvider(side.platform);
+  const accessToken = await getPlatformAccessToken(session, side.platform);
+
+  if (side.playlistId === 'liked') {
+    await provider.removeFromLikedTracks(accessToken, trackIds);
+  } else {
+    await provider.removeTracksFromPlaylist(accessToken, side.playlistId, trackIds);
+  }
+}
+
+/**
+ * Run one mirror now and return the changes to store on it. Throws if the
+ * mirror can't run at all (disconnected platform, plan limits).
+ */
+export async function runMirror(
+  mirror: MirrorRecord
+): Promise<{ result: MirrorRunResult; changes: Partial<NewMirror> }> {
+  const stored = await loadUserData(mirror.userId);
+  const session: UserData = structuredClone(stored);
+
+  for (const { platform } of [mirror.sideA, mirror.sideB]) {
+    if (!isPlatformConnected(session, platform)) {
+      throw new Error(`${PLATFORM_NAMES[platform]} not connected`);
+    }
+
+    const denial = checkEntitlement(session, { feature: 'platform', platform });
+    if (denial) throw new Error(denial.error);
+  }
+
+  const result = emptyResult();
+  const sides: Record<SideKey, SideState> = {
+    a: await loadSide(session, mirror.sideA, mirror.snapshotA),
+    b: await loadSide(session, mirror.sideB, mirror.snapshotB),
+  };
+
+  let pairs: MirrorTrackPair[] = [...mirror.pairs];
+  const pendingReview: MirrorReviewItem[] = [...mirror.pendingReview];
+  const pairFor = (side: SideKey, id: string) => pairs.find((pair) => pair[side] === id);
+
+  // ===== Removals =====
+  for (const side of ['a', 'b'] as const) {
+    const counterpartSide = other(side);
+
+    for (const removedId of sides[side].removed) {
+      const pair = pairFor(side, removedId);
+      const counterpart = pair && sides[counterpartSide].tracks.find((t) => t.id === pair[counterpartSide]);
+
+      // Nothing to reconcile if the other side never had it or dropped it too
+      if (!pair || !counterpart) {
+        pairs = pairs.filter((p) => p !== pair);
+        continue;
+      }
+
+      if (!mirror.propagateRemovals || mirror.conflictPolicy === 'union') {
+        // Union keeps every track either side still has
+        pairs = pairs.filter((p) => p !== pair);
+        continue;
+      }
+
+      if (mirror.conflictPolicy === 'source_wins' && side === 'b') {
+        // Side A still has it, so it goes back onto B
+        sides.b.toAdd.push(removedId);
+        continue;
+      }
+
+      if (mirror.conflictPolicy === 'source_wins' && canRemoveFrom(mirror.sideB)) {
+        sides.b.toRemove.push(counterpart.id);
+        pairs = pairs.filter((p) => p !== pair);
+        continue;
+      }
+
+      // Manual removals, and source_wins removals B's platform can't apply,
+      // wait for review
+      pendingReview.push({
+        id: randomUUID(),
+        removedFrom: side,
+        trackId: removedId,
+        counterpartId: counterpart.id,
+        title: counterpart.title,
+        artist: counterpart.artist,
+        detectedAt: Date.now(),
+      });
+      result.queuedForReview++;
+    }
+  }
+
+  // ===== Additions =====
+  const pushedPairs: MirrorTrackPair[] = []; // Only kept if the tracks get added
+  for (const side of ['a', 'b'] as const) {
+    const targetSide = other(side);
+    const target = sides[targetSide];
+    const additions = sides[side].added.filter((t) => !pairFor(side, t.id));
+    if (additions.length === 0) continue;
+
+    const search = await getPlatformSearch(session, target.side.platform, { userId: mirror.userId });
+    const matches = await matchTracks(
+      additions,
+      search.searchFn,
+      target.ids,
+      DEFAULT_MATCH_CONFIG,
+      undefined,
+      search
+    );
+
+    for (const match of matches) {
+      if (!match.target || (match.status !== 'matched' && match.status !== 'already_exists')) {
+        result.unmatched++;
+        continue;
+      }
+
+      const pair: MirrorTrackPair =
+        side === 'a'
+          ? { a: match.source.id, b: match.target.id }
+          : { a: match.target.id, b: match.source.id };
+
+      if (match.status === 'already_exists') {
+        pairs.push(pair);
+      } else if (!target.toAdd.includes(match.target.id)) {
+        target.toAdd.push(match.target.id);
+        pushedPairs.push(pair);
+      }
+    }
+  }
+
+  // ===== Apply =====
+  // Additions first: if adding fails, nothing has been removed yet and the
+  // next run starts over from the same snapshots
+  const totalToAdd = sides.a.toAdd.length + sides.b.toAdd.length;
+  const denial = totalToAdd > 0
+    ? checkEntitlement(session, { feature: 'tracks', count: totalToAdd })
+    : null;
+
+  if (denial) {
+    // Nothing gets pushed: keep this run's additions out of the snapshots, and
+    // B's removals in, so the next run sees and retries them
+    result.error = denial.error;
+    for (const side of ['a', 'b'] as const) {
+      sides[side].added.forEach((t) => sides[side].ids.delete(t.id));
+    }
+    sides.b.toAdd
+      .filter((id) => sides.b.removed.includes(id))
+      .forEach((id) => sides.b.ids.add(id));
+  } else {
+    await addToSide(session, sides.a, sides.a.toAdd);
+    await addToSide(session, sides.b, sides.b.toAdd);
+
+    pairs.push(...pushedPairs);
+    result.addedToA = sides.a.toAdd.length;
+    result.addedToB = sides.b.toAdd.length;
+    recordTracksTransferred(session, totalToAdd);
+
+    sides.a.toAdd.forEach((id) => sides.a.ids.add(id));
+    sides.b.toAdd.forEach((id) => sides.b.ids.add(id));
+  }
+
+  // Removals never count against plan limits, so they go ahead regardless
+  await removeFromSide(session, sides.b.side, sides.b.toRemove);
+  sides.b.toRemove.forEach((id) => sides.b.ids.delete(id));
+  result.removedFromB = sides.b.toRemove.length;
+
+  await saveUserData(mirror.userId, session, stored);
+
+  return {
+    result,
+    changes: {
+      snapshotA: Array.from(sides.a.ids),
+      snapshotB: Array.from(sides.b.ids),
+      pairs,
+      pendingReview,
+      lastResult: result,
+    },
+  };
+}
+
+/**
+ * Apply a removal queued for review: remove the counterpart from the other
+ * side and return the changes to store on the mirror. Throws
+ * UnsupportedOperationError if that side's platform can't remove tracks.
+ */
+export async function applyMirrorRemoval(
+  mirror: MirrorRecord,
+  item: MirrorReviewItem
+): Promise<Partial<NewMirror>> {
+  const targetSide = other(item.removedFrom);
+  const target = targetSide === 'a' ? mirror.sideA : mirror.sideB;
+
+  if (!canRemoveFrom(target)) {
+    throw new UnsupportedOperationError(
+      target.platform,
+      target.playlistId === 'liked' ? 'removeLiked' : 'removeTracks'
+    );
+  }
+
+  const stored = await loadUserData(mirror.userId);
+  const session: UserData = structuredClone(stored);
+
+  if (!isPlatformConnected(session, target.platform)) {
+    throw new Error(`${PLATFORM_NAMES[target.platform]} not connected`);
+  }
+
+  await removeFromSide(session, target, [item.counterpartId]);
+  await saveUserData(mirror.userId, session, stored);
+
+  // Keep the snapshot in step with the playlist
+  const snapshotKey = targetSide === 'a' ? 'snapshotA' : 'snapshotB';
+
+  return {
+    [snapshotKey]: mirror[snapshotKey].filter((id) => id !== item.counterpartId),
+    pendingReview: mirror.pendingReview.filter((i) => i.id !== item.id),
+    pairs: mirror.pairs.filter((pair) => pair[item.removedFrom] !== item.trackId),
+  };
+}
+
+/**
+ * Run every active mirror that is due, one after another
+ */
+export async function runDueMirrors(
+  now: number = Date.now()
+): Promise<{ mirrorId: string; result: MirrorRunResult }[]> {
+  const storage = getStorage();
+  const mirrors = await storage.listDueMirrors(now);
+  const summary: { mirrorId: string; result: MirrorRunResult }[] = [];
+
+  for (const mirror of mirrors) {
+    // Skip mirrors an overlapping cron call claimed since they were listed
+    if (!(await storage.claimMirror(mirror.id, now, getNextRunAt(mirror.schedule, now)))) continue;
+
+    let result: MirrorRunResult;
+    try {
+      const run = await runMirror(mirror);
+      result = run.result;
+      await storage.updateMirror(mirror.id, { ...run.changes, lastRunAt: Date.now() });
+    } catch (error: any) {
+      console.error(`[Mirrors] Mirror ${mirror.id} failed:`, error);
+      result = { ...emptyResult(), error: error.message };
+      await storage.updateMirror(mirror.id, { lastRunAt: Date.now(), lastResult: result });
+    }
+
+    summary.push({ mirrorId: mirror.id, result });
+  }
+
+  return summary;
+}
@@ -0,0 +1,49 @@
+/**
+ * Source Order
+ *
+ * Matching runs concurrently, so results can arrive in any order. Results
+ * carry the source track's position, and these helpers use it to write
+ * tracks to the target in source order.
+ */
+
+import type { MatchResult } from '../matching/types';
+
+export type InsertMode = 'append' | 'match_positions';
+
+export const INSERT_MODES: InsertMode[] = ['append', 'match_positions'];
+
+export function isInsertMode(value: unknown): value is InsertMode {
+  return INSERT_MODES.includes(value as InsertMode);
+}
+
+/**
+ * Sort results by source position. Results without one (from older clients)
+ * keep their relative order after those that have one.
+ */
+export function sortBySourcePosition(results: MatchResult[]): MatchResult[] {
+  return results
+    .map((result, index) => ({ result, index }))
+    .sort((a, b) =>
+      (a.result.sourcePosition ?? Infinity) - (b.result.sourcePosition ?? Infinity) ||
+      a.index - b.index
+    )
+    .map(({ result }) => result);
+}
+
+/**
+ * Full target order after inserting `additions` (in source order) into
+ * `existingIds` at their source positions. Positions past the end append.
+ */
+export function mergeAtSourcePositions(
+  existingIds: string[],
+  additions: { id: string; position: number }[]
+): string[] {
+  const merged = [...existingIds];
+
+  // Ascending, so each insert lands where its source position says
+  for (const { id, position } of [...additions].sort((a, b) => a.position - b.position)) {
+    merged.splice(Math.min(position, merged.length), 0, id);
+  }
+
+  return merged;
+}
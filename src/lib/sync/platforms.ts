@@ -0,0 +1,80 @@
+import type { Platform } from '../providers/base';
+
+export const PLATFORMS: Platform[] = ['spotify', 'youtube', 'apple', 'tidal', 'deezer'];
+
+export const PLATFORM_NAMES: Record<Platform, string> = {
+  spotify: 'Spotify',
+  youtube: 'YouTube Music',
+  apple: 'Apple Music',
+  tidal: 'Tidal',
+  deezer: 'Deezer',
+};
+
+// Where "Add to Liked" lands on each platform, shown after a liked-songs sync
+export const LIKED_TRACKS_URLS: Record<Platform, string> = {
+  spotify: 'https://open.spotify.com/collection/tracks',
+  youtube: 'https://music.youtube.com/playlist?list=LM',
+  apple: 'https://music.apple.com/library/songs',
+  tidal: 'https://listen.tidal.com/my-collection/tracks',
+  deezer: 'https://www.deezer.com/profile/me/loved',
+};
+
+export interface SyncPlatforms {
+  sourcePlatform: Platform;
+  targetPlatform: Platform;
+}
+
+export function isPlatform(value: unknown): value is Platform {
+  return typeof value === 'string' && (PLATFORMS as string[]).includes(value);
+}
+
+/**
+ * Resolve source/target platforms from a sync request body.
+ * Accepts `{ sourcePlatform, targetPlatform }` or the older
+ * `direction: '<source>_to_<target>'` form (e.g. 'spotify_to_youtube').
+ */
+export function resolveSyncPlatforms(body: {
+  sourcePlatform?: unknown;
+  targetPlatform?: unknown;
+  direction?: unknown;
+}): SyncPlatforms | null {
+  let source = body.sourcePlatform;
+  let target = body.targetPlatform;
+
+  if ((!source || !target) && typeof body.direction === 'string') {
+    [source, target] = body.direction.split('_to_');
+  }
+
+  if (!isPlatform(source) || !isPlatform(target) || source === target) {
+    return null;
+  }
+
+  return { sourcePlatform: source, targetPlatform: target };
+}
+
+/**
+ * Source and target of a '<source>_to_<target>' direction carried in a page
+ * URL. An invalid direction falls back to the original YouTube -> Spotify.
+ */
+export function getSourcePlatform(direction: string | null): Platform {
+  return resolveSyncPlatforms({ direction })?.sourcePlatform ?? 'youtube';
+}
+
+export function getTargetPlatform(direction: string | null): Platform {
+  return resolveSyncPlatforms({ direction })?.targetPlatform ?? 'spotify';
+}
+
+/**
+ * Strip URI-style prefixes ("spotify:track:<id>", "youtube:video:<id>") that
+ * results saved by older clients may still carry, so IDs can go to providers
+ */
+export function toProviderTrackId(platform: Platform, id: string): string {
+  switch (platform) {
+    case 'spotify':
+      return id.replace('spotify:track:', '');
+    case 'youtube':
+      return id.replace('youtube:video:', '');
+    default:
+      return id;
+  }
+}
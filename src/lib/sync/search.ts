@@ -0,0 +1,42 @@
+/**
+ * Target Platform Search
+ *
+ * Builds the search, ISRC lookup and match cache the matcher needs for a
+ * connected platform. ISRC lookups are only offered where the provider can
+ * resolve them, so elsewhere the matcher goes straight to fuzzy scoring.
+ * Pass the whole result to matchTracks so retrieval knows which query forms
+ * the platform understands.
+ */
+
+import { getProvider } from '../providers';
+import type { Platform } from '../providers/base';
+import { DEFAULT_MATCH_CONFIG, TargetSearchOptions, UnifiedTrack } from '../matching/types';
+import { SessionData } from '../session';
+import { getPlatformAccessToken } from './connections';
+import { getMatchCache } from './match-cache';
+
+export interface PlatformSearch extends TargetSearchOptions {
+  searchFn: (query: string) => Promise<UnifiedTrack[]>;
+}
+
+/**
+ * `userId` is whose match cache confirmations apply; without one only
+ * automatic matches are used
+ */
+export async function getPlatformSearch(
+  session: SessionData,
+  platform: Platform,
+  { limit = DEFAULT_MATCH_CONFIG.maxSearchResults, userId }: { limit?: number; userId?: string } = {}
+): Promise<PlatformSearch> {
+  const provider = getProvider(platform);
+  const accessToken = await getPlatformAccessToken(session, platform);
+
+  return {
+    searchFn: (query) => provider.searchTracks(query, { accessToken, limit }),
+    isrcLookup: provider.capabilities.isrcSearch
+      ? (isrc) => provider.findByIsrc(isrc, { accessToken })
+      : undefined,
+    fieldedSearch: provider.capabilities.fieldedSearch,
+    cache: getMatchCache(platform, userId),
+  };
+}
@@ -1,6 +1,8 @@
 import { google, youtube_v3 } from 'googleapis';
 import { SessionData } from '../session';
 import { refreshYouTubeToken } from './auth';
+import { fromYouTubeVideo } from '../matching/adapters';
+import { DEFAULT_MATCH_CONFIG } from '../matching/types';
 
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID!;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET!;
@@ -177,30 +179,7 @@ export async function getPlaylistTracks(session: SessionData, playlistId: string
 
   const videos = await getVideoDetails(session, videoIds);
 
-  return videos.map((video) => ({
-    id: `youtube:video:${video.id}`,
-    platform: 'youtube' as const,
-    title: video.snippet?.title || 'Unknown',
-    artist: video.snippet?.channelTitle || 'Unknown',
-    artists: [video.snippet?.channelTitle || 'Unknown'],
-    album: undefined,
-    durationMs: parseDuration(video.contentDetails?.duration),
-    videoId: video.id || undefined,
-    raw: video,
-  }));
-}
-
-function parseDuration(isoDuration?: string | null): number {
-  if (!isoDuration) return 0;
-
-  const match = isoDuration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-  if (!match) return 0;
-
-  const hours = parseInt(match[1] || '0', 10);
-  const minutes = parseInt(match[2] || '0', 10);
-  const seconds = parseInt(match[3] || '0', 10);
-
-  return (hours * 3600 + minutes * 60 + seconds) * 1000;
+  return videos.map(fromYouTubeVideo);
 }
 
 export async function createPlaylist(session: SessionData, title: string, description?: string) {
@@ -259,7 +238,11 @@ export async function addVideosToPlaylist(
   }
 }
 
-export async function searchYouTube(session: SessionData, query: string) {
+export async function searchYouTube(
+  session: SessionData,
+  query: string,
+  limit: number = DEFAULT_MATCH_CONFIG.maxSearchResults
+) {
   await ensureValidToken(session);
   const youtube = getYouTubeClient(session);
 
@@ -268,7 +251,7 @@ export async function searchYouTube(session: SessionData, query: string) {
     q: query,
     type: ['video'],
     videoCategoryId: '10', // Music category
-    maxResults: 5,
+    maxResults: limit,
   });
 
   if (!response.data.items) {
@@ -281,24 +264,5 @@ export async function searchYouTube(session: SessionData, query: string) {
 
   const videos = await getVideoDetails(session, videoIds);
 
-  return videos.map((video) => ({
-    id: `youtube:video:${video.id}`,
-    platform: 'youtube' as const,
-    title: video.snippet?.title || 'Unknown',
-    artist: video.snippet?.channelTitle || 'Unknown',
-    artists: [video.snippet?.channelTitle || 'Unknown'],
-    album: undefined,
-    durationMs: parseDuration(video.contentDetails?.duration),
-    videoId: video.id || undefined,
-    raw: video,
-  }));
-}
-
-export async function getPlaylistVideoIds(session: SessionData, playlistId: string): Promise<Set<string>> {
-  const items = await getPlaylistItems(session, playlistId);
-  const videoIds = items
-    .map((item) => item.contentDetails?.videoId)
-    .filter((id): id is string => !!id)
-    .map((id) => `youtube:video:${id}`);
-  return new Set(videoIds);
+  return videos.map(fromYouTubeVideo);
 }